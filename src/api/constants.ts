@@ -272,6 +272,10 @@ export const JOB_CLASSES = [
   'Striker', // Legacy class
 ] as const;
 
+// Unique job class names; JOB_CLASSES repeats the base classes per branch, and JSON Schema
+// enums must be unique
+export const CLASS_NAMES = [...new Set(JOB_CLASSES)];
+
 // Job class categorization for SEA region
 export const JOB_CATEGORIES = {
   EXPLORER: {
@@ -368,6 +372,78 @@ export const JOB_PRIMARY_STATS = {
   HYBRID: ['STR', 'DEX'], // Classes like Xenon
 } as const;
 
+// Symbol progression for Arcane and Sacred/Authentic symbols
+export const SYMBOL_PROGRESSION = {
+  ARCANE: {
+    MAX_LEVEL: 20,
+    FORCE_PER_LEVEL: 10, // Arcane Force = (level + 2) * 10
+    DAILY_GROWTH: 20, // Default symbols gained per region from daily quests
+  },
+  SACRED: {
+    MAX_LEVEL: 11,
+    FORCE_PER_LEVEL: 10, // Sacred/Authentic Force = level * 10
+    DAILY_GROWTH: 10, // Default symbols gained per region from daily quests
+  },
+} as const;
+
+// Skill grades accepted by the character skill endpoint (job advancement order)
+export const SKILL_GRADES = [
+  '0',
+  '1',
+  '1.5',
+  '2',
+  '2.5',
+  '3',
+  '4',
+  'hyperpassive',
+  'hyperactive',
+  '5',
+  '6',
+] as const;
+
+// Link skills and the job classes that grant them; every class must be one of JOB_CLASSES
+export const LINK_SKILLS = {
+  'Invincible Belief': ['Hero', 'Paladin', 'Dark Knight'],
+  'Empirical Knowledge': ['Arch Mage (Fire, Poison)', 'Arch Mage (Ice, Lightning)', 'Bishop'],
+  "Adventurer's Curiosity": ['Bowmaster', 'Marksman', 'Pathfinder'],
+  "Thief's Cunning": ['Night Lord', 'Shadower', 'Dual Blade'],
+  "Pirate's Blessing": ['Buccaneer', 'Corsair', 'Cannoneer'],
+  'Cygnus Blessing': [
+    'Dawn Warrior',
+    'Blaze Wizard',
+    'Wind Archer',
+    'Night Walker',
+    'Thunder Breaker',
+  ],
+  "Knight's Watch": ['Mihile'],
+  'Combo Kill Blessing': ['Aran'],
+  'Rune Persistence': ['Evan'],
+  'Elven Blessing': ['Mercedes'],
+  'Phantom Instinct': ['Phantom'],
+  'Light Wash': ['Luminous'],
+  'Close Call': ['Shade'],
+  'Spirit of Freedom': ['Battle Mage', 'Wild Hunter', 'Mechanic', 'Blaster'],
+  'Fury Unleashed': ['Demon Slayer'],
+  'Wild Rage': ['Demon Avenger'],
+  'Hybrid Logic': ['Xenon'],
+  'Iron Will': ['Kaiser'],
+  'Terms and Conditions': ['Angelic Buster'],
+  'Unfair Advantage': ['Cadena'],
+  'Time to Prepare': ['Kain'],
+  Elementalism: ['Kanna'],
+  'Keen Edge': ['Hayato'],
+  Nobility: ['Adele'],
+  Solus: ['Ark'],
+  'Tide of Battle': ['Illium'],
+  'Innate Gift': ['Khali'],
+  Bravado: ['Hoyoung'],
+  "Nature's Friend": ['Lara'],
+  'Focus Spirit': ['Lynn'],
+  'Qi Cultivation': ['Mo Xuan'],
+  "Rhinne's Blessing": ['Zero'],
+  Judgment: ['Kinesis'],
+} as const satisfies Record<string, ReadonlyArray<(typeof JOB_CLASSES)[number]>>;
+
 // Rate limiting configuration (optimized for SEA API stability)
 export const RATE_LIMIT = {
   REQUESTS_PER_MINUTE: 500, // Conservative daily limit
@@ -376,8 +452,12 @@ export const RATE_LIMIT = {
   RETRY_DELAY_BASE: 1500, // Slightly higher base delay for SEA API
   MAX_RETRY_DELAY: 45000, // Higher max delay for better error recovery
   QUEUE_TIMEOUT: 30000, // Maximum time to wait in queue
+  DAILY_QUOTA: 1000, // Daily request allowance of a development API key
+  DAILY_QUOTA_RESERVE: 0.05, // Share of the daily quota kept in reserve
   CIRCUIT_BREAKER_THRESHOLD: 10, // Number of failures before circuit break
   CIRCUIT_BREAKER_TIMEOUT: 60000, // 1 minute circuit breaker timeout
+  KEY_BENCH_RATE_LIMITED: 60000, // Rest a rate-limited API key for 1 minute
+  KEY_BENCH_REJECTED: 3600000, // Rest an API key the API rejected for 1 hour
   // Specific limits for different endpoint types
   RANKING: {
     REQUESTS_PER_SECOND: 5, // More conservative for heavy ranking queries
@@ -452,6 +532,7 @@ export const CACHE_TTL = {
   RANKING_SPECIFIC: 1800000, // 30 minutes - specific character rankings (more stable)
   API_HEALTH: 300000, // 5 minutes - API health can change quickly
   ERROR_CACHE: 60000, // 1 minute - cache errors briefly to avoid spam
+  HISTORICAL: Number.MAX_SAFE_INTEGER, // never expires - data for past dates does not change
 } as const;
 
 // Pagination defaults
@@ -459,4 +540,5 @@ export const PAGINATION = {
   DEFAULT_COUNT: 10,
   MAX_COUNT: 200,
   DEFAULT_PAGE: 1,
+  MAX_SIZE_PROBES: 12, // pages fetched at most when estimating a leaderboard's size
 } as const;
@@ -3,6 +3,7 @@
  * Provides methods to interact with NEXON's official MapleStory API
  */
 
+import { AsyncLocalStorage } from 'async_hooks';
 import axios, { AxiosInstance, AxiosResponse } from 'axios';
 import { createLogger, Logger } from 'winston';
 import {
@@ -15,6 +16,8 @@ import {
   getRetryDelay,
   TimeoutError,
   RankingTimeoutError,
+  RequestCancelledError,
+  ServiceUnavailableError,
 } from '../utils/errors';
 import { McpLogger, performanceMonitor } from '../utils/logger';
 import {
@@ -31,6 +34,8 @@ import {
   SetEffect,
   AndroidEquipment,
   PetEquipment,
+  CashItemEquipment,
+  BeautyEquipment,
   CharacterSkill,
   LinkSkill,
   VMatrix,
@@ -49,18 +54,24 @@ import {
   TheSeedRanking,
   AchievementRanking,
   ApiError,
+  RequestOptions,
+  RankingScanOptions,
+  CoalescingStats,
 } from './types';
 import {
   API_CONFIG,
   ENDPOINTS,
   HEADERS,
-  HTTP_STATUS,
-  ERROR_MESSAGES,
   RATE_LIMIT,
   CACHE_TTL,
+  PAGINATION,
   WORLDS,
 } from './constants';
-import { MemoryCache, defaultCache } from '../utils/cache';
+import { CacheStats, ICache, MemoryCache, defaultCache } from '../utils/cache';
+import { ENDPOINT_CLASSES, EndpointClass, getEndpointClass } from '../utils/rate-limiter';
+import { ApiKeyPool, ApiKeyPoolStats } from '../utils/api-key-pool';
+import { CircuitBreaker, CircuitBreakerStats, isOutageError } from '../utils/circuit-breaker';
+import { recordStaleData } from '../utils/data-freshness';
 import {
   validateCharacterName,
   validateWorldName,
@@ -71,6 +82,7 @@ import {
 } from '../utils/validation';
 import {
   analyzeSetEffects,
+  parseSetEffects,
   analyzeEquipmentPiece,
   calculateCombatPower,
   calculateEnhancementScore,
@@ -90,6 +102,7 @@ import {
   determineServerStatus,
   estimateWorldPopulation,
   ServerCacheKeys,
+  getDataCacheTtl,
 } from '../utils/server-utils';
 import {
   GuildRankingType,
@@ -100,22 +113,40 @@ import {
   parseRankingResponse,
   calculateRankingStats,
   RankingCacheKeys,
+  DojangDifficulty,
 } from '../utils/ranking-utils';
 
+interface InFlightRequest {
+  key: string;
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
+}
+
 export class NexonApiClient {
   private client: AxiosInstance;
   private logger: Logger;
   private mcpLogger: McpLogger;
-  private apiKey: string;
-  private requestQueue: Array<{ resolve: () => void; timestamp: number }> = [];
-  private isProcessingQueue = false;
-  private cache: MemoryCache;
+  private keyPool: ApiKeyPool;
+  private circuitBreakers: Record<EndpointClass, CircuitBreaker>;
+  private revalidating: Set<string> = new Set();
+  private freshReads = new AsyncLocalStorage<boolean>();
+  private cache: ICache;
   private errorAggregator: ErrorAggregator;
+  private inFlight: Map<string, InFlightRequest> = new Map();
+  private coalescing = { requests: 0, coalesced: 0, byEndpoint: {} as Record<string, number> };
 
   constructor(config: ApiClientConfig) {
-    this.apiKey = config.apiKey;
     this.cache = config.cache || defaultCache;
     this.errorAggregator = new ErrorAggregator();
+    this.keyPool = new ApiKeyPool([config.apiKey, ...(config.apiKeys ?? [])], {
+      usageStore: this.cache,
+      ...(config.dailyQuota !== undefined && { dailyQuota: config.dailyQuota }),
+    });
+    this.circuitBreakers = {} as Record<EndpointClass, CircuitBreaker>;
+    ENDPOINT_CLASSES.forEach((endpointClass) => {
+      this.circuitBreakers[endpointClass] = new CircuitBreaker(endpointClass);
+    });
 
     // Check if in MCP mode (no port specified)
     const isMcpMode = !process.env.MCP_PORT && !process.argv.includes('--port');
@@ -138,7 +169,7 @@ export class NexonApiClient {
       baseURL: config.baseURL || API_CONFIG.BASE_URL,
       timeout: config.timeout || API_CONFIG.TIMEOUT,
       headers: {
-        [HEADERS.AUTHORIZATION]: this.apiKey,
+        [HEADERS.AUTHORIZATION]: config.apiKey,
         'Content-Type': HEADERS.CONTENT_TYPE,
         'User-Agent': HEADERS.USER_AGENT,
       },
@@ -152,6 +183,7 @@ export class NexonApiClient {
       baseURL: config.baseURL || API_CONFIG.BASE_URL,
       timeout: config.timeout || API_CONFIG.TIMEOUT,
       cacheEnabled: !!this.cache,
+      apiKeys: this.keyPool.size,
     });
   }
 
@@ -197,7 +229,7 @@ export class NexonApiClient {
 
         return response;
       },
-      async (error) => {
+      (error) => {
         const duration = Date.now() - ((error.config as any)?._startTime || Date.now());
         const endpoint = error.config?.url || 'unknown';
 
@@ -217,183 +249,182 @@ export class NexonApiClient {
           });
         }
 
-        // Create standardized error
-        const mcpError = createNexonApiError(
-          error.response?.status || 500,
-          error.response?.data?.message || error.message,
-          endpoint,
-          error.config?.params
-        );
-
-        // Try error recovery
-        try {
-          const recoveryResult = await defaultErrorRecovery.attemptRecovery(mcpError, {
-            operation: () => this.client.request(error.config),
-            maxAttempts: 3,
-          });
-
-          this.mcpLogger.logRecoveryAttempt('retry', mcpError, 1, true, {
-            endpoint,
-            recoveryStrategy: 'retry',
-          });
-
-          return recoveryResult;
-        } catch (recoveryError) {
-          this.mcpLogger.logRecoveryAttempt('retry', mcpError, 1, false, {
-            endpoint,
-            recoveryStrategy: 'retry',
-            finalError: (recoveryError as Error).message,
-          });
-
-          // Transform to legacy format for backward compatibility
-          const apiError: ApiError = {
-            error: {
-              name: this.getErrorName(error.response?.status),
-              message: this.getErrorMessage(error.response?.status, error.response?.data, endpoint),
-            },
-          };
-
-          return Promise.reject(apiError);
-        }
+        // Retries are left to retryRequest, which rate limits every attempt and rotates API
+        // keys; sendRequest turns the axios error into an McpMapleError
+        return Promise.reject(error);
       }
     );
   }
 
-  private getErrorName(status?: number): string {
-    switch (status) {
-      case HTTP_STATUS.UNAUTHORIZED:
-        return 'UNAUTHORIZED';
-      case HTTP_STATUS.FORBIDDEN:
-        return 'FORBIDDEN';
-      case HTTP_STATUS.NOT_FOUND:
-        return 'NOT_FOUND';
-      case HTTP_STATUS.TOO_MANY_REQUESTS:
-        return 'RATE_LIMITED';
-      case HTTP_STATUS.INTERNAL_SERVER_ERROR:
-        return 'INTERNAL_ERROR';
-      case HTTP_STATUS.SERVICE_UNAVAILABLE:
-        return 'SERVICE_UNAVAILABLE';
-      default:
-        return 'UNKNOWN_ERROR';
-    }
-  }
-
-  private getErrorMessage(status?: number, data?: any, endpoint?: string): string {
-    if (data?.message) {
-      return data.message;
-    }
-
-    switch (status) {
-      case HTTP_STATUS.UNAUTHORIZED:
-        return ERROR_MESSAGES.INVALID_API_KEY;
-      case HTTP_STATUS.TOO_MANY_REQUESTS:
-        return ERROR_MESSAGES.RATE_LIMIT_EXCEEDED;
-      case HTTP_STATUS.NOT_FOUND:
-        // More specific error messages based on SEA API endpoint
-        if (endpoint?.includes('/guild/')) {
-          return ERROR_MESSAGES.GUILD_NOT_FOUND;
-        }
-        if (endpoint?.includes('/character/') || endpoint?.includes('/id')) {
-          return ERROR_MESSAGES.CHARACTER_NOT_FOUND;
-        }
-        return 'Resource not found in MapleStory SEA API';
-      case HTTP_STATUS.BAD_REQUEST:
-        return 'Invalid request parameters for MapleStory SEA API';
-      case HTTP_STATUS.FORBIDDEN:
-        return 'Access forbidden. Check your API key permissions for MapleStory SEA';
-      case HTTP_STATUS.INTERNAL_SERVER_ERROR:
-        return 'MapleStory SEA API server error. Please try again later';
-      case HTTP_STATUS.SERVICE_UNAVAILABLE:
-        return 'MapleStory SEA API is temporarily unavailable. Please try again later';
-      default:
-        return ERROR_MESSAGES.UNKNOWN_ERROR;
-    }
-  }
-
-  private async waitForRateLimit(): Promise<void> {
-    return new Promise((resolve) => {
-      const now = Date.now();
-      this.requestQueue.push({ resolve, timestamp: now });
-
-      // Log rate limiting activity
-      this.mcpLogger.logRateLimit('applied', {
-        queueLength: this.requestQueue.length,
-        timestamp: now,
-      });
+  /**
+   * Circuit breaker for the endpoint's family (character, union, guild or ranking)
+   */
+  private getCircuitBreaker(endpoint: string): CircuitBreaker {
+    return this.circuitBreakers[getEndpointClass(endpoint)];
+  }
 
-      if (!this.isProcessingQueue) {
-        this.processQueue();
-      }
+  /**
+   * Circuit breaker state per endpoint family
+   */
+  getCircuitBreakerStats(): Record<EndpointClass, CircuitBreakerStats> {
+    const stats = {} as Record<EndpointClass, CircuitBreakerStats>;
+    ENDPOINT_CLASSES.forEach((endpointClass) => {
+      stats[endpointClass] = this.circuitBreakers[endpointClass].getStats();
     });
+    return stats;
   }
 
-  private async processQueue(): Promise<void> {
-    this.isProcessingQueue = true;
-    const startTime = Date.now();
-    let processedCount = 0;
-
-    this.mcpLogger.debug('Rate limit queue processing started', {
-      operation: 'queue_processing',
-      queueLength: this.requestQueue.length,
-    });
+  /**
+   * Run reads that skip cached and stale entries and always fetch from the API. Fetched
+   * data is still cached for later reads.
+   */
+  async withFreshReads<T>(read: () => Promise<T>): Promise<T> {
+    return this.freshReads.run(true, read);
+  }
 
-    while (this.requestQueue.length > 0) {
-      const now = Date.now();
-      const recentRequests = this.requestQueue.filter((req) => now - req.timestamp < 1000);
+  /**
+   * Cached entry for a key, or null inside withFreshReads
+   */
+  private getCached<T>(cacheKey: string): T | null {
+    return this.freshReads.getStore() ? null : this.cache.get<T>(cacheKey);
+  }
 
-      if (recentRequests.length >= RATE_LIMIT.REQUESTS_PER_SECOND) {
-        this.mcpLogger.logRateLimit('exceeded', {
-          recentRequests: recentRequests.length,
-          limit: RATE_LIMIT.REQUESTS_PER_SECOND,
-          delayMs: 100,
-        });
+  /**
+   * Whether a failed request may fall back to stale cache data: the API is down, failing
+   * fast behind an open circuit or out of quota, as opposed to rejecting the request itself
+   */
+  private canServeStale(error: unknown): boolean {
+    if (isOutageError(error)) {
+      return true;
+    }
+    return error instanceof McpMapleError && error.statusCode === 429;
+  }
 
-        await new Promise((resolve) => setTimeout(resolve, 100));
-        continue;
-      }
+  /**
+   * Fall back to expired cache data (within the cache's stale grace period) when fetching
+   * fresh data finally fails
+   */
+  private getStaleOnError<T>(cacheKey: string, endpoint: string, error: unknown): T | null {
+    if (this.freshReads.getStore() || !this.canServeStale(error)) {
+      return null;
+    }
+
+    const stale = this.cache.getStale<T>(cacheKey);
+    if (stale) {
+      const circuitOpen = this.getCircuitBreaker(endpoint).getState() !== 'closed';
+      const message = error instanceof Error ? error.message : String(error);
+      this.mcpLogger.warn('Serving stale cache entry after API failure', {
+        endpoint,
+        cacheKey,
+        circuitOpen,
+        error: message,
+      });
+      recordStaleData({
+        cacheKey,
+        reason: circuitOpen ? 'circuit_open' : 'api_error',
+        error: message,
+      });
+    }
+    return stale;
+  }
 
-      const request = this.requestQueue.shift();
-      if (request) {
-        request.resolve();
-        processedCount++;
-      }
+  /**
+   * Stale-while-revalidate: return an expired cache entry immediately and refresh it in
+   * the background. Returns null when there is no stale entry, a refresh is already
+   * running or the read is inside withFreshReads, in which case the caller fetches as usual.
+   */
+  private revalidateInBackground<T>(cacheKey: string, refresh: () => Promise<T>): T | null {
+    if (this.freshReads.getStore() || this.revalidating.has(cacheKey)) {
+      return null;
     }
 
-    const duration = Date.now() - startTime;
-    this.mcpLogger.debug('Rate limit queue processing completed', {
-      operation: 'queue_processing',
-      duration,
-      processedCount,
-    });
+    const stale = this.cache.getStale<T>(cacheKey);
+    if (stale === null) {
+      return null;
+    }
 
-    // Record performance metric
-    performanceMonitor.recordMetric('rate_limit_queue_processing', duration);
+    // The refresh re-enters the getter, which sees the key as revalidating and fetches
+    this.revalidating.add(cacheKey);
+    refresh()
+      .catch((error) => {
+        this.mcpLogger.warn('Background cache refresh failed', {
+          cacheKey,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      })
+      .finally(() => this.revalidating.delete(cacheKey));
 
-    this.isProcessingQueue = false;
+    this.mcpLogger.debug('Serving stale cache entry while refreshing', { cacheKey });
+    recordStaleData({ cacheKey, reason: 'revalidating' });
+    return stale;
   }
 
   private async retryRequest<T>(
-    operation: () => Promise<T>,
-    maxRetries: number = API_CONFIG.RETRY_ATTEMPTS
+    endpoint: string,
+    operation: (apiKey: string) => Promise<T>,
+    maxRetries: number = API_CONFIG.RETRY_ATTEMPTS,
+    signal?: AbortSignal
   ): Promise<T> {
     let lastError: unknown;
     const operationName = 'nexon_api_request';
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      // Don't spend quota on requests the caller has already given up on
+      if (signal?.aborted) {
+        throw new RequestCancelledError();
+      }
+
+      // Fail fast while the endpoint family is down instead of waiting through retries
+      const breaker = this.getCircuitBreaker(endpoint);
+      if (!breaker.allowRequest()) {
+        const { retryAt } = breaker.getStats();
+        throw new ServiceUnavailableError(
+          `NEXON API (${breaker.name})`,
+          `circuit breaker open after repeated failures, retrying after ${retryAt}`
+        );
+      }
+
+      let apiKey: string;
       try {
-        await this.waitForRateLimit();
+        // Not retried: a queue timeout or an exhausted daily quota won't clear by waiting again
+        apiKey = await this.keyPool.acquire(endpoint, signal);
+      } catch (error) {
+        breaker.release();
+        throw error;
+      }
 
-        // Log rate limiting
-        if (this.requestQueue.length > 0) {
-          this.mcpLogger.logRateLimit('applied', {
-            queueLength: this.requestQueue.length,
-            attempt: attempt + 1,
-          });
+      try {
+        if (signal?.aborted) {
+          throw new RequestCancelledError();
         }
 
-        return await operation();
+        const result = await operation(apiKey);
+        breaker.recordSuccess();
+        return result;
       } catch (error: unknown) {
+        if (error instanceof RequestCancelledError) {
+          breaker.release();
+          throw error;
+        }
+
+        if (isOutageError(error)) {
+          breaker.recordFailure();
+        } else {
+          // The API answered, e.g. with a 404 for an unknown character
+          breaker.recordSuccess();
+        }
+
         lastError = error;
+
+        // Retry straight away with another key if the API rejected or rate limited this one
+        if (
+          this.keyPool.bench(apiKey, error) &&
+          this.keyPool.hasAvailableKey() &&
+          attempt < maxRetries
+        ) {
+          continue;
+        }
+
         const mcpError =
           error instanceof McpMapleError
             ? error
@@ -462,85 +493,210 @@ export class NexonApiClient {
     return retryableErrors.includes(apiError?.error?.name || '');
   }
 
-  private async request<T>(endpoint: string, params?: Record<string, any>): Promise<T> {
-    return this.retryRequest(async () => {
-      // Use extended timeout for ranking endpoints which are slower
-      const timeout = endpoint.includes('/ranking/')
-        ? API_CONFIG.RANKING_TIMEOUT
-        : API_CONFIG.TIMEOUT;
+  /**
+   * Key identifying identical API calls: the endpoint plus its params in sorted order
+   */
+  private static getRequestKey(endpoint: string, params?: Record<string, any>): string {
+    const entries = Object.entries(params ?? {})
+      .filter(([, value]) => value !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `${endpoint}?${JSON.stringify(entries)}`;
+  }
 
-      const isRankingEndpoint = endpoint.includes('/ranking/');
-      const requestStart = Date.now();
+  /**
+   * Make an API call, sharing one in-flight request between concurrent identical calls
+   */
+  private async request<T>(
+    endpoint: string,
+    params?: Record<string, any>,
+    options: RequestOptions = {}
+  ): Promise<T> {
+    if (options.signal?.aborted) {
+      throw new RequestCancelledError(endpoint);
+    }
+
+    const key = NexonApiClient.getRequestKey(endpoint, params);
+    let flight = this.inFlight.get(key);
+
+    if (flight) {
+      this.coalescing.coalesced++;
+      this.coalescing.byEndpoint[endpoint] = (this.coalescing.byEndpoint[endpoint] ?? 0) + 1;
+      this.mcpLogger.debug('Coalesced identical API request', { endpoint });
+    } else {
+      const controller = new AbortController();
+      const promise = this.sendRequest<T>(endpoint, params, { signal: controller.signal }).finally(
+        () => {
+          if (this.inFlight.get(key) === flight) {
+            this.inFlight.delete(key);
+          }
+        }
+      );
+      // Callers observe the result through waitForRequest; don't report it as unhandled
+      promise.catch(() => undefined);
 
-      // Enhanced logging for API requests, especially ranking endpoints
-      this.mcpLogger.logApiRequest(endpoint, params);
+      flight = { key, promise, controller, waiters: 0 };
+      this.inFlight.set(key, flight);
+      this.coalescing.requests++;
+    }
 
-      try {
-        const response = await this.client.get<T>(endpoint, {
-          params,
-          timeout,
-        });
+    return this.waitForRequest<T>(flight, endpoint, options.signal);
+  }
 
-        const requestDuration = Date.now() - requestStart;
+  /**
+   * Wait for a shared request. A caller that cancels stops waiting; the request itself is
+   * only aborted once every caller sharing it has cancelled.
+   */
+  private waitForRequest<T>(
+    flight: InFlightRequest,
+    endpoint: string,
+    signal?: AbortSignal
+  ): Promise<T> {
+    flight.waiters++;
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        flight.waiters--;
+        if (flight.waiters === 0) {
+          if (this.inFlight.get(flight.key) === flight) {
+            this.inFlight.delete(flight.key);
+          }
+          flight.controller.abort();
+        }
+        reject(new RequestCancelledError(endpoint));
+      };
 
-        // Log successful response with timing
-        this.mcpLogger.logApiResponse(endpoint, requestDuration, true);
+      signal?.addEventListener('abort', onAbort, { once: true });
 
-        return response.data;
-      } catch (error: any) {
-        const requestDuration = Date.now() - requestStart;
+      flight.promise.then(
+        (value) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(value as T);
+        },
+        (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
 
-        // Enhanced error logging
-        this.mcpLogger.logApiResponse(endpoint, requestDuration, false);
-        this.mcpLogger.logApiError(endpoint, error, requestDuration);
+  /**
+   * Usage, bench state and rate limiter state of each API key
+   */
+  getApiKeyStats(): ApiKeyPoolStats {
+    return this.keyPool.getStats();
+  }
 
-        // Handle axios timeout errors specifically
-        if (error.code === 'ECONNABORTED' || error.message?.includes('timeout')) {
-          this.mcpLogger.logError(error, {
-            endpoint,
+  /**
+   * Request coalescing metrics
+   */
+  getCoalescingStats(): CoalescingStats {
+    const { requests, coalesced, byEndpoint } = this.coalescing;
+    const total = requests + coalesced;
+    return {
+      inFlight: this.inFlight.size,
+      requests,
+      coalesced,
+      coalescedRate: total > 0 ? coalesced / total : 0,
+      byEndpoint: { ...byEndpoint },
+    };
+  }
+
+  private async sendRequest<T>(
+    endpoint: string,
+    params?: Record<string, any>,
+    options: RequestOptions = {}
+  ): Promise<T> {
+    return this.retryRequest(
+      endpoint,
+      async (apiKey) => {
+        // Use extended timeout for ranking endpoints which are slower
+        const timeout = endpoint.includes('/ranking/')
+          ? API_CONFIG.RANKING_TIMEOUT
+          : API_CONFIG.TIMEOUT;
+
+        const isRankingEndpoint = endpoint.includes('/ranking/');
+        const requestStart = Date.now();
+
+        // Enhanced logging for API requests, especially ranking endpoints
+        this.mcpLogger.logApiRequest(endpoint, params);
+
+        try {
+          const response = await this.client.get<T>(endpoint, {
+            params,
             timeout,
-            duration: requestDuration,
-            isRankingEndpoint,
-            params: params ? Object.keys(params) : [],
+            headers: { [HEADERS.AUTHORIZATION]: apiKey },
+            ...(options.signal && { signal: options.signal }),
           });
 
-          if (endpoint.includes('/ranking/')) {
-            throw new RankingTimeoutError(timeout, endpoint, params);
-          } else {
-            throw new TimeoutError(timeout, endpoint);
+          const requestDuration = Date.now() - requestStart;
+
+          // Log successful response with timing
+          this.mcpLogger.logApiResponse(endpoint, requestDuration, true);
+
+          return response.data;
+        } catch (error: any) {
+          const requestDuration = Date.now() - requestStart;
+
+          // The caller cancelled the request; nothing to log as an API failure
+          if (axios.isCancel(error) || options.signal?.aborted) {
+            throw new RequestCancelledError(endpoint);
           }
-        }
 
-        // Handle other axios errors
-        if (error.response?.status) {
+          // Enhanced error logging
+          this.mcpLogger.logApiResponse(endpoint, requestDuration, false);
+          this.mcpLogger.logApiError(endpoint, error, requestDuration);
+
+          // Handle axios timeout errors specifically
+          if (error.code === 'ECONNABORTED' || error.message?.includes('timeout')) {
+            this.mcpLogger.logError(error, {
+              endpoint,
+              timeout,
+              duration: requestDuration,
+              isRankingEndpoint,
+              params: params ? Object.keys(params) : [],
+            });
+
+            if (endpoint.includes('/ranking/')) {
+              throw new RankingTimeoutError(timeout, endpoint, params);
+            } else {
+              throw new TimeoutError(timeout, endpoint);
+            }
+          }
+
+          // Handle other axios errors
+          if (error.response?.status) {
+            this.mcpLogger.logError(error, {
+              endpoint,
+              statusCode: error.response.status,
+              responseData: error.response.data,
+              duration: requestDuration,
+              isRankingEndpoint,
+            });
+
+            const nexonError = createNexonApiError(
+              error.response.status,
+              error.response.data?.message || error.message,
+              endpoint,
+              params
+            );
+            throw nexonError;
+          }
+
+          // Log unknown errors
           this.mcpLogger.logError(error, {
             endpoint,
-            statusCode: error.response.status,
-            responseData: error.response.data,
             duration: requestDuration,
             isRankingEndpoint,
           });
 
-          const nexonError = createNexonApiError(
-            error.response.status,
-            error.response.data?.message || error.message,
-            endpoint,
-            params
-          );
-          throw nexonError;
+          // Re-throw original error if not handled
+          throw error;
         }
-
-        // Log unknown errors
-        this.mcpLogger.logError(error, {
-          endpoint,
-          duration: requestDuration,
-          isRankingEndpoint,
-        });
-
-        // Re-throw original error if not handled
-        throw error;
-      }
-    });
+      },
+      API_CONFIG.RETRY_ATTEMPTS,
+      options.signal
+    );
   }
 
   // Character API methods
@@ -558,7 +714,7 @@ export class NexonApiClient {
 
       // Check cache first
       const cacheKey = MemoryCache.generateOcidCacheKey(sanitizedName);
-      const cachedResult = this.cache.get<{ ocid: string }>(cacheKey);
+      const cachedResult = this.getCached<{ ocid: string }>(cacheKey);
 
       if (cachedResult) {
         this.mcpLogger.logCacheOperation('hit', cacheKey, {
@@ -570,6 +726,14 @@ export class NexonApiClient {
         return cachedResult;
       }
 
+      const staleResult = this.revalidateInBackground(cacheKey, () =>
+        this.getCharacterOcid(characterName)
+      );
+      if (staleResult) {
+        operationTimer();
+        return staleResult;
+      }
+
       this.mcpLogger.logCacheOperation('miss', cacheKey, {
         characterName: sanitizedName,
         operation: 'get_character_ocid',
@@ -600,6 +764,18 @@ export class NexonApiClient {
       operationTimer();
       return result;
     } catch (error) {
+      if (this.canServeStale(error)) {
+        const fallbackResult = this.getStaleOnError<{ ocid: string }>(
+          MemoryCache.generateOcidCacheKey(sanitizeCharacterName(characterName)),
+          ENDPOINTS.CHARACTER.OCID,
+          error
+        );
+        if (fallbackResult) {
+          operationTimer();
+          return fallbackResult;
+        }
+      }
+
       const sanitizedError = sanitizeErrorForLogging(error);
 
       this.mcpLogger.logCharacterOperation('ocid_lookup_failed', characterName, {
@@ -621,13 +797,20 @@ export class NexonApiClient {
 
     // Check cache first
     const cacheKey = MemoryCache.generateCharacterBasicCacheKey(ocid, date);
-    const cachedResult = this.cache.get<CharacterBasic>(cacheKey);
+    const cachedResult = this.getCached<CharacterBasic>(cacheKey);
 
     if (cachedResult) {
       this.logger.info('Character basic info cache hit', { ocid, date });
       return cachedResult;
     }
 
+    const staleResult = this.revalidateInBackground(cacheKey, () =>
+      this.getCharacterBasic(ocid, date)
+    );
+    if (staleResult) {
+      return staleResult;
+    }
+
     try {
       const params: Record<string, any> = { ocid };
       if (date) {
@@ -641,8 +824,8 @@ export class NexonApiClient {
         validateWorldName(result.world_name);
       }
 
-      // Cache for 30 minutes (character info changes less frequently)
-      this.cache.set(cacheKey, result, CACHE_TTL.CHARACTER_BASIC);
+      // Cache until the next data update (indefinitely for past dates)
+      this.cache.set(cacheKey, result, getDataCacheTtl(CACHE_TTL.CHARACTER_BASIC, date));
 
       this.logger.info('Character basic info lookup successful', {
         ocid,
@@ -653,6 +836,15 @@ export class NexonApiClient {
 
       return result;
     } catch (error) {
+      const fallbackResult = this.getStaleOnError<CharacterBasic>(
+        cacheKey,
+        ENDPOINTS.CHARACTER.BASIC,
+        error
+      );
+      if (fallbackResult) {
+        return fallbackResult;
+      }
+
       this.logger.error('Character basic info lookup failed', {
         ocid,
         date,
@@ -674,13 +866,20 @@ export class NexonApiClient {
       ocid,
       date: date || 'latest',
     });
-    const cachedResult = this.cache.get<CharacterStat>(cacheKey);
+    const cachedResult = this.getCached<CharacterStat>(cacheKey);
 
     if (cachedResult) {
       this.logger.info('Character stat cache hit', { ocid, date });
       return cachedResult;
     }
 
+    const staleResult = this.revalidateInBackground(cacheKey, () =>
+      this.getCharacterStat(ocid, date)
+    );
+    if (staleResult) {
+      return staleResult;
+    }
+
     try {
       const params: Record<string, any> = { ocid };
       if (date) {
@@ -689,8 +888,8 @@ export class NexonApiClient {
 
       const result = await this.request<CharacterStat>(ENDPOINTS.CHARACTER.STAT, params);
 
-      // Cache for 15 minutes (stats can change more frequently)
-      this.cache.set(cacheKey, result, CACHE_TTL.CHARACTER_STATS);
+      // Cache until the next data update (indefinitely for past dates)
+      this.cache.set(cacheKey, result, getDataCacheTtl(CACHE_TTL.CHARACTER_STATS, date));
 
       this.logger.info('Character stat lookup successful', {
         ocid,
@@ -700,6 +899,15 @@ export class NexonApiClient {
 
       return result;
     } catch (error) {
+      const fallbackResult = this.getStaleOnError<CharacterStat>(
+        cacheKey,
+        ENDPOINTS.CHARACTER.STAT,
+        error
+      );
+      if (fallbackResult) {
+        return fallbackResult;
+      }
+
       this.logger.error('Character stat lookup failed', {
         ocid,
         date,
@@ -733,13 +941,20 @@ export class NexonApiClient {
       ocid,
       date: date || 'latest',
     });
-    const cachedResult = this.cache.get<ItemEquipment>(cacheKey);
+    const cachedResult = this.getCached<ItemEquipment>(cacheKey);
 
     if (cachedResult) {
       this.logger.info('Character equipment cache hit', { ocid, date });
       return cachedResult;
     }
 
+    const staleResult = this.revalidateInBackground(cacheKey, () =>
+      this.getCharacterItemEquipment(ocid, date)
+    );
+    if (staleResult) {
+      return staleResult;
+    }
+
     try {
       const params: Record<string, any> = { ocid };
       if (date) {
@@ -748,8 +963,8 @@ export class NexonApiClient {
 
       const result = await this.request<ItemEquipment>(ENDPOINTS.CHARACTER.ITEM_EQUIPMENT, params);
 
-      // Cache for 20 minutes (equipment changes less frequently)
-      this.cache.set(cacheKey, result, CACHE_TTL.CHARACTER_EQUIPMENT);
+      // Cache until the next data update (indefinitely for past dates)
+      this.cache.set(cacheKey, result, getDataCacheTtl(CACHE_TTL.CHARACTER_EQUIPMENT, date));
 
       this.logger.info('Character equipment lookup successful', {
         ocid,
@@ -759,6 +974,15 @@ export class NexonApiClient {
 
       return result;
     } catch (error) {
+      const fallbackResult = this.getStaleOnError<ItemEquipment>(
+        cacheKey,
+        ENDPOINTS.CHARACTER.ITEM_EQUIPMENT,
+        error
+      );
+      if (fallbackResult) {
+        return fallbackResult;
+      }
+
       this.logger.error('Character equipment lookup failed', {
         ocid,
         date,
@@ -768,7 +992,7 @@ export class NexonApiClient {
     }
   }
 
-  async getCharacterCashItemEquipment(ocid: string, date?: string): Promise<any> {
+  async getCharacterCashItemEquipment(ocid: string, date?: string): Promise<CashItemEquipment> {
     // Validate inputs
     validateOcid(ocid);
     if (date) {
@@ -780,23 +1004,33 @@ export class NexonApiClient {
       ocid,
       date: date || 'latest',
     });
-    const cachedResult = this.cache.get<any>(cacheKey);
+    const cachedResult = this.getCached<CashItemEquipment>(cacheKey);
 
     if (cachedResult) {
       this.logger.info('Character cash item cache hit', { ocid, date });
       return cachedResult;
     }
 
+    const staleResult = this.revalidateInBackground(cacheKey, () =>
+      this.getCharacterCashItemEquipment(ocid, date)
+    );
+    if (staleResult) {
+      return staleResult;
+    }
+
     try {
       const params: Record<string, any> = { ocid };
       if (date) {
         params.date = date;
       }
 
-      const result = await this.request<any>(ENDPOINTS.CHARACTER.CASHITEM_EQUIPMENT, params);
+      const result = await this.request<CashItemEquipment>(
+        ENDPOINTS.CHARACTER.CASHITEM_EQUIPMENT,
+        params
+      );
 
-      // Cache for 30 minutes (cash items change less frequently)
-      this.cache.set(cacheKey, result, CACHE_TTL.CHARACTER_EQUIPMENT);
+      // Cache until the next data update (indefinitely for past dates)
+      this.cache.set(cacheKey, result, getDataCacheTtl(CACHE_TTL.CHARACTER_EQUIPMENT, date));
 
       this.logger.info('Character cash item lookup successful', {
         ocid,
@@ -805,6 +1039,15 @@ export class NexonApiClient {
 
       return result;
     } catch (error) {
+      const fallbackResult = this.getStaleOnError<CashItemEquipment>(
+        cacheKey,
+        ENDPOINTS.CHARACTER.CASHITEM_EQUIPMENT,
+        error
+      );
+      if (fallbackResult) {
+        return fallbackResult;
+      }
+
       this.logger.error('Character cash item lookup failed', {
         ocid,
         date,
@@ -814,7 +1057,7 @@ export class NexonApiClient {
     }
   }
 
-  async getCharacterBeautyEquipment(ocid: string, date?: string): Promise<any> {
+  async getCharacterBeautyEquipment(ocid: string, date?: string): Promise<BeautyEquipment> {
     // Validate inputs
     validateOcid(ocid);
     if (date) {
@@ -826,23 +1069,33 @@ export class NexonApiClient {
       ocid,
       date: date || 'latest',
     });
-    const cachedResult = this.cache.get<any>(cacheKey);
+    const cachedResult = this.getCached<BeautyEquipment>(cacheKey);
 
     if (cachedResult) {
       this.logger.info('Character beauty equipment cache hit', { ocid, date });
       return cachedResult;
     }
 
+    const staleResult = this.revalidateInBackground(cacheKey, () =>
+      this.getCharacterBeautyEquipment(ocid, date)
+    );
+    if (staleResult) {
+      return staleResult;
+    }
+
     try {
       const params: Record<string, any> = { ocid };
       if (date) {
         params.date = date;
       }
 
-      const result = await this.request<any>(ENDPOINTS.CHARACTER.BEAUTY_EQUIPMENT, params);
+      const result = await this.request<BeautyEquipment>(
+        ENDPOINTS.CHARACTER.BEAUTY_EQUIPMENT,
+        params
+      );
 
-      // Cache for 1 hour (beauty equipment rarely changes)
-      this.cache.set(cacheKey, result, CACHE_TTL.CHARACTER_EQUIPMENT);
+      // Cache until the next data update (indefinitely for past dates)
+      this.cache.set(cacheKey, result, getDataCacheTtl(CACHE_TTL.CHARACTER_EQUIPMENT, date));
 
       this.logger.info('Character beauty equipment lookup successful', {
         ocid,
@@ -851,6 +1104,15 @@ export class NexonApiClient {
 
       return result;
     } catch (error) {
+      const fallbackResult = this.getStaleOnError<BeautyEquipment>(
+        cacheKey,
+        ENDPOINTS.CHARACTER.BEAUTY_EQUIPMENT,
+        error
+      );
+      if (fallbackResult) {
+        return fallbackResult;
+      }
+
       this.logger.error('Character beauty equipment lookup failed', {
         ocid,
         date,
@@ -880,7 +1142,7 @@ export class NexonApiClient {
 
     // Check cache first
     const cacheKey = GuildCacheKeys.guildId(sanitizedGuildName, sanitizedWorldName);
-    const cachedResult = this.cache.get<{ oguild_id: string }>(cacheKey);
+    const cachedResult = this.getCached<{ oguild_id: string }>(cacheKey);
 
     if (cachedResult) {
       this.logger.info('Guild ID lookup cache hit', {
@@ -890,6 +1152,13 @@ export class NexonApiClient {
       return cachedResult;
     }
 
+    const staleResult = this.revalidateInBackground(cacheKey, () =>
+      this.getGuildId(guildName, worldName)
+    );
+    if (staleResult) {
+      return staleResult;
+    }
+
     try {
       const result = await this.request<{ oguild_id: string }>(ENDPOINTS.GUILD.ID, {
         guild_name: sanitizedGuildName,
@@ -910,6 +1179,15 @@ export class NexonApiClient {
 
       return result;
     } catch (error) {
+      const fallbackResult = this.getStaleOnError<{ oguild_id: string }>(
+        cacheKey,
+        ENDPOINTS.GUILD.ID,
+        error
+      );
+      if (fallbackResult) {
+        return fallbackResult;
+      }
+
       this.logger.error('Guild ID lookup failed', {
         guildName: sanitizedGuildName,
         worldName: sanitizedWorldName,
@@ -928,13 +1206,20 @@ export class NexonApiClient {
 
     // Check cache first
     const cacheKey = GuildCacheKeys.guildBasic(oguildId, date);
-    const cachedResult = this.cache.get<GuildBasic>(cacheKey);
+    const cachedResult = this.getCached<GuildBasic>(cacheKey);
 
     if (cachedResult) {
       this.logger.info('Guild basic info cache hit', { oguildId, date });
       return cachedResult;
     }
 
+    const staleResult = this.revalidateInBackground(cacheKey, () =>
+      this.getGuildBasic(oguildId, date)
+    );
+    if (staleResult) {
+      return staleResult;
+    }
+
     try {
       const params: Record<string, any> = { oguild_id: oguildId };
       if (date) {
@@ -943,8 +1228,8 @@ export class NexonApiClient {
 
       const result = await this.request<GuildBasic>(ENDPOINTS.GUILD.BASIC, params);
 
-      // Cache for 1 hour (guild info changes moderately)
-      this.cache.set(cacheKey, result, CACHE_TTL.GUILD_BASIC);
+      // Cache until the next data update (indefinitely for past dates)
+      this.cache.set(cacheKey, result, getDataCacheTtl(CACHE_TTL.GUILD_BASIC, date));
 
       this.logger.info('Guild basic info lookup successful', {
         oguildId,
@@ -956,6 +1241,15 @@ export class NexonApiClient {
 
       return result;
     } catch (error) {
+      const fallbackResult = this.getStaleOnError<GuildBasic>(
+        cacheKey,
+        ENDPOINTS.GUILD.BASIC,
+        error
+      );
+      if (fallbackResult) {
+        return fallbackResult;
+      }
+
       this.logger.error('Guild basic info lookup failed', {
         oguildId,
         date,
@@ -988,7 +1282,7 @@ export class NexonApiClient {
 
     // Check cache first
     const cacheKey = GuildCacheKeys.guildSearch(sanitizedSearchTerm, sanitizedWorldName);
-    const cachedResult = this.cache.get<any[]>(cacheKey);
+    const cachedResult = this.getCached<any[]>(cacheKey);
 
     if (cachedResult) {
       this.logger.info('Guild search cache hit', {
@@ -1152,7 +1446,8 @@ export class NexonApiClient {
     className?: string,
     ocid?: string,
     page?: number,
-    date?: string
+    date?: string,
+    options: RequestOptions = {}
   ): Promise<OverallRanking> {
     // Validate inputs
     if (worldName) {
@@ -1167,13 +1462,20 @@ export class NexonApiClient {
 
     // Check cache first
     const cacheKey = RankingCacheKeys.overall(worldName, worldType, className, page, date);
-    const cachedResult = this.cache.get<OverallRanking>(cacheKey);
+    const cachedResult = this.getCached<OverallRanking>(cacheKey);
 
     if (cachedResult) {
       this.logger.info('Overall ranking cache hit', { worldName, page, className });
       return cachedResult;
     }
 
+    const staleResult = this.revalidateInBackground(cacheKey, () =>
+      this.getOverallRanking(worldName, worldType, className, ocid, page, date)
+    );
+    if (staleResult) {
+      return staleResult;
+    }
+
     try {
       const params: Record<string, any> = {};
       if (worldName) params.world_name = worldName;
@@ -1183,10 +1485,10 @@ export class NexonApiClient {
       if (page) params.page = page;
       if (date) params.date = date;
 
-      const result = await this.request<OverallRanking>(ENDPOINTS.RANKING.OVERALL, params);
+      const result = await this.request<OverallRanking>(ENDPOINTS.RANKING.OVERALL, params, options);
 
-      // Cache for 30 minutes (rankings update periodically)
-      this.cache.set(cacheKey, result, CACHE_TTL.RANKINGS);
+      // Cache until the next data update (indefinitely for past dates)
+      this.cache.set(cacheKey, result, getDataCacheTtl(CACHE_TTL.RANKINGS, date));
 
       this.logger.info('Overall ranking retrieved successfully', {
         worldName,
@@ -1197,6 +1499,15 @@ export class NexonApiClient {
 
       return result;
     } catch (error) {
+      const fallbackResult = this.getStaleOnError<OverallRanking>(
+        cacheKey,
+        ENDPOINTS.RANKING.OVERALL,
+        error
+      );
+      if (fallbackResult) {
+        return fallbackResult;
+      }
+
       this.logger.error('Overall ranking retrieval failed', {
         worldName,
         page,
@@ -1211,14 +1522,19 @@ export class NexonApiClient {
     worldName?: string,
     ocid?: string,
     page?: number,
-    date?: string
+    date?: string,
+    options: RequestOptions = {}
   ): Promise<UnionRanking> {
-    return this.request(ENDPOINTS.RANKING.UNION, {
-      world_name: worldName,
-      ocid,
-      page,
-      date,
-    });
+    return this.request(
+      ENDPOINTS.RANKING.UNION,
+      {
+        world_name: worldName,
+        ocid,
+        page,
+        date,
+      },
+      options
+    );
   }
 
   async getGuildRanking(
@@ -1226,7 +1542,8 @@ export class NexonApiClient {
     rankingType: number,
     guildName?: string,
     page?: number,
-    date?: string
+    date?: string,
+    options: RequestOptions = {}
   ): Promise<GuildRanking> {
     // Validate inputs
     validateWorldName(worldName);
@@ -1240,13 +1557,20 @@ export class NexonApiClient {
 
     // Check cache first
     const cacheKey = RankingCacheKeys.guild(worldName, rankingType, page, date);
-    const cachedResult = this.cache.get<GuildRanking>(cacheKey);
+    const cachedResult = this.getCached<GuildRanking>(cacheKey);
 
     if (cachedResult) {
       this.logger.info('Guild ranking cache hit', { worldName, rankingType, page });
       return cachedResult;
     }
 
+    const staleResult = this.revalidateInBackground(cacheKey, () =>
+      this.getGuildRanking(worldName, rankingType, guildName, page, date)
+    );
+    if (staleResult) {
+      return staleResult;
+    }
+
     try {
       const params: Record<string, any> = {
         world_name: worldName,
@@ -1256,10 +1580,10 @@ export class NexonApiClient {
       if (page) params.page = page;
       if (date) params.date = date;
 
-      const result = await this.request<GuildRanking>(ENDPOINTS.RANKING.GUILD, params);
+      const result = await this.request<GuildRanking>(ENDPOINTS.RANKING.GUILD, params, options);
 
-      // Cache for 30 minutes
-      this.cache.set(cacheKey, result, CACHE_TTL.RANKINGS);
+      // Cache until the next data update (indefinitely for past dates)
+      this.cache.set(cacheKey, result, getDataCacheTtl(CACHE_TTL.RANKINGS, date));
 
       this.logger.info('Guild ranking retrieved successfully', {
         worldName,
@@ -1270,6 +1594,15 @@ export class NexonApiClient {
 
       return result;
     } catch (error) {
+      const fallbackResult = this.getStaleOnError<GuildRanking>(
+        cacheKey,
+        ENDPOINTS.RANKING.GUILD,
+        error
+      );
+      if (fallbackResult) {
+        return fallbackResult;
+      }
+
       this.logger.error('Guild ranking retrieval failed', {
         worldName,
         rankingType,
@@ -1326,9 +1659,24 @@ export class NexonApiClient {
     try {
       const fullInfo = await this.getCharacterFullInfo(characterName, date);
 
+      // Use the set-effect endpoint, falling back to item name matching if it fails
+      const setEffectResult = await this.getCharacterSetEffect(fullInfo.ocid, date)
+        .then((setEffect) => ({ source: 'api' as const, setEffects: parseSetEffects(setEffect) }))
+        .catch((error) => {
+          this.logger.warn('Set effect lookup failed, using equipment heuristic', {
+            characterName,
+            error,
+          });
+          return {
+            source: 'heuristic' as const,
+            setEffects: analyzeSetEffects(fullInfo.equipment?.item_equipment || []),
+          };
+        });
+
       // Analyze equipment
       const equipmentAnalysis = {
-        setEffects: analyzeSetEffects(fullInfo.equipment?.item_equipment || []),
+        setEffects: setEffectResult.setEffects,
+        setEffectSource: setEffectResult.source,
         enhancementScores: (fullInfo.equipment?.item_equipment || []).map((item) => ({
           itemName: item.item_name,
           slot: item.item_equipment_part,
@@ -1496,7 +1844,7 @@ export class NexonApiClient {
     timestamp: string;
   }> {
     const cacheKey = ServerCacheKeys.serverStatus(worldName);
-    const cachedResult = this.cache.get<any>(cacheKey);
+    const cachedResult = this.getCached<any>(cacheKey);
 
     if (cachedResult) {
       this.logger.info('Server status cache hit', { worldName });
@@ -1581,7 +1929,8 @@ export class NexonApiClient {
     characterName: string,
     worldName?: string,
     className?: string,
-    maxPages: number = 10
+    maxPages: number = 10,
+    options: RankingScanOptions = {}
   ): Promise<{
     found: boolean;
     position?: number;
@@ -1597,7 +1946,7 @@ export class NexonApiClient {
 
     // Check cache first
     const cacheKey = RankingCacheKeys.characterPosition(sanitizedName, worldName, className);
-    const cachedResult = this.cache.get<any>(cacheKey);
+    const cachedResult = this.getCached<any>(cacheKey);
 
     if (cachedResult) {
       this.logger.info('Character position cache hit', { characterName: sanitizedName });
@@ -1612,8 +1961,15 @@ export class NexonApiClient {
           undefined,
           className,
           undefined,
-          page
+          page,
+          undefined,
+          options
         );
+        options.onProgress?.({
+          progress: page,
+          total: maxPages,
+          message: `Searched overall ranking page ${page} of ${maxPages}`,
+        });
 
         if (!ranking.ranking || ranking.ranking.length === 0) {
           break; // No more data
@@ -1655,6 +2011,11 @@ export class NexonApiClient {
 
       return notFoundResult;
     } catch (error) {
+      if (error instanceof RequestCancelledError) {
+        this.logger.info('Character position search cancelled', { characterName: sanitizedName });
+        throw error;
+      }
+
       this.logger.error('Character position search failed', {
         characterName: sanitizedName,
         error,
@@ -1674,7 +2035,8 @@ export class NexonApiClient {
     guildName: string,
     worldName: string,
     rankingType: number = GuildRankingType.GUILD_POWER,
-    maxPages: number = 5
+    maxPages: number = 5,
+    options: RankingScanOptions = {}
   ): Promise<{
     found: boolean;
     position?: number;
@@ -1688,7 +2050,7 @@ export class NexonApiClient {
 
     // Check cache first
     const cacheKey = RankingCacheKeys.guildPosition(sanitizedName, worldName, rankingType);
-    const cachedResult = this.cache.get<any>(cacheKey);
+    const cachedResult = this.getCached<any>(cacheKey);
 
     if (cachedResult) {
       this.logger.info('Guild position cache hit', { guildName: sanitizedName });
@@ -1698,7 +2060,19 @@ export class NexonApiClient {
     try {
       // Search through multiple pages to find guild
       for (let page = 1; page <= maxPages; page++) {
-        const ranking = await this.getGuildRanking(worldName, rankingType, undefined, page);
+        const ranking = await this.getGuildRanking(
+          worldName,
+          rankingType,
+          undefined,
+          page,
+          undefined,
+          options
+        );
+        options.onProgress?.({
+          progress: page,
+          total: maxPages,
+          message: `Searched guild ranking page ${page} of ${maxPages}`,
+        });
 
         if (!ranking.ranking || ranking.ranking.length === 0) {
           break; // No more data
@@ -1740,6 +2114,11 @@ export class NexonApiClient {
 
       return notFoundResult;
     } catch (error) {
+      if (error instanceof RequestCancelledError) {
+        this.logger.info('Guild position search cancelled', { guildName: sanitizedName });
+        throw error;
+      }
+
       this.logger.error('Guild position search failed', {
         guildName: sanitizedName,
         error,
@@ -1758,7 +2137,8 @@ export class NexonApiClient {
   async getRankingAnalysis(
     worldName?: string,
     className?: string,
-    pages: number = 3
+    pages: number = 3,
+    options: RankingScanOptions = {}
   ): Promise<{
     overall: any;
     union?: any;
@@ -1770,12 +2150,17 @@ export class NexonApiClient {
     try {
       // Get multiple ranking types
       const [overallRanking, unionRanking, guildRanking] = await Promise.all([
-        this.getOverallRanking(worldName, undefined, className, undefined, 1),
-        this.getUnionRanking(worldName, undefined, 1).catch(() => null),
+        this.getOverallRanking(worldName, undefined, className, undefined, 1, undefined, options),
+        this.getUnionRanking(worldName, undefined, 1, undefined, options).catch(() => null),
         worldName
-          ? this.getGuildRanking(worldName, GuildRankingType.GUILD_POWER, undefined, 1).catch(
-              () => null
-            )
+          ? this.getGuildRanking(
+              worldName,
+              GuildRankingType.GUILD_POWER,
+              undefined,
+              1,
+              undefined,
+              options
+            ).catch(() => null)
           : null,
       ]);
 
@@ -1788,12 +2173,22 @@ export class NexonApiClient {
             undefined,
             className,
             undefined,
-            page
+            page,
+            undefined,
+            options
           );
           if (pageData.ranking) {
             allCharacters.push(...pageData.ranking);
           }
+          options.onProgress?.({
+            progress: page,
+            total: pages,
+            message: `Analysed overall ranking page ${page} of ${pages}`,
+          });
         } catch (error) {
+          if (error instanceof RequestCancelledError) {
+            throw error;
+          }
           break;
         }
       }
@@ -1858,11 +2253,15 @@ export class NexonApiClient {
     status: 'healthy' | 'degraded' | 'unhealthy';
     errors: { total: number; byType: Record<string, number>; byCode: Record<string, number> };
     performance: Record<string, any>;
-    cache: { size: number; hit_rate?: number };
+    cache: CacheStats & { hit_rate: number };
+    coalescing: CoalescingStats;
+    apiKeys: ApiKeyPoolStats;
+    circuitBreakers: Record<EndpointClass, CircuitBreakerStats>;
     uptime: number;
   }> {
     const errors = this.getErrorSummary();
     const performance = this.getPerformanceMetrics();
+    const cacheStats = this.cache.getStats();
 
     // Determine health status based on error rate and performance
     let status: 'healthy' | 'degraded' | 'unhealthy' = 'healthy';
@@ -1879,13 +2278,29 @@ export class NexonApiClient {
       status = status === 'healthy' ? 'degraded' : 'unhealthy';
     }
 
+    // Every key benched means requests fail until one is back in rotation
+    const apiKeys = this.getApiKeyStats();
+    if (apiKeys.available === 0) {
+      status = 'unhealthy';
+    }
+
+    // Open circuits mean some endpoint families are failing fast
+    const circuitBreakers = this.getCircuitBreakerStats();
+    if (Object.values(circuitBreakers).some((breaker) => breaker.state !== 'closed')) {
+      status = status === 'healthy' ? 'degraded' : status;
+    }
+
     const health = {
       status,
       errors,
       performance,
       cache: {
-        size: this.cache.size(),
+        ...cacheStats,
+        hit_rate: cacheStats.hitRate,
       },
+      coalescing: this.getCoalescingStats(),
+      apiKeys,
+      circuitBreakers,
       uptime: process.uptime(),
     };
 
@@ -1894,6 +2309,13 @@ export class NexonApiClient {
     return health;
   }
 
+  /**
+   * Cache backend used by this client
+   */
+  getCache(): ICache {
+    return this.cache;
+  }
+
   // Enhanced error handling utilities
   async withErrorRecovery<T>(
     operation: () => Promise<T>,
@@ -1997,13 +2419,20 @@ export class NexonApiClient {
       ocid,
       date,
     });
-    const cachedResult = this.cache.get<CharacterPopularity>(cacheKey);
+    const cachedResult = this.getCached<CharacterPopularity>(cacheKey);
 
     if (cachedResult) {
       this.logger.info('Character popularity cache hit', { ocid, date });
       return cachedResult;
     }
 
+    const staleResult = this.revalidateInBackground(cacheKey, () =>
+      this.getCharacterPopularity(ocid, date)
+    );
+    if (staleResult) {
+      return staleResult;
+    }
+
     try {
       const params: Record<string, any> = { ocid };
       if (date) {
@@ -2015,11 +2444,20 @@ export class NexonApiClient {
         params
       );
 
-      this.cache.set(cacheKey, result, CACHE_TTL.CHARACTER_BASIC);
+      this.cache.set(cacheKey, result, getDataCacheTtl(CACHE_TTL.CHARACTER_BASIC, date));
 
       this.logger.info('Character popularity retrieved successfully', { ocid, date });
       return result;
     } catch (error) {
+      const fallbackResult = this.getStaleOnError<CharacterPopularity>(
+        cacheKey,
+        ENDPOINTS.CHARACTER.POPULARITY,
+        error
+      );
+      if (fallbackResult) {
+        return fallbackResult;
+      }
+
       this.logger.error('Failed to get character popularity', { ocid, date, error });
       throw error;
     }
@@ -2038,13 +2476,20 @@ export class NexonApiClient {
       ocid,
       date,
     });
-    const cachedResult = this.cache.get<SymbolEquipment>(cacheKey);
+    const cachedResult = this.getCached<SymbolEquipment>(cacheKey);
 
     if (cachedResult) {
       this.logger.info('Character symbol equipment cache hit', { ocid, date });
       return cachedResult;
     }
 
+    const staleResult = this.revalidateInBackground(cacheKey, () =>
+      this.getCharacterSymbolEquipment(ocid, date)
+    );
+    if (staleResult) {
+      return staleResult;
+    }
+
     try {
       const params: Record<string, any> = { ocid };
       if (date) {
@@ -2056,11 +2501,20 @@ export class NexonApiClient {
         params
       );
 
-      this.cache.set(cacheKey, result, CACHE_TTL.CHARACTER_EQUIPMENT);
+      this.cache.set(cacheKey, result, getDataCacheTtl(CACHE_TTL.CHARACTER_EQUIPMENT, date));
 
       this.logger.info('Character symbol equipment retrieved successfully', { ocid, date });
       return result;
     } catch (error) {
+      const fallbackResult = this.getStaleOnError<SymbolEquipment>(
+        cacheKey,
+        ENDPOINTS.CHARACTER.SYMBOL_EQUIPMENT,
+        error
+      );
+      if (fallbackResult) {
+        return fallbackResult;
+      }
+
       this.logger.error('Failed to get character symbol equipment', { ocid, date, error });
       throw error;
     }
@@ -2079,13 +2533,20 @@ export class NexonApiClient {
       ocid,
       date,
     });
-    const cachedResult = this.cache.get<SetEffect>(cacheKey);
+    const cachedResult = this.getCached<SetEffect>(cacheKey);
 
     if (cachedResult) {
       this.logger.info('Character set effect cache hit', { ocid, date });
       return cachedResult;
     }
 
+    const staleResult = this.revalidateInBackground(cacheKey, () =>
+      this.getCharacterSetEffect(ocid, date)
+    );
+    if (staleResult) {
+      return staleResult;
+    }
+
     try {
       const params: Record<string, any> = { ocid };
       if (date) {
@@ -2094,11 +2555,20 @@ export class NexonApiClient {
 
       const result = await this.request<SetEffect>(ENDPOINTS.CHARACTER.SET_EFFECT, params);
 
-      this.cache.set(cacheKey, result, CACHE_TTL.CHARACTER_EQUIPMENT);
+      this.cache.set(cacheKey, result, getDataCacheTtl(CACHE_TTL.CHARACTER_EQUIPMENT, date));
 
       this.logger.info('Character set effect retrieved successfully', { ocid, date });
       return result;
     } catch (error) {
+      const fallbackResult = this.getStaleOnError<SetEffect>(
+        cacheKey,
+        ENDPOINTS.CHARACTER.SET_EFFECT,
+        error
+      );
+      if (fallbackResult) {
+        return fallbackResult;
+      }
+
       this.logger.error('Failed to get character set effect', { ocid, date, error });
       throw error;
     }
@@ -2117,13 +2587,20 @@ export class NexonApiClient {
       ocid,
       date,
     });
-    const cachedResult = this.cache.get<AndroidEquipment>(cacheKey);
+    const cachedResult = this.getCached<AndroidEquipment>(cacheKey);
 
     if (cachedResult) {
       this.logger.info('Character android equipment cache hit', { ocid, date });
       return cachedResult;
     }
 
+    const staleResult = this.revalidateInBackground(cacheKey, () =>
+      this.getCharacterAndroidEquipment(ocid, date)
+    );
+    if (staleResult) {
+      return staleResult;
+    }
+
     try {
       const params: Record<string, any> = { ocid };
       if (date) {
@@ -2135,11 +2612,20 @@ export class NexonApiClient {
         params
       );
 
-      this.cache.set(cacheKey, result, CACHE_TTL.CHARACTER_EQUIPMENT);
+      this.cache.set(cacheKey, result, getDataCacheTtl(CACHE_TTL.CHARACTER_EQUIPMENT, date));
 
       this.logger.info('Character android equipment retrieved successfully', { ocid, date });
       return result;
     } catch (error) {
+      const fallbackResult = this.getStaleOnError<AndroidEquipment>(
+        cacheKey,
+        ENDPOINTS.CHARACTER.ANDROID_EQUIPMENT,
+        error
+      );
+      if (fallbackResult) {
+        return fallbackResult;
+      }
+
       this.logger.error('Failed to get character android equipment', { ocid, date, error });
       throw error;
     }
@@ -2158,13 +2644,20 @@ export class NexonApiClient {
       ocid,
       date,
     });
-    const cachedResult = this.cache.get<PetEquipment>(cacheKey);
+    const cachedResult = this.getCached<PetEquipment>(cacheKey);
 
     if (cachedResult) {
       this.logger.info('Character pet equipment cache hit', { ocid, date });
       return cachedResult;
     }
 
+    const staleResult = this.revalidateInBackground(cacheKey, () =>
+      this.getCharacterPetEquipment(ocid, date)
+    );
+    if (staleResult) {
+      return staleResult;
+    }
+
     try {
       const params: Record<string, any> = { ocid };
       if (date) {
@@ -2173,47 +2666,84 @@ export class NexonApiClient {
 
       const result = await this.request<PetEquipment>(ENDPOINTS.CHARACTER.PET_EQUIPMENT, params);
 
-      this.cache.set(cacheKey, result, CACHE_TTL.CHARACTER_EQUIPMENT);
+      this.cache.set(cacheKey, result, getDataCacheTtl(CACHE_TTL.CHARACTER_EQUIPMENT, date));
 
       this.logger.info('Character pet equipment retrieved successfully', { ocid, date });
       return result;
     } catch (error) {
+      const fallbackResult = this.getStaleOnError<PetEquipment>(
+        cacheKey,
+        ENDPOINTS.CHARACTER.PET_EQUIPMENT,
+        error
+      );
+      if (fallbackResult) {
+        return fallbackResult;
+      }
+
       this.logger.error('Failed to get character pet equipment', { ocid, date, error });
       throw error;
     }
   }
 
   /**
-   * Get character skills
+   * Get character skills for a job advancement grade
+   * Grade values follow the API: 0, 1, 1.5, 2, 2.5, 3, 4, hyperpassive, hyperactive, 5, 6
    */
-  async getCharacterSkill(ocid: string, date?: string): Promise<CharacterSkill> {
+  async getCharacterSkill(
+    ocid: string,
+    date?: string,
+    skillGrade?: string
+  ): Promise<CharacterSkill> {
     validateOcid(ocid);
     if (date) {
       validateDate(date);
     }
 
-    const cacheKey = MemoryCache.generateApiCacheKey(ENDPOINTS.CHARACTER.SKILL, { ocid, date });
-    const cachedResult = this.cache.get<CharacterSkill>(cacheKey);
+    const cacheKey = MemoryCache.generateApiCacheKey(ENDPOINTS.CHARACTER.SKILL, {
+      ocid,
+      date,
+      skillGrade,
+    });
+    const cachedResult = this.getCached<CharacterSkill>(cacheKey);
 
     if (cachedResult) {
-      this.logger.info('Character skill cache hit', { ocid, date });
+      this.logger.info('Character skill cache hit', { ocid, date, skillGrade });
       return cachedResult;
     }
 
+    const staleResult = this.revalidateInBackground(cacheKey, () =>
+      this.getCharacterSkill(ocid, date, skillGrade)
+    );
+    if (staleResult) {
+      return staleResult;
+    }
+
     try {
       const params: Record<string, any> = { ocid };
       if (date) {
         params.date = date;
       }
+      if (skillGrade) {
+        params.character_skill_grade = skillGrade;
+      }
 
       const result = await this.request<CharacterSkill>(ENDPOINTS.CHARACTER.SKILL, params);
 
-      this.cache.set(cacheKey, result, CACHE_TTL.CHARACTER_STATS);
+      this.cache.set(cacheKey, result, getDataCacheTtl(CACHE_TTL.CHARACTER_STATS, date));
 
-      this.logger.info('Character skill retrieved successfully', { ocid, date });
+      this.logger.info('Character skill retrieved successfully', { ocid, date, skillGrade });
       return result;
     } catch (error) {
-      this.logger.error('Failed to get character skill', { ocid, date, error });
+      const fallbackResult = this.getStaleOnError<CharacterSkill>(
+        cacheKey,
+        ENDPOINTS.CHARACTER.SKILL,
+        error
+      );
+      if (fallbackResult) {
+        return fallbackResult;
+      }
+
+      this.logger.error('Failed to get character skill', { ocid, date, skillGrade, error });
       throw error;
     }
   }
@@ -2231,13 +2761,20 @@ export class NexonApiClient {
       ocid,
       date,
     });
-    const cachedResult = this.cache.get<LinkSkill>(cacheKey);
+    const cachedResult = this.getCached<LinkSkill>(cacheKey);
 
     if (cachedResult) {
       this.logger.info('Character link skill cache hit', { ocid, date });
       return cachedResult;
     }
 
+    const staleResult = this.revalidateInBackground(cacheKey, () =>
+      this.getCharacterLinkSkill(ocid, date)
+    );
+    if (staleResult) {
+      return staleResult;
+    }
+
     try {
       const params: Record<string, any> = { ocid };
       if (date) {
@@ -2246,11 +2783,20 @@ export class NexonApiClient {
 
       const result = await this.request<LinkSkill>(ENDPOINTS.CHARACTER.LINK_SKILL, params);
 
-      this.cache.set(cacheKey, result, CACHE_TTL.CHARACTER_STATS);
+      this.cache.set(cacheKey, result, getDataCacheTtl(CACHE_TTL.CHARACTER_STATS, date));
 
       this.logger.info('Character link skill retrieved successfully', { ocid, date });
       return result;
     } catch (error) {
+      const fallbackResult = this.getStaleOnError<LinkSkill>(
+        cacheKey,
+        ENDPOINTS.CHARACTER.LINK_SKILL,
+        error
+      );
+      if (fallbackResult) {
+        return fallbackResult;
+      }
+
       this.logger.error('Failed to get character link skill', { ocid, date, error });
       throw error;
     }
@@ -2266,13 +2812,20 @@ export class NexonApiClient {
     }
 
     const cacheKey = MemoryCache.generateApiCacheKey(ENDPOINTS.CHARACTER.VMATRIX, { ocid, date });
-    const cachedResult = this.cache.get<VMatrix>(cacheKey);
+    const cachedResult = this.getCached<VMatrix>(cacheKey);
 
     if (cachedResult) {
       this.logger.info('Character V-Matrix cache hit', { ocid, date });
       return cachedResult;
     }
 
+    const staleResult = this.revalidateInBackground(cacheKey, () =>
+      this.getCharacterVMatrix(ocid, date)
+    );
+    if (staleResult) {
+      return staleResult;
+    }
+
     try {
       const params: Record<string, any> = { ocid };
       if (date) {
@@ -2281,11 +2834,20 @@ export class NexonApiClient {
 
       const result = await this.request<VMatrix>(ENDPOINTS.CHARACTER.VMATRIX, params);
 
-      this.cache.set(cacheKey, result, CACHE_TTL.CHARACTER_STATS);
+      this.cache.set(cacheKey, result, getDataCacheTtl(CACHE_TTL.CHARACTER_STATS, date));
 
       this.logger.info('Character V-Matrix retrieved successfully', { ocid, date });
       return result;
     } catch (error) {
+      const fallbackResult = this.getStaleOnError<VMatrix>(
+        cacheKey,
+        ENDPOINTS.CHARACTER.VMATRIX,
+        error
+      );
+      if (fallbackResult) {
+        return fallbackResult;
+      }
+
       this.logger.error('Failed to get character V-Matrix', { ocid, date, error });
       throw error;
     }
@@ -2304,13 +2866,20 @@ export class NexonApiClient {
       ocid,
       date,
     });
-    const cachedResult = this.cache.get<HexaMatrix>(cacheKey);
+    const cachedResult = this.getCached<HexaMatrix>(cacheKey);
 
     if (cachedResult) {
       this.logger.info('Character Hexa Matrix cache hit', { ocid, date });
       return cachedResult;
     }
 
+    const staleResult = this.revalidateInBackground(cacheKey, () =>
+      this.getCharacterHexaMatrix(ocid, date)
+    );
+    if (staleResult) {
+      return staleResult;
+    }
+
     try {
       const params: Record<string, any> = { ocid };
       if (date) {
@@ -2319,11 +2888,20 @@ export class NexonApiClient {
 
       const result = await this.request<HexaMatrix>(ENDPOINTS.CHARACTER.HEXAMATRIX, params);
 
-      this.cache.set(cacheKey, result, CACHE_TTL.CHARACTER_STATS);
+      this.cache.set(cacheKey, result, getDataCacheTtl(CACHE_TTL.CHARACTER_STATS, date));
 
       this.logger.info('Character Hexa Matrix retrieved successfully', { ocid, date });
       return result;
     } catch (error) {
+      const fallbackResult = this.getStaleOnError<HexaMatrix>(
+        cacheKey,
+        ENDPOINTS.CHARACTER.HEXAMATRIX,
+        error
+      );
+      if (fallbackResult) {
+        return fallbackResult;
+      }
+
       this.logger.error('Failed to get character Hexa Matrix', { ocid, date, error });
       throw error;
     }
@@ -2342,13 +2920,20 @@ export class NexonApiClient {
       ocid,
       date,
     });
-    const cachedResult = this.cache.get<HexaMatrixStat>(cacheKey);
+    const cachedResult = this.getCached<HexaMatrixStat>(cacheKey);
 
     if (cachedResult) {
       this.logger.info('Character Hexa Matrix stat cache hit', { ocid, date });
       return cachedResult;
     }
 
+    const staleResult = this.revalidateInBackground(cacheKey, () =>
+      this.getCharacterHexaMatrixStat(ocid, date)
+    );
+    if (staleResult) {
+      return staleResult;
+    }
+
     try {
       const params: Record<string, any> = { ocid };
       if (date) {
@@ -2360,11 +2945,20 @@ export class NexonApiClient {
         params
       );
 
-      this.cache.set(cacheKey, result, CACHE_TTL.CHARACTER_STATS);
+      this.cache.set(cacheKey, result, getDataCacheTtl(CACHE_TTL.CHARACTER_STATS, date));
 
       this.logger.info('Character Hexa Matrix stat retrieved successfully', { ocid, date });
       return result;
     } catch (error) {
+      const fallbackResult = this.getStaleOnError<HexaMatrixStat>(
+        cacheKey,
+        ENDPOINTS.CHARACTER.HEXAMATRIX_STAT,
+        error
+      );
+      if (fallbackResult) {
+        return fallbackResult;
+      }
+
       this.logger.error('Failed to get character Hexa Matrix stat', { ocid, date, error });
       throw error;
     }
@@ -2380,13 +2974,20 @@ export class NexonApiClient {
     }
 
     const cacheKey = MemoryCache.generateApiCacheKey(ENDPOINTS.CHARACTER.DOJANG, { ocid, date });
-    const cachedResult = this.cache.get<DojangRecord>(cacheKey);
+    const cachedResult = this.getCached<DojangRecord>(cacheKey);
 
     if (cachedResult) {
       this.logger.info('Character Dojang record cache hit', { ocid, date });
       return cachedResult;
     }
 
+    const staleResult = this.revalidateInBackground(cacheKey, () =>
+      this.getCharacterDojang(ocid, date)
+    );
+    if (staleResult) {
+      return staleResult;
+    }
+
     try {
       const params: Record<string, any> = { ocid };
       if (date) {
@@ -2395,11 +2996,20 @@ export class NexonApiClient {
 
       const result = await this.request<DojangRecord>(ENDPOINTS.CHARACTER.DOJANG, params);
 
-      this.cache.set(cacheKey, result, CACHE_TTL.CHARACTER_STATS);
+      this.cache.set(cacheKey, result, getDataCacheTtl(CACHE_TTL.CHARACTER_STATS, date));
 
       this.logger.info('Character Dojang record retrieved successfully', { ocid, date });
       return result;
     } catch (error) {
+      const fallbackResult = this.getStaleOnError<DojangRecord>(
+        cacheKey,
+        ENDPOINTS.CHARACTER.DOJANG,
+        error
+      );
+      if (fallbackResult) {
+        return fallbackResult;
+      }
+
       this.logger.error('Failed to get character Dojang record', { ocid, date, error });
       throw error;
     }
@@ -2415,13 +3025,20 @@ export class NexonApiClient {
     }
 
     const cacheKey = MemoryCache.generateApiCacheKey(ENDPOINTS.UNION.ARTIFACT, { ocid, date });
-    const cachedResult = this.cache.get<UnionArtifact>(cacheKey);
+    const cachedResult = this.getCached<UnionArtifact>(cacheKey);
 
     if (cachedResult) {
       this.logger.info('Union artifact cache hit', { ocid, date });
       return cachedResult;
     }
 
+    const staleResult = this.revalidateInBackground(cacheKey, () =>
+      this.getUnionArtifact(ocid, date)
+    );
+    if (staleResult) {
+      return staleResult;
+    }
+
     try {
       const params: Record<string, any> = { ocid };
       if (date) {
@@ -2430,11 +3047,20 @@ export class NexonApiClient {
 
       const result = await this.request<UnionArtifact>(ENDPOINTS.UNION.ARTIFACT, params);
 
-      this.cache.set(cacheKey, result, CACHE_TTL.UNION_ARTIFACT);
+      this.cache.set(cacheKey, result, getDataCacheTtl(CACHE_TTL.UNION_ARTIFACT, date));
 
       this.logger.info('Union artifact retrieved successfully', { ocid, date });
       return result;
     } catch (error) {
+      const fallbackResult = this.getStaleOnError<UnionArtifact>(
+        cacheKey,
+        ENDPOINTS.UNION.ARTIFACT,
+        error
+      );
+      if (fallbackResult) {
+        return fallbackResult;
+      }
+
       this.logger.error('Failed to get union artifact', { ocid, date, error });
       throw error;
     }
@@ -2447,7 +3073,9 @@ export class NexonApiClient {
     worldName?: string,
     characterName?: string,
     page: number = 1,
-    date?: string
+    date?: string,
+    className?: string,
+    difficulty: DojangDifficulty = DojangDifficulty.NORMAL
   ): Promise<DojangRanking> {
     if (worldName) {
       validateWorldName(worldName);
@@ -2468,26 +3096,57 @@ export class NexonApiClient {
       ocid = ocidResult.ocid;
     }
 
+    const cacheKey = RankingCacheKeys.dojang(worldName, className, difficulty, ocid, page, date);
+    const cachedResult = this.getCached<DojangRanking>(cacheKey);
+
+    if (cachedResult) {
+      this.logger.info('Dojang ranking cache hit', { worldName, className, difficulty, page });
+      return cachedResult;
+    }
+
+    const staleResult = this.revalidateInBackground(cacheKey, () =>
+      this.getDojangRanking(worldName, characterName, page, date, className, difficulty)
+    );
+    if (staleResult) {
+      return staleResult;
+    }
+
     try {
-      const params: Record<string, any> = {};
+      const params: Record<string, any> = { difficulty };
       if (worldName) params.world_name = worldName;
+      if (className) params.class = className;
       if (ocid) params.ocid = ocid;
       if (page) params.page = page;
       if (date) params.date = date;
 
       const result = await this.request<DojangRanking>(ENDPOINTS.RANKING.DOJANG, params);
 
+      this.cache.set(cacheKey, result, getDataCacheTtl(CACHE_TTL.RANKINGS, date));
+
       this.logger.info('Dojang ranking retrieved successfully', {
         worldName: worldName || undefined,
+        className: className || undefined,
         characterName: characterName || undefined,
+        difficulty,
         page,
       } as any);
 
       return result;
     } catch (error) {
+      const fallbackResult = this.getStaleOnError<DojangRanking>(
+        cacheKey,
+        ENDPOINTS.RANKING.DOJANG,
+        error
+      );
+      if (fallbackResult) {
+        return fallbackResult;
+      }
+
       this.logger.error('Failed to get Dojang ranking', {
         worldName: worldName || undefined,
+        className: className || undefined,
         characterName: characterName || undefined,
+        difficulty,
         page,
         error: error instanceof Error ? error.message : String(error),
       } as any);
@@ -2495,6 +3154,156 @@ export class NexonApiClient {
     }
   }
 
+  /**
+   * Estimate how many characters are on a Dojang leaderboard by probing pages
+   * (exponential search for the first empty page, then binary search for the last filled one).
+   * At most PAGINATION.MAX_SIZE_PROBES pages are probed; when the budget runs out the result is
+   * a lower bound and marked as capped. A class leaderboard is a subset of its world's, so class
+   * estimates reuse the cached world estimate as the upper bound of their search. fetchedPages
+   * counts the pages that were not already cached, including those of the world estimate.
+   */
+  async estimateDojangRankingSize(
+    worldName?: string,
+    className?: string,
+    difficulty: DojangDifficulty = DojangDifficulty.NORMAL,
+    date?: string,
+    maxPages: number = 200
+  ): Promise<{
+    totalEntries: number;
+    pageSize: number;
+    lastPage: number;
+    searchedPages: number;
+    fetchedPages: number;
+    capped: boolean;
+  }> {
+    const cacheKey = RankingCacheKeys.dojangSize(worldName, className, difficulty, date);
+    const cachedResult = this.getCached<any>(cacheKey);
+
+    if (cachedResult) {
+      this.logger.info('Dojang ranking size cache hit', { worldName, className, difficulty });
+      return { ...cachedResult, fetchedPages: 0 };
+    }
+
+    // The world estimate is cached per date, so every class filter shares it
+    let knownEmptyPage: number | undefined;
+    let worldPageSize: number | undefined;
+    let fetchedPages = 0;
+    if (className) {
+      const worldSize = await this.estimateDojangRankingSize(
+        worldName,
+        undefined,
+        difficulty,
+        date,
+        maxPages
+      );
+      worldPageSize = worldSize.pageSize;
+      fetchedPages += worldSize.fetchedPages;
+      if (!worldSize.capped) {
+        knownEmptyPage = worldSize.lastPage + 1;
+      }
+    }
+
+    let searchedPages = 0;
+    const canProbe = (): boolean => searchedPages < PAGINATION.MAX_SIZE_PROBES;
+    const fetchPageLength = async (page: number): Promise<number> => {
+      searchedPages++;
+      const pageCacheKey = RankingCacheKeys.dojang(
+        worldName,
+        className,
+        difficulty,
+        undefined,
+        page,
+        date
+      );
+      if (!this.getCached(pageCacheKey)) {
+        fetchedPages++;
+      }
+      const ranking = await this.getDojangRanking(
+        worldName,
+        undefined,
+        page,
+        date,
+        className,
+        difficulty
+      );
+      return ranking.ranking?.length || 0;
+    };
+
+    const pageSize = await fetchPageLength(1);
+    let lastFilled = 1;
+    let lastFilledLength = pageSize;
+    let firstEmpty = knownEmptyPage;
+
+    if (pageSize === 0) {
+      firstEmpty = 1;
+      lastFilled = 0;
+    } else if (worldPageSize !== undefined && pageSize < worldPageSize) {
+      // A partial first page is the whole class leaderboard
+      firstEmpty = 2;
+    }
+
+    // Exponential search for an empty (or partial) page
+    let page = 2;
+    while (
+      firstEmpty === undefined &&
+      lastFilledLength === pageSize &&
+      lastFilled < maxPages &&
+      canProbe()
+    ) {
+      const probe = Math.min(page, maxPages);
+      const length = await fetchPageLength(probe);
+      if (length === 0) {
+        firstEmpty = probe;
+      } else {
+        lastFilled = probe;
+        lastFilledLength = length;
+      }
+      page *= 2;
+    }
+
+    // Binary search for the last filled page between the bounds
+    let boundsNarrowed = true;
+    if (firstEmpty !== undefined) {
+      let low = lastFilled;
+      let high = firstEmpty;
+      while (high - low > 1 && canProbe()) {
+        const mid = Math.floor((low + high) / 2);
+        const length = await fetchPageLength(mid);
+        if (length === 0) {
+          high = mid;
+        } else {
+          low = mid;
+          lastFilledLength = length;
+        }
+      }
+      lastFilled = low;
+      boundsNarrowed = high - low <= 1;
+    }
+
+    const result = {
+      totalEntries: lastFilled > 0 ? (lastFilled - 1) * pageSize + lastFilledLength : 0,
+      pageSize,
+      lastPage: lastFilled,
+      searchedPages,
+      fetchedPages,
+      capped:
+        !boundsNarrowed ||
+        (firstEmpty === undefined && lastFilledLength === pageSize && pageSize > 0),
+    };
+
+    this.cache.set(cacheKey, result, getDataCacheTtl(CACHE_TTL.RANKINGS, date));
+
+    this.logger.info('Dojang ranking size estimated', {
+      worldName: worldName || undefined,
+      className: className || undefined,
+      difficulty,
+      totalEntries: result.totalEntries,
+      searchedPages,
+    } as any);
+
+    return result;
+  }
+
   /**
    * Get The Seed rankings
    */
@@ -2523,6 +3332,21 @@ export class NexonApiClient {
       ocid = ocidResult.ocid;
     }
 
+    const cacheKey = RankingCacheKeys.theSeed(worldName, ocid, page, date);
+    const cachedResult = this.getCached<TheSeedRanking>(cacheKey);
+
+    if (cachedResult) {
+      this.logger.info('The Seed ranking cache hit', { worldName, page });
+      return cachedResult;
+    }
+
+    const staleResult = this.revalidateInBackground(cacheKey, () =>
+      this.getTheSeedRanking(worldName, characterName, page, date)
+    );
+    if (staleResult) {
+      return staleResult;
+    }
+
     try {
       const params: Record<string, any> = {};
       if (worldName) params.world_name = worldName;
@@ -2532,6 +3356,8 @@ export class NexonApiClient {
 
       const result = await this.request<TheSeedRanking>(ENDPOINTS.RANKING.THESEED, params);
 
+      this.cache.set(cacheKey, result, getDataCacheTtl(CACHE_TTL.RANKINGS, date));
+
       this.logger.info('The Seed ranking retrieved successfully', {
         worldName: worldName || undefined,
         characterName: characterName || undefined,
@@ -2540,6 +3366,15 @@ export class NexonApiClient {
 
       return result;
     } catch (error) {
+      const fallbackResult = this.getStaleOnError<TheSeedRanking>(
+        cacheKey,
+        ENDPOINTS.RANKING.THESEED,
+        error
+      );
+      if (fallbackResult) {
+        return fallbackResult;
+      }
+
       this.logger.error('Failed to get The Seed ranking', {
         worldName: worldName || undefined,
         characterName: characterName || undefined,
@@ -2580,6 +3415,21 @@ export class NexonApiClient {
       ocid = ocidResult.ocid;
     }
 
+    const cacheKey = RankingCacheKeys.achievement(worldName, ocid, page, date);
+    const cachedResult = this.getCached<AchievementRanking>(cacheKey);
+
+    if (cachedResult) {
+      this.logger.info('Achievement ranking cache hit', { worldName, page });
+      return cachedResult;
+    }
+
+    const staleResult = this.revalidateInBackground(cacheKey, () =>
+      this.getAchievementRanking(worldName, characterName, page, date)
+    );
+    if (staleResult) {
+      return staleResult;
+    }
+
     try {
       const params: Record<string, any> = {};
       if (worldName) params.world_name = worldName;
@@ -2589,6 +3439,8 @@ export class NexonApiClient {
 
       const result = await this.request<AchievementRanking>(ENDPOINTS.RANKING.ACHIEVEMENT, params);
 
+      this.cache.set(cacheKey, result, getDataCacheTtl(CACHE_TTL.RANKINGS, date));
+
       this.logger.info('Achievement ranking retrieved successfully', {
         worldName: worldName || undefined,
         characterName: characterName || undefined,
@@ -2597,6 +3449,15 @@ export class NexonApiClient {
 
       return result;
     } catch (error) {
+      const fallbackResult = this.getStaleOnError<AchievementRanking>(
+        cacheKey,
+        ENDPOINTS.RANKING.ACHIEVEMENT,
+        error
+      );
+      if (fallbackResult) {
+        return fallbackResult;
+      }
+
       this.logger.error('Failed to get Achievement ranking', {
         worldName: worldName || undefined,
         characterName: characterName || undefined,
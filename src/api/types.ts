@@ -8,8 +8,8 @@ export interface BaseApiResponse {
   count?: number;
 }
 
-// Import MemoryCache type
-import type { MemoryCache } from '../utils/cache';
+// Import cache interface type
+import type { ICache } from '../utils/cache';
 
 export interface ApiError {
   error: {
@@ -53,24 +53,19 @@ export interface CharacterHyperStat {
   character_class: string;
   use_preset_no: string;
   use_available_hyper_stat: number;
-  hyper_stat_preset_1: Array<{
-    stat_type: string;
-    stat_point: number;
-    stat_level: number;
-    stat_increase: string;
-  }>;
-  hyper_stat_preset_2: Array<{
-    stat_type: string;
-    stat_point: number;
-    stat_level: number;
-    stat_increase: string;
-  }>;
-  hyper_stat_preset_3: Array<{
-    stat_type: string;
-    stat_point: number;
-    stat_level: number;
-    stat_increase: string;
-  }>;
+  hyper_stat_preset_1: HyperStatEntry[];
+  hyper_stat_preset_1_remain_point: number;
+  hyper_stat_preset_2: HyperStatEntry[];
+  hyper_stat_preset_2_remain_point: number;
+  hyper_stat_preset_3: HyperStatEntry[];
+  hyper_stat_preset_3_remain_point: number;
+}
+
+export interface HyperStatEntry {
+  stat_type: string;
+  stat_point: number | null;
+  stat_level: number;
+  stat_increase: string | null;
 }
 
 export interface CharacterPropensity {
@@ -93,6 +88,18 @@ export interface CharacterAbility {
   }>;
   remain_fame: number;
   preset_no: number;
+  ability_preset_1: AbilityPreset | null;
+  ability_preset_2: AbilityPreset | null;
+  ability_preset_3: AbilityPreset | null;
+}
+
+export interface AbilityPreset {
+  ability_preset_grade: string;
+  ability_info: Array<{
+    ability_no: string;
+    ability_grade: string;
+    ability_value: string;
+  }>;
 }
 
 // Equipment related types
@@ -439,11 +446,43 @@ export interface GuildRanking extends BaseApiResponse {
 // Utility types for API client
 export interface ApiClientConfig {
   apiKey: string;
+  /** Further keys to spread requests across along with apiKey */
+  apiKeys?: string[];
   baseURL?: string;
   timeout?: number;
   retryAttempts?: number;
   retryDelay?: number;
-  cache?: MemoryCache;
+  cache?: ICache;
+  /** Daily request allowance of each API key */
+  dailyQuota?: number;
+}
+
+export interface RequestOptions {
+  /** Aborts the request (and any remaining retries) when the caller cancels */
+  signal?: AbortSignal;
+}
+
+export interface CoalescingStats {
+  /** Distinct requests currently in flight */
+  inFlight: number;
+  /** Calls that reached the API */
+  requests: number;
+  /** Calls that shared an identical in-flight request instead */
+  coalesced: number;
+  coalescedRate: number;
+  /** Coalesced calls per endpoint */
+  byEndpoint: Record<string, number>;
+}
+
+export interface ScanProgress {
+  progress: number;
+  total: number;
+  message?: string;
+}
+
+export interface RankingScanOptions extends RequestOptions {
+  /** Called after each ranking page is fetched */
+  onProgress?: (progress: ScanProgress) => void;
 }
 
 export interface PaginationParams {
@@ -490,7 +529,10 @@ export interface SetEffect {
       set_count: number;
       set_option: string;
     }>;
-    set_option: string;
+    set_option_full: Array<{
+      set_count: number;
+      set_option: string;
+    }>;
   }>;
 }
 
@@ -635,6 +677,64 @@ export interface PetEquipment {
   pet_3_appearance_icon: string;
 }
 
+export interface CashItem {
+  cash_item_equipment_part: string;
+  cash_item_equipment_slot: string;
+  cash_item_name: string;
+  cash_item_icon: string;
+  cash_item_description: string;
+  cash_item_option: Array<{
+    option_type: string;
+    option_value: string;
+  }>;
+  date_expire: string | null;
+  date_option_expire: string | null;
+  cash_item_label: string | null;
+  cash_item_coloring_prism: {
+    color_range: string;
+    hue: number;
+    saturation: number;
+    value: number;
+  } | null;
+  item_gender: string | null;
+}
+
+export interface CashItemEquipment {
+  date: string;
+  character_gender: string;
+  character_class: string;
+  character_look_mode: string;
+  preset_no: number;
+  cash_item_equipment_base: CashItem[];
+  cash_item_equipment_preset_1: CashItem[];
+  cash_item_equipment_preset_2: CashItem[];
+  cash_item_equipment_preset_3: CashItem[];
+  additional_cash_item_equipment_base: CashItem[];
+  additional_cash_item_equipment_preset_1: CashItem[];
+  additional_cash_item_equipment_preset_2: CashItem[];
+  additional_cash_item_equipment_preset_3: CashItem[];
+}
+
+export interface BeautyStyle {
+  hair_name?: string;
+  face_name?: string;
+  base_color: string | null;
+  mix_color: string | null;
+  mix_rate: string | null;
+}
+
+export interface BeautyEquipment {
+  date: string;
+  character_gender: string;
+  character_class: string;
+  character_hair: BeautyStyle;
+  character_face: BeautyStyle;
+  character_skin_name: string;
+  additional_character_hair: BeautyStyle | null;
+  additional_character_face: BeautyStyle | null;
+  additional_character_skin_name: string | null;
+}
+
 export interface CharacterSkill {
   date: string;
   character_class: string;
@@ -6,14 +6,25 @@
  */
 
 import { Command } from 'commander';
-import { McpServer } from './server/mcp-server';
-import { createAllTools } from './tools';
+import { McpServer, McpTransportType } from './server/mcp-server';
+import { createAllTools, ToolCategory } from './tools';
 import { McpLogger } from './utils/logger';
+import { CacheBackend, CacheConfig, DEFAULT_CACHE_FILE } from './utils/cache';
+import { RATE_LIMIT } from './api/constants';
 
 const packageJson = require('../package.json');
 
 interface CliOptions {
   port?: number;
+  transport?: McpTransportType;
+  host?: string;
+  corsOrigin?: string;
+  allowedHosts?: string;
+  allowedOrigins?: string;
+  categories?: string;
+  cache?: CacheBackend;
+  cacheFile?: string;
+  dailyQuota?: number;
   debug?: boolean;
   apiKey?: string;
   name?: string;
@@ -42,7 +53,39 @@ class CliApp {
         '--api-key <key>',
         'NEXON API key (can also be set via NEXON_API_KEY environment variable)'
       )
-      .option('--port <number>', 'Port number for the server (MCP uses stdio by default)', parseInt)
+      .option(
+        '--port <number>',
+        'Port number for the HTTP transport (implies --transport http)',
+        parseInt
+      )
+      .option('--transport <type>', 'Transport to serve MCP over: stdio or http (default: stdio)')
+      .option('--host <host>', 'Host to bind the HTTP transport to (default: 127.0.0.1)')
+      .option(
+        '--cors-origin <origin>',
+        'Allowed CORS origin for the HTTP transport (default: none, no CORS headers)'
+      )
+      .option(
+        '--allowed-hosts <list>',
+        'Comma-separated Host headers the HTTP transport accepts (default: localhost names when bound to localhost)'
+      )
+      .option(
+        '--allowed-origins <list>',
+        'Comma-separated Origin headers the HTTP transport accepts (default: not checked)'
+      )
+      .option(
+        '--categories <list>',
+        `Comma-separated tool categories to expose (${Object.values(ToolCategory).join(', ')}; default: all)`
+      )
+      .option('--cache <backend>', 'Cache backend: memory or file (default: memory)')
+      .option(
+        '--cache-file <path>',
+        `Cache file for the file backend (implies --cache file; default: ${DEFAULT_CACHE_FILE})`
+      )
+      .option(
+        '--daily-quota <number>',
+        `Daily request allowance of each API key (default: ${RATE_LIMIT.DAILY_QUOTA})`,
+        parseInt
+      )
       .option('--debug', 'Enable debug mode with verbose logging')
       .option('--name <name>', 'Custom server name (default: mcp-maple)')
       .option('--version-override <version>', 'Custom server version (default: 1.0.0)')
@@ -53,12 +96,21 @@ class CliApp {
 Examples:
   $ npx mcp-maple --api-key YOUR_API_KEY
   $ NEXON_API_KEY=YOUR_KEY npx mcp-maple --debug
+  $ NEXON_API_KEYS=KEY_1,KEY_2,KEY_3 npx mcp-maple
+  $ npx mcp-maple --api-key YOUR_API_KEY --port 3000
+  $ npx mcp-maple --transport http --host 0.0.0.0 --port 3000 --allowed-hosts maple.example.com:3000
+  $ npx mcp-maple --api-key YOUR_API_KEY --categories ranking,system
+  $ npx mcp-maple --api-key YOUR_API_KEY --cache file
   $ npx mcp-maple --help
 
 Environment Variables:
-  NEXON_API_KEY    Your NEXON Open API key (required)
-  LOG_LEVEL        Logging level (debug, info, warn, error)
-  NODE_ENV         Environment (development, production)
+  NEXON_API_KEY      Your NEXON Open API key (this or NEXON_API_KEYS is required)
+  NEXON_API_KEYS     Comma-separated NEXON Open API keys to rotate requests across
+  MCP_PORT           Port for the HTTP transport (same as --port)
+  MCP_CACHE_FILE     Cache file for the file backend (same as --cache-file)
+  NEXON_DAILY_QUOTA  Daily request allowance of each API key (same as --daily-quota)
+  LOG_LEVEL          Logging level (debug, info, warn, error)
+  NODE_ENV           Environment (development, production)
 
 For more information, visit: https://github.com/ljy9303/mcp-maple
         `
@@ -69,6 +121,15 @@ For more information, visit: https://github.com/ljy9303/mcp-maple
 
     return {
       port: options.port,
+      transport: options.transport,
+      host: options.host,
+      corsOrigin: options.corsOrigin,
+      allowedHosts: options.allowedHosts,
+      allowedOrigins: options.allowedOrigins,
+      categories: options.categories,
+      cache: options.cache,
+      cacheFile: options.cacheFile,
+      dailyQuota: options.dailyQuota,
       debug: options.debug || false,
       apiKey: options.apiKey,
       name: options.name,
@@ -81,44 +142,160 @@ For more information, visit: https://github.com/ljy9303/mcp-maple
    */
   private resolveConfig(options: CliOptions): {
     nexonApiKey: string;
+    nexonApiKeys?: string[];
     name: string;
     version: string;
     debug: boolean;
+    transport: McpTransportType;
     port?: number;
+    host?: string;
+    corsOrigin?: string;
+    allowedHosts?: string[];
+    allowedOrigins?: string[];
+    categories?: ToolCategory[];
+    cache?: CacheConfig;
+    dailyQuota?: number;
   } {
-    // Resolve API key from CLI arg or environment
-    const apiKey = options.apiKey || process.env.NEXON_API_KEY;
-
-    if (!apiKey || apiKey.trim() === '') {
+    // Resolve API keys from CLI arg or NEXON_API_KEY, plus the NEXON_API_KEYS pool
+    const apiKeys = [
+      options.apiKey || process.env.NEXON_API_KEY,
+      ...(process.env.NEXON_API_KEYS?.split(',') ?? []),
+    ]
+      .map((key) => key?.trim())
+      .filter((key, index, keys): key is string => !!key && keys.indexOf(key) === index);
+    const apiKey = apiKeys[0];
+
+    if (!apiKey) {
       this.logger.error('NEXON API key is required');
       process.stderr.write('\n❌ Error: NEXON API key is required\n');
       process.stderr.write('\nProvide it via:\n');
       process.stderr.write('  • CLI argument: --api-key YOUR_API_KEY\n');
       process.stderr.write('  • Environment variable: NEXON_API_KEY=YOUR_KEY\n');
+      process.stderr.write('  • Environment variable: NEXON_API_KEYS=KEY_1,KEY_2\n');
       process.stderr.write('\nFor help: npx mcp-maple --help\n');
       process.exit(1);
     }
 
+    // Resolve transport; a port (from CLI or MCP_PORT) selects HTTP unless stdio is requested
+    const port =
+      options.port ?? (process.env.MCP_PORT ? parseInt(process.env.MCP_PORT, 10) : undefined);
+    const transport = options.transport || (port !== undefined ? 'http' : 'stdio');
+
+    if (transport !== 'stdio' && transport !== 'http') {
+      this.logger.error('Invalid transport', { transport });
+      process.stderr.write(`\n❌ Error: Unknown transport "${transport}" (use stdio or http)\n`);
+      process.exit(1);
+    }
+
+    if (port !== undefined && (isNaN(port) || port < 0 || port > 65535)) {
+      this.logger.error('Invalid port', { port });
+      process.stderr.write('\n❌ Error: Port must be a number between 0 and 65535\n');
+      process.exit(1);
+    }
+
+    // Resolve the Host and Origin headers the HTTP transport accepts
+    const [allowedHosts, allowedOrigins] = [options.allowedHosts, options.allowedOrigins].map(
+      (list) =>
+        list
+          ?.split(',')
+          .map((entry) => entry.trim())
+          .filter((entry) => entry !== '')
+    );
+
+    // Resolve tool categories to expose
+    const validCategories = Object.values(ToolCategory) as string[];
+    const categories = options.categories
+      ?.split(',')
+      .map((category) => category.trim().toLowerCase())
+      .filter((category) => category !== '');
+    const unknownCategories = categories?.filter((category) => !validCategories.includes(category));
+
+    if (unknownCategories && unknownCategories.length > 0) {
+      this.logger.error('Invalid tool categories', { categories: unknownCategories });
+      process.stderr.write(
+        `\n❌ Error: Unknown tool categories "${unknownCategories.join(', ')}" ` +
+          `(use ${validCategories.join(', ')})\n`
+      );
+      process.exit(1);
+    }
+
+    // Resolve cache backend; a cache file (from CLI or MCP_CACHE_FILE) selects the file backend
+    const cacheFile = options.cacheFile || process.env.MCP_CACHE_FILE;
+    const cacheBackend = options.cache || (cacheFile ? 'file' : 'memory');
+
+    if (cacheBackend !== 'memory' && cacheBackend !== 'file') {
+      this.logger.error('Invalid cache backend', { cache: cacheBackend });
+      process.stderr.write(
+        `\n❌ Error: Unknown cache backend "${cacheBackend}" (use memory or file)\n`
+      );
+      process.exit(1);
+    }
+
+    // Resolve each API key's daily quota (from CLI or NEXON_DAILY_QUOTA)
+    const dailyQuota =
+      options.dailyQuota ??
+      (process.env.NEXON_DAILY_QUOTA ? parseInt(process.env.NEXON_DAILY_QUOTA, 10) : undefined);
+
+    if (dailyQuota !== undefined && (isNaN(dailyQuota) || dailyQuota <= 0)) {
+      this.logger.error('Invalid daily quota', { dailyQuota });
+      process.stderr.write('\n❌ Error: Daily quota must be a positive number\n');
+      process.exit(1);
+    }
+
     // Set debug mode
     if (options.debug) {
       process.env.LOG_LEVEL = 'debug';
     }
 
     const config = {
-      nexonApiKey: apiKey.trim(),
+      nexonApiKey: apiKey,
       name: options.name || 'mcp-maple',
       version: options.version || '1.0.2',
       debug: options.debug || false,
+      transport,
     } as {
       nexonApiKey: string;
+      nexonApiKeys?: string[];
       name: string;
       version: string;
       debug: boolean;
+      transport: McpTransportType;
       port?: number;
+      host?: string;
+      corsOrigin?: string;
+      allowedHosts?: string[];
+      allowedOrigins?: string[];
+      categories?: ToolCategory[];
+      cache?: CacheConfig;
+      dailyQuota?: number;
     };
 
-    if (options.port !== undefined) {
-      config.port = options.port;
+    if (apiKeys.length > 1) {
+      config.nexonApiKeys = apiKeys.slice(1);
+    }
+    if (port !== undefined) {
+      config.port = port;
+    }
+    if (options.host) {
+      config.host = options.host;
+    }
+    if (options.corsOrigin) {
+      config.corsOrigin = options.corsOrigin;
+    }
+    if (allowedHosts && allowedHosts.length > 0) {
+      config.allowedHosts = allowedHosts;
+    }
+    if (allowedOrigins && allowedOrigins.length > 0) {
+      config.allowedOrigins = allowedOrigins;
+    }
+    if (categories && categories.length > 0) {
+      config.categories = categories as ToolCategory[];
+    }
+    if (cacheBackend === 'file') {
+      config.cache = { backend: 'file', ...(cacheFile && { filePath: cacheFile }) };
+    }
+    if (dailyQuota !== undefined) {
+      config.dailyQuota = dailyQuota;
     }
 
     return config;
@@ -127,12 +304,15 @@ For more information, visit: https://github.com/ljy9303/mcp-maple
   /**
    * Initialize and start the MCP server
    */
-  private async startServer(config: ReturnType<typeof CliApp.prototype.resolveConfig>): Promise<void> {
+  private async startServer(
+    config: ReturnType<typeof CliApp.prototype.resolveConfig>
+  ): Promise<void> {
     try {
       this.logger.info('Starting MCP Maple server...', {
         name: config.name,
         version: config.version,
         debug: config.debug,
+        transport: config.transport,
       });
 
       // Create server instance
@@ -140,27 +320,40 @@ For more information, visit: https://github.com/ljy9303/mcp-maple
         name: config.name,
         version: config.version,
         nexonApiKey: config.nexonApiKey,
+        ...(config.nexonApiKeys && { nexonApiKeys: config.nexonApiKeys }),
         debug: config.debug,
+        transport: config.transport,
+        ...(config.port !== undefined && { port: config.port }),
+        ...(config.host && { host: config.host }),
+        ...(config.corsOrigin && { corsOrigin: config.corsOrigin }),
+        ...(config.allowedHosts && { allowedHosts: config.allowedHosts }),
+        ...(config.allowedOrigins && { allowedOrigins: config.allowedOrigins }),
+        ...(config.cache && { cache: config.cache }),
+        ...(config.dailyQuota !== undefined && { dailyQuota: config.dailyQuota }),
       });
 
       // Register all available tools
-      const tools = createAllTools();
+      const tools = createAllTools(config.categories);
       tools.forEach((tool) => {
         this.server!.registerTool(tool);
       });
 
       this.logger.info(`Registered ${tools.length} tools`, {
         tools: tools.map((tool) => tool.name),
+        categories: config.categories || 'all',
       });
 
       // Start the server
       await this.server.start();
 
-      // Only output startup messages to stderr when not in MCP mode
-      if (config.port !== undefined) {
+      // Only output startup messages to stderr when not serving over stdio
+      if (config.transport === 'http') {
+        const baseUrl = `http://${config.host || '127.0.0.1'}:${this.server.getHttpPort()}`;
         process.stderr.write('✅ MCP Maple server started successfully!\n');
         process.stderr.write(`📊 Server: ${config.name} v${config.version}\n`);
         process.stderr.write(`🔧 Tools: ${tools.length} available\n`);
+        process.stderr.write(`🌐 Streamable HTTP: ${baseUrl}/mcp\n`);
+        process.stderr.write(`🌐 SSE (legacy): ${baseUrl}/sse\n`);
         process.stderr.write(`🐛 Debug: ${config.debug ? 'enabled' : 'disabled'}\n`);
 
         if (config.debug) {
@@ -0,0 +1,446 @@
+/**
+ * HTTP Transport for MCP Maple
+ * Serves MCP over Streamable HTTP and the legacy HTTP+SSE transport so one server
+ * instance can be shared by several clients
+ */
+
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { AddressInfo } from 'node:net';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { McpLogger } from '../utils/logger';
+import { McpMapleError } from '../utils/errors';
+
+export type HttpSessionType = 'streamable-http' | 'sse';
+
+export interface HttpTransportConfig {
+  port: number;
+  host?: string;
+  /** Origin allowed by CORS; no CORS headers are sent when unset */
+  corsOrigin?: string;
+  /**
+   * Host headers accepted (DNS rebinding protection). Defaults to the loopback names on the
+   * bound port when bound to a loopback address, or the bound host itself otherwise.
+   */
+  allowedHosts?: string[];
+  /** Origin headers accepted; when set, requests without a matching Origin are rejected */
+  allowedOrigins?: string[];
+  maxBodyBytes?: number;
+  /** Close Streamable HTTP sessions with no requests for this long (ms) */
+  sessionIdleTimeoutMs?: number;
+}
+
+interface HttpSession {
+  type: HttpSessionType;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: Server;
+  createdAt: number;
+  lastActivityAt: number;
+  /** Requests still being answered, including open notification streams */
+  openRequests: number;
+}
+
+const MCP_ENDPOINT = '/mcp';
+const SSE_ENDPOINT = '/sse';
+const SSE_MESSAGES_ENDPOINT = '/messages';
+const DEFAULT_MAX_BODY_BYTES = 4 * 1024 * 1024;
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const MAX_IDLE_SWEEP_INTERVAL_MS = 60 * 1000;
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '::1'];
+const WILDCARD_HOSTS = ['0.0.0.0', '::'];
+const INVALID_BODY = Symbol('invalid-body');
+
+/**
+ * HTTP host for MCP sessions. Each session gets its own protocol server from
+ * the factory, since an MCP server instance can only be connected to one transport.
+ */
+export class McpHttpTransport {
+  private httpServer: HttpServer | null = null;
+  private sessions: Map<string, HttpSession> = new Map();
+  private idleSweepTimer: ReturnType<typeof setInterval> | null = null;
+  private allowedHosts: string[] = [];
+  private config: HttpTransportConfig &
+    Required<Pick<HttpTransportConfig, 'host' | 'maxBodyBytes' | 'sessionIdleTimeoutMs'>>;
+  private logger: McpLogger;
+  private createProtocolServer: () => Server;
+
+  constructor(config: HttpTransportConfig, createProtocolServer: () => Server) {
+    this.config = {
+      host: '127.0.0.1',
+      maxBodyBytes: DEFAULT_MAX_BODY_BYTES,
+      sessionIdleTimeoutMs: DEFAULT_SESSION_IDLE_TIMEOUT_MS,
+      ...config,
+    };
+    this.createProtocolServer = createProtocolServer;
+    this.logger = new McpLogger('http-transport');
+  }
+
+  /**
+   * Start listening for HTTP connections
+   */
+  public async start(): Promise<void> {
+    if (this.httpServer) {
+      throw new McpMapleError('HTTP transport is already listening', 'SERVER_ALREADY_RUNNING');
+    }
+
+    const httpServer = createServer((req, res) => {
+      this.handleHttpRequest(req, res).catch((error) => {
+        this.logger.error('Unhandled HTTP request error', {
+          method: req.method,
+          url: req.url,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        if (!res.headersSent) {
+          this.sendJsonRpcError(res, 500, -32603, 'Internal server error');
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(this.config.port, this.config.host, () => {
+        httpServer.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.httpServer = httpServer;
+    this.allowedHosts = this.config.allowedHosts ?? this.getDefaultAllowedHosts();
+    if (this.allowedHosts.length === 0) {
+      this.logger.warn('HTTP transport accepts any Host header; set allowedHosts', {
+        host: this.config.host,
+      });
+    }
+
+    const sweepInterval = Math.min(this.config.sessionIdleTimeoutMs, MAX_IDLE_SWEEP_INTERVAL_MS);
+    this.idleSweepTimer = setInterval(() => this.closeIdleSessions(), sweepInterval);
+    // The sweep alone should not keep the process alive
+    this.idleSweepTimer.unref();
+
+    this.logger.info('HTTP transport listening', {
+      host: this.config.host,
+      port: this.getPort(),
+      endpoints: [MCP_ENDPOINT, SSE_ENDPOINT, SSE_MESSAGES_ENDPOINT],
+      allowedHosts: this.allowedHosts,
+    });
+  }
+
+  /**
+   * Close every session and stop accepting connections
+   */
+  public async close(): Promise<void> {
+    if (this.idleSweepTimer) {
+      clearInterval(this.idleSweepTimer);
+      this.idleSweepTimer = null;
+    }
+
+    const sessions = Array.from(this.sessions.entries());
+    this.sessions.clear();
+
+    await Promise.all(
+      sessions.map(([sessionId, session]) => this.closeSession(sessionId, session))
+    );
+
+    const httpServer = this.httpServer;
+    this.httpServer = null;
+    if (httpServer) {
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        // Drop idle keep-alive connections so close() does not hang
+        httpServer.closeAllConnections();
+      });
+    }
+
+    this.logger.info('HTTP transport closed', { closedSessions: sessions.length });
+  }
+
+  /**
+   * Port the server is bound to (useful when started on port 0)
+   */
+  public getPort(): number | null {
+    const address = this.httpServer?.address();
+    return address && typeof address === 'object' ? (address as AddressInfo).port : null;
+  }
+
+  /**
+   * Number of open sessions by transport type
+   */
+  public getSessionCounts(): Record<HttpSessionType, number> {
+    const counts: Record<HttpSessionType, number> = { 'streamable-http': 0, sse: 0 };
+    this.sessions.forEach((session) => {
+      counts[session.type]++;
+    });
+    return counts;
+  }
+
+  /**
+   * Close Streamable HTTP sessions with no open request and none for longer than the timeout,
+   * i.e. clients that went away without sending DELETE. SSE sessions end with their
+   * connection instead.
+   */
+  public async closeIdleSessions(): Promise<number> {
+    const idleSince = Date.now() - this.config.sessionIdleTimeoutMs;
+    const idle = Array.from(this.sessions.entries()).filter(
+      ([, session]) =>
+        session.type === 'streamable-http' &&
+        session.openRequests === 0 &&
+        session.lastActivityAt <= idleSince
+    );
+
+    await Promise.all(
+      idle.map(([sessionId, session]) => {
+        this.sessions.delete(sessionId);
+        this.logger.info('Closing idle Streamable HTTP session', { sessionId });
+        return this.closeSession(sessionId, session);
+      })
+    );
+    return idle.length;
+  }
+
+  private async closeSession(sessionId: string, session: HttpSession): Promise<void> {
+    try {
+      await session.transport.close();
+      await session.server.close();
+    } catch (error) {
+      this.logger.warn('Error closing HTTP session', {
+        sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Host headers a client may use to reach the bound address. A wildcard bind can be reached
+   * under any name, so there is no default to enforce.
+   */
+  private getDefaultAllowedHosts(): string[] {
+    const { host } = this.config;
+    const port = this.getPort();
+    if (WILDCARD_HOSTS.includes(host)) {
+      return [];
+    }
+
+    const hosts = LOOPBACK_HOSTS.includes(host) ? LOOPBACK_HOSTS : [host];
+    return hosts.map((name) => `${name.includes(':') ? `[${name}]` : name}:${port}`);
+  }
+
+  /**
+   * Options passed to the SDK transports so they reject requests with an unexpected Host or
+   * Origin header, as sent by a page using DNS rebinding to reach a local server
+   */
+  private getDnsRebindingOptions() {
+    return {
+      enableDnsRebindingProtection: true,
+      allowedHosts: this.allowedHosts,
+      allowedOrigins: this.config.allowedOrigins ?? [],
+    };
+  }
+
+  private async handleHttpRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    this.applyCorsHeaders(res);
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+    switch (url.pathname) {
+      case MCP_ENDPOINT:
+        return this.handleStreamableHttpRequest(req, res);
+      case SSE_ENDPOINT:
+        return this.handleSseConnect(req, res);
+      case SSE_MESSAGES_ENDPOINT:
+        return this.handleSseMessage(req, res, url.searchParams.get('sessionId'));
+      default:
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Not found' }));
+    }
+  }
+
+  /**
+   * Streamable HTTP: POST/GET/DELETE on the MCP endpoint, sessions keyed by Mcp-Session-Id
+   */
+  private async handleStreamableHttpRequest(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'];
+    const body = req.method === 'POST' ? await this.readJsonBody(req, res) : undefined;
+    if (body === INVALID_BODY) {
+      return;
+    }
+
+    if (typeof sessionId === 'string') {
+      const session = this.sessions.get(sessionId);
+      if (!session || session.type !== 'streamable-http') {
+        this.sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      this.trackActivity(session, res);
+      await (session.transport as StreamableHTTPServerTransport).handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      this.sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const server = this.createProtocolServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      ...this.getDnsRebindingOptions(),
+      onsessioninitialized: (newSessionId) => {
+        this.sessions.set(newSessionId, {
+          type: 'streamable-http',
+          transport,
+          server,
+          createdAt: Date.now(),
+          lastActivityAt: Date.now(),
+          openRequests: 0,
+        });
+        this.logger.info('Streamable HTTP session opened', { sessionId: newSessionId });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId && this.sessions.delete(transport.sessionId)) {
+        this.logger.info('Streamable HTTP session closed', { sessionId: transport.sessionId });
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  /**
+   * Legacy SSE: GET opens the event stream, messages are POSTed back with ?sessionId=
+   */
+  private async handleSseConnect(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (req.method !== 'GET') {
+      res.writeHead(405, { Allow: 'GET' }).end();
+      return;
+    }
+
+    const server = this.createProtocolServer();
+    const transport = new SSEServerTransport(
+      SSE_MESSAGES_ENDPOINT,
+      res,
+      this.getDnsRebindingOptions()
+    );
+    const sessionId = transport.sessionId;
+
+    this.sessions.set(sessionId, {
+      type: 'sse',
+      transport,
+      server,
+      createdAt: Date.now(),
+      lastActivityAt: Date.now(),
+      openRequests: 0,
+    });
+    transport.onclose = () => {
+      if (this.sessions.delete(sessionId)) {
+        this.logger.info('SSE session closed', { sessionId });
+      }
+    };
+    res.on('close', () => {
+      if (this.sessions.has(sessionId)) {
+        server.close().catch(() => undefined);
+      }
+    });
+
+    this.logger.info('SSE session opened', { sessionId });
+    await server.connect(transport);
+  }
+
+  private async handleSseMessage(
+    req: IncomingMessage,
+    res: ServerResponse,
+    sessionId: string | null
+  ): Promise<void> {
+    if (req.method !== 'POST') {
+      res.writeHead(405, { Allow: 'POST' }).end();
+      return;
+    }
+
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!session || session.type !== 'sse') {
+      this.sendJsonRpcError(res, 404, -32001, 'Session not found');
+      return;
+    }
+
+    const body = await this.readJsonBody(req, res);
+    if (body === INVALID_BODY) {
+      return;
+    }
+    this.trackActivity(session, res);
+    await (session.transport as SSEServerTransport).handlePostMessage(req, res, body);
+  }
+
+  /**
+   * Count a request against its session until the response ends
+   */
+  private trackActivity(session: HttpSession, res: ServerResponse): void {
+    session.openRequests++;
+    session.lastActivityAt = Date.now();
+    res.once('close', () => {
+      session.openRequests--;
+      session.lastActivityAt = Date.now();
+    });
+  }
+
+  /**
+   * Read and parse a JSON request body, replying with an error when it is invalid
+   */
+  private async readJsonBody(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<unknown | typeof INVALID_BODY> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > this.config.maxBodyBytes) {
+        this.sendJsonRpcError(res, 413, -32600, 'Request body too large');
+        return INVALID_BODY;
+      }
+      chunks.push(chunk);
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+      this.sendJsonRpcError(res, 400, -32700, 'Parse error: Invalid JSON');
+      return INVALID_BODY;
+    }
+  }
+
+  private applyCorsHeaders(res: ServerResponse): void {
+    if (!this.config.corsOrigin) {
+      return;
+    }
+
+    res.setHeader('Access-Control-Allow-Origin', this.config.corsOrigin);
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+    res.setHeader(
+      'Access-Control-Allow-Headers',
+      'Content-Type, Accept, Authorization, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID'
+    );
+    res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
+  }
+
+  private sendJsonRpcError(
+    res: ServerResponse,
+    status: number,
+    code: number,
+    message: string
+  ): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+  }
+}
@@ -4,4 +4,12 @@
  */
 
 export { McpServer } from './mcp-server';
-export type { McpServerConfig, ServerInfo } from './mcp-server';
+export type { McpServerConfig, McpTransportType, ServerInfo } from './mcp-server';
+export { McpHttpTransport } from './http-transport';
+export type { HttpTransportConfig, HttpSessionType } from './http-transport';
+export { ResourceRegistry, createDefaultResourceTemplates } from './resource-registry';
+export type { MapleResourceTemplate, ResourceContext } from './resource-registry';
+export { PromptRegistry, createDefaultPrompts } from './prompt-registry';
+export type { MaplePromptDefinition, MaplePromptArgument } from './prompt-registry';
+export { ResourceSubscriptionManager } from './subscription-manager';
+export type { SubscriptionManagerConfig } from './subscription-manager';
@@ -8,20 +8,56 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  ErrorCode,
+  McpError,
   Tool,
   TextContent,
   CallToolResult,
 } from '@modelcontextprotocol/sdk/types.js';
 import { McpLogger } from '../utils/logger';
 import { McpMapleError } from '../utils/errors';
+import { CacheConfig, CacheStats, createCache } from '../utils/cache';
+import { EndpointClass } from '../utils/rate-limiter';
+import { ApiKeyPoolStats } from '../utils/api-key-pool';
+import { CircuitBreakerStats } from '../utils/circuit-breaker';
 import { NexonApiClient } from '../api/nexon-client';
-import { BaseTool } from '../tools/base-tool';
+import { CoalescingStats, ScanProgress } from '../api/types';
+import { BaseTool, EnhancedBaseTool, isToolResult } from '../tools/base-tool';
+import { McpHttpTransport, HttpSessionType } from './http-transport';
+import { ResourceRegistry } from './resource-registry';
+import { PromptRegistry } from './prompt-registry';
+import { ResourceSubscriptionManager } from './subscription-manager';
+
+export type McpTransportType = 'stdio' | 'http';
 
 export interface McpServerConfig {
   name?: string;
   version?: string;
   nexonApiKey: string;
+  /** Further NEXON API keys to rotate requests across */
+  nexonApiKeys?: string[];
   debug?: boolean;
+  transport?: McpTransportType;
+  port?: number;
+  host?: string;
+  corsOrigin?: string;
+  /** Host headers the HTTP transport accepts; defaults to the loopback names when bound to one */
+  allowedHosts?: string[];
+  /** Origin headers the HTTP transport accepts; unchecked when unset */
+  allowedOrigins?: string[];
+  /** Close HTTP sessions idle for this long (ms) */
+  sessionIdleTimeoutMs?: number;
+  /** Cache backend; defaults to the shared in-memory cache */
+  cache?: CacheConfig;
+  /** Daily request allowance of each NEXON API key */
+  dailyQuota?: number;
 }
 
 export interface ServerInfo {
@@ -29,15 +65,21 @@ export interface ServerInfo {
   version: string;
   capabilities: {
     tools: Record<string, unknown>;
+    resources: Record<string, unknown>;
+    prompts: Record<string, unknown>;
   };
 }
 
 export class McpServer {
   private server: Server;
   private transport: StdioServerTransport | null = null;
+  private httpTransport: McpHttpTransport | null = null;
   private logger: McpLogger;
   private nexonClient: NexonApiClient;
   private tools: Map<string, BaseTool> = new Map();
+  private resources: ResourceRegistry = new ResourceRegistry();
+  private prompts: PromptRegistry = new PromptRegistry();
+  private subscriptions: ResourceSubscriptionManager;
   private config: McpServerConfig;
   private isRunning = false;
 
@@ -50,16 +92,36 @@ export class McpServer {
       name: 'mcp-maple',
       version: '1.0.0',
       debug: false,
+      transport: 'stdio',
       ...config,
     };
 
     this.logger = new McpLogger('mcp-server');
     this.nexonClient = new NexonApiClient({
       apiKey: config.nexonApiKey,
+      ...(config.nexonApiKeys && { apiKeys: config.nexonApiKeys }),
+      ...(config.cache && { cache: createCache(config.cache) }),
+      ...(config.dailyQuota !== undefined && { dailyQuota: config.dailyQuota }),
+    });
+    this.subscriptions = new ResourceSubscriptionManager(this.resources, {
+      nexonClient: this.nexonClient,
+      logger: this.logger,
     });
 
     // Initialize MCP server
-    this.server = new Server(
+    this.server = this.createProtocolServer();
+    this.logger.info('MCP server initialized', {
+      name: this.config.name,
+      version: this.config.version,
+    });
+  }
+
+  /**
+   * Create a protocol server with all handlers attached. The stdio transport uses a
+   * single instance; the HTTP transport creates one per session.
+   */
+  private createProtocolServer(): Server {
+    const server = new Server(
       {
         name: this.config.name!,
         version: this.config.version!,
@@ -67,20 +129,21 @@ export class McpServer {
       {
         capabilities: {
           tools: {},
+          resources: { subscribe: true },
+          prompts: {},
         },
       }
     );
 
-    this.setupHandlers();
-    this.logger.info('MCP server initialized', {
-      name: this.config.name,
-      version: this.config.version,
-    });
+    this.setupHandlers(server);
+    // Drop the session's resource subscriptions when it disconnects
+    server.onclose = () => this.subscriptions.removeServer(server);
+    return server;
   }
 
-  private setupHandlers(): void {
+  private setupHandlers(server: Server): void {
     // Handle tool listing
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       this.logger.logMcpOperation('list_tools', 'all', {
         toolCount: this.tools.size,
       });
@@ -89,14 +152,26 @@ export class McpServer {
         name: tool.name,
         description: tool.description,
         inputSchema: tool.inputSchema as any, // MCP SDK type compatibility
+        outputSchema: tool.outputSchema as any,
+        ...(tool instanceof EnhancedBaseTool && {
+          title: tool.title,
+          annotations: tool.getAnnotations(),
+          _meta: {
+            category: tool.metadata.category,
+            tags: tool.metadata.tags,
+            examples: tool.metadata.examples,
+            ...(tool.metadata.rateLimit && { rateLimit: tool.metadata.rateLimit }),
+          },
+        }),
       }));
 
       return { tools };
     });
 
     // Handle tool execution
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
+      const progressToken = request.params._meta?.progressToken;
 
       this.logger.logMcpOperation('call_tool', name, {
         arguments: args,
@@ -111,18 +186,46 @@ export class McpServer {
           });
         }
 
-        // Execute the tool
+        // Execute the tool; long scans report progress and stop when the client cancels
         const result = await tool.execute(args || {}, {
           nexonClient: this.nexonClient,
           logger: this.logger,
+          signal: extra.signal,
+          ...(progressToken !== undefined && {
+            onProgress: ({ progress, total, message }: ScanProgress) => {
+              extra
+                .sendNotification({
+                  method: 'notifications/progress',
+                  params: { progressToken, progress, total, ...(message && { message }) },
+                })
+                .catch((error) => {
+                  this.logger.warn('Failed to send progress notification', {
+                    toolName: name,
+                    error: error instanceof Error ? error.message : String(error),
+                  });
+                });
+            },
+          }),
         });
 
         this.logger.logMcpOperation('tool_executed', name, {
-          success: true,
+          success: isToolResult(result) ? result.success : true,
           resultType: typeof result,
         });
 
-        // Format result as MCP response
+        // Format result as MCP response: a short text summary, the result serialized as JSON for
+        // clients that do not read structured content, and the structured result
+        if (isToolResult(result)) {
+          return {
+            content: [
+              { type: 'text', text: tool.summarize(result) },
+              { type: 'text', text: JSON.stringify(result, null, 2) },
+            ],
+            structuredContent: { ...result },
+            ...(!result.success && { isError: true }),
+          } as CallToolResult;
+        }
+
         const content: TextContent[] = [
           {
             type: 'text',
@@ -157,6 +260,120 @@ export class McpServer {
         } as CallToolResult;
       }
     });
+
+    // Handle resource listing
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      const resources = this.resources.listResources();
+      this.logger.logMcpOperation('list_resources', 'all', {
+        resourceCount: resources.length,
+      });
+
+      return { resources };
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      const resourceTemplates = this.resources.listTemplates();
+      this.logger.logMcpOperation('list_resource_templates', 'all', {
+        templateCount: resourceTemplates.length,
+      });
+
+      return { resourceTemplates };
+    });
+
+    // Handle resource reads
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      this.logger.logMcpOperation('read_resource', uri);
+
+      let result;
+      try {
+        result = await this.resources.read(uri, {
+          nexonClient: this.nexonClient,
+          logger: this.logger,
+        });
+      } catch (error) {
+        this.logger.error('Resource read failed', {
+          operation: 'resource_read_error',
+          uri,
+          error: error instanceof Error ? error.message : String(error),
+        });
+
+        const errorMessage =
+          error instanceof McpMapleError
+            ? `${error.message} (${error.code})`
+            : error instanceof Error
+              ? error.message
+              : 'Unknown error occurred';
+        throw new McpError(ErrorCode.InternalError, `Failed to read resource: ${errorMessage}`, {
+          uri,
+        });
+      }
+
+      if (!result) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`, { uri });
+      }
+      return result;
+    });
+
+    // Handle resource subscriptions
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const { uri } = request.params;
+      this.logger.logMcpOperation('subscribe_resource', uri);
+
+      try {
+        await this.subscriptions.subscribe(uri, server);
+      } catch (error) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          error instanceof Error ? error.message : String(error),
+          { uri }
+        );
+      }
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      const { uri } = request.params;
+      this.logger.logMcpOperation('unsubscribe_resource', uri);
+
+      this.subscriptions.unsubscribe(uri, server);
+      return {};
+    });
+
+    // Handle prompt listing
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      const prompts = this.prompts.listPrompts();
+      this.logger.logMcpOperation('list_prompts', 'all', {
+        promptCount: prompts.length,
+      });
+
+      return { prompts };
+    });
+
+    // Handle prompt rendering
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+      this.logger.logMcpOperation('get_prompt', name, { arguments: args });
+
+      let result;
+      try {
+        result = this.prompts.getPrompt(name, args);
+      } catch (error) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          error instanceof Error ? error.message : String(error),
+          { promptName: name }
+        );
+      }
+
+      if (!result) {
+        throw new McpError(ErrorCode.InvalidParams, `Prompt '${name}' not found`, {
+          promptName: name,
+          availablePrompts: this.prompts.listPrompts().map((prompt) => prompt.name),
+        });
+      }
+      return result;
+    });
   }
 
   /**
@@ -212,10 +429,19 @@ export class McpServer {
       version: this.config.version!,
       capabilities: {
         tools: {},
+        resources: { subscribe: true },
+        prompts: {},
       },
     };
   }
 
+  /**
+   * Get the port the HTTP transport is listening on (null for stdio)
+   */
+  public getHttpPort(): number | null {
+    return this.httpTransport?.getPort() ?? null;
+  }
+
   /**
    * Check if server is running
    */
@@ -232,12 +458,32 @@ export class McpServer {
     }
 
     try {
-      this.transport = new StdioServerTransport();
-      await this.server.connect(this.transport);
+      if (this.config.transport === 'http') {
+        this.httpTransport = new McpHttpTransport(
+          {
+            port: this.config.port ?? 3000,
+            ...(this.config.host && { host: this.config.host }),
+            ...(this.config.corsOrigin && { corsOrigin: this.config.corsOrigin }),
+            ...(this.config.allowedHosts && { allowedHosts: this.config.allowedHosts }),
+            ...(this.config.allowedOrigins && { allowedOrigins: this.config.allowedOrigins }),
+            ...(this.config.sessionIdleTimeoutMs !== undefined && {
+              sessionIdleTimeoutMs: this.config.sessionIdleTimeoutMs,
+            }),
+          },
+          () => this.createProtocolServer()
+        );
+        await this.httpTransport.start();
+      } else {
+        this.transport = new StdioServerTransport();
+        await this.server.connect(this.transport);
+      }
       this.isRunning = true;
+      this.subscriptions.start();
 
       this.logger.info('MCP server started successfully', {
         name: this.config.name,
+        transport: this.config.transport,
+        port: this.httpTransport?.getPort(),
         toolCount: this.tools.size,
         tools: Array.from(this.tools.keys()),
       });
@@ -253,6 +499,10 @@ export class McpServer {
       }
     } catch (error) {
       this.isRunning = false;
+      if (this.httpTransport) {
+        await this.httpTransport.close().catch(() => undefined);
+        this.httpTransport = null;
+      }
       this.logger.error('Failed to start MCP server', {
         error: error instanceof Error ? error.message : String(error),
       });
@@ -272,11 +522,18 @@ export class McpServer {
     }
 
     try {
+      this.subscriptions.stop();
+
       if (this.transport) {
         await this.transport.close();
         this.transport = null;
       }
 
+      if (this.httpTransport) {
+        await this.httpTransport.close();
+        this.httpTransport = null;
+      }
+
       this.isRunning = false;
       this.logger.info('MCP server stopped successfully');
     } catch (error) {
@@ -297,6 +554,7 @@ export class McpServer {
 
     try {
       await this.stop();
+      this.nexonClient.getCache().close();
       this.tools.clear();
       this.logger.info('Graceful shutdown completed');
     } catch (error) {
@@ -315,6 +573,13 @@ export class McpServer {
     nexonApi: string;
     toolCount: number;
     uptime: string;
+    transport: McpTransportType;
+    sessions?: Record<HttpSessionType, number>;
+    subscriptions: { resources: number; subscribers: number };
+    cache: CacheStats;
+    coalescing: CoalescingStats;
+    apiKeys: ApiKeyPoolStats;
+    circuitBreakers: Record<EndpointClass, CircuitBreakerStats>;
   }> {
     const serverStatus = this.isRunning ? 'healthy' : 'stopped';
 
@@ -331,6 +596,13 @@ export class McpServer {
       nexonApi: nexonApiStatus,
       toolCount: this.tools.size,
       uptime: process.uptime().toFixed(2) + 's',
+      transport: this.config.transport!,
+      ...(this.httpTransport && { sessions: this.httpTransport.getSessionCounts() }),
+      subscriptions: this.subscriptions.getStats(),
+      cache: this.nexonClient.getCache().getStats(),
+      coalescing: this.nexonClient.getCoalescingStats(),
+      apiKeys: this.nexonClient.getApiKeyStats(),
+      circuitBreakers: this.nexonClient.getCircuitBreakerStats(),
     };
   }
 }
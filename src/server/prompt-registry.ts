@@ -0,0 +1,209 @@
+/**
+ * MCP Prompts for MapleStory SEA
+ * Parameterised prompts that pre-wire the right tool calls and output structure for
+ * common analyses, so results are consistent regardless of how the question is asked
+ */
+
+import { GetPromptResult, Prompt } from '@modelcontextprotocol/sdk/types.js';
+import { ValidationError, validateCharacterName, validateWorldName } from '../utils/validation';
+import { getLatestDataDate } from '../utils/server-utils';
+
+export interface MaplePromptArgument {
+  name: string;
+  description: string;
+  required: boolean;
+}
+
+export interface MaplePromptDefinition {
+  name: string;
+  title: string;
+  description: string;
+  arguments: MaplePromptArgument[];
+  build(args: Record<string, string>): string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Number a list of steps for the prompt body
+ */
+function steps(lines: string[]): string {
+  return lines.map((line, index) => `${index + 1}. ${line}`).join('\n');
+}
+
+/**
+ * Default MapleStory SEA prompts
+ */
+export function createDefaultPrompts(): MaplePromptDefinition[] {
+  return [
+    {
+      name: 'build_review',
+      title: 'Build review',
+      description: 'Review a MapleStory SEA character build and suggest the next upgrades',
+      arguments: [{ name: 'character', description: 'Character name to review', required: true }],
+      build: ({ character }) =>
+        [
+          `Review the build of the MapleStory SEA character "${character}".`,
+          '',
+          'Gather data with these tools:',
+          steps([
+            `get_character_basic_info with characterName "${character}"`,
+            `get_character_stats with characterName "${character}"`,
+            `get_character_equipment with characterName "${character}"`,
+            `get_character_set_effects with characterName "${character}"`,
+            `get_character_hyper_stats with characterName "${character}"`,
+            `get_character_symbols with characterName "${character}"`,
+            `get_character_hexa_matrix with characterName "${character}"`,
+          ]),
+          '',
+          'Then answer with these sections:',
+          '- **Overview**: level, class, world and combat power',
+          '- **Strengths**: the strongest parts of the build',
+          '- **Weaknesses**: gear slots, set tiers, symbols or hyper stats that lag behind',
+          '- **Next upgrades**: the three most cost-effective upgrades, in order',
+        ].join('\n'),
+    },
+    {
+      name: 'compare_characters',
+      title: 'Compare characters',
+      description: 'Compare two MapleStory SEA characters side by side',
+      arguments: [
+        { name: 'a', description: 'First character name', required: true },
+        { name: 'b', description: 'Second character name', required: true },
+      ],
+      build: ({ a, b }) =>
+        [
+          `Compare the MapleStory SEA characters "${a}" and "${b}".`,
+          '',
+          'For each character, call:',
+          steps([
+            'get_character_basic_info',
+            'get_character_stats',
+            'get_character_equipment',
+            'get_union_info',
+          ]),
+          '',
+          'Then answer with these sections:',
+          '- **Summary table**: level, class, world, combat power and union level for both',
+          '- **Gear**: starforce and potential differences by slot',
+          '- **Verdict**: which character is further ahead and the biggest gap to close',
+        ].join('\n'),
+    },
+    {
+      name: 'guild_health_report',
+      title: 'Guild health report',
+      description: 'Health report for a MapleStory SEA guild: size, activity and ranking',
+      arguments: [
+        { name: 'guild', description: 'Guild name', required: true },
+        { name: 'world', description: 'World the guild is on (e.g. Aquila)', required: true },
+      ],
+      build: ({ guild, world }) =>
+        [
+          `Write a health report for the MapleStory SEA guild "${guild}" on ${world}.`,
+          '',
+          'Gather data with these tools:',
+          steps([
+            `get_guild_info with guildName "${guild}" and worldName "${world}"`,
+            `get_guild_ranking with worldName "${world}" and guildName "${guild}"`,
+          ]),
+          '',
+          'Then answer with these sections:',
+          '- **Snapshot**: level, master, member count and noblesse skill points',
+          '- **Ranking**: current position and what it means for the world',
+          '- **Health**: member capacity, skill investment and any warning signs',
+          '- **Recommendations**: up to three concrete actions for the guild master',
+        ].join('\n'),
+    },
+    {
+      name: 'weekly_progress',
+      title: 'Weekly progress',
+      description: 'Week-over-week progress report for a MapleStory SEA character',
+      arguments: [{ name: 'character', description: 'Character name to track', required: true }],
+      build: ({ character }) => {
+        // A day's data is only complete once the next day's 09:30 SGT update has run
+        const latest = getLatestDataDate();
+        const weekAgo = new Date(Date.parse(latest) - 7 * DAY_MS).toISOString().slice(0, 10);
+
+        return [
+          `Report the weekly progress of the MapleStory SEA character "${character}" from ${weekAgo} to ${latest}.`,
+          '',
+          'Call each of these tools twice, once with date ' +
+            `"${weekAgo}" and once with date "${latest}":`,
+          steps([
+            `get_character_basic_info with characterName "${character}"`,
+            `get_character_stats with characterName "${character}"`,
+            `get_character_symbols with characterName "${character}"`,
+            `get_union_info with characterName "${character}"`,
+          ]),
+          `Also call get_character_dojang with characterName "${character}".`,
+          '',
+          'Then answer with these sections:',
+          '- **Changes**: level, EXP, combat power, symbol force and union level, before vs after',
+          '- **Highlights**: the biggest gains this week',
+          '- **Next week**: goals based on symbol days-to-max and the current Dojang record',
+        ].join('\n');
+      },
+    },
+  ];
+}
+
+/**
+ * Registry that lists prompts and renders them with arguments
+ */
+export class PromptRegistry {
+  private prompts: Map<string, MaplePromptDefinition>;
+
+  constructor(prompts: MaplePromptDefinition[] = createDefaultPrompts()) {
+    this.prompts = new Map(prompts.map((prompt) => [prompt.name, prompt]));
+  }
+
+  /**
+   * Prompts for prompts/list
+   */
+  public listPrompts(): Prompt[] {
+    return Array.from(this.prompts.values()).map((prompt) => ({
+      name: prompt.name,
+      title: prompt.title,
+      description: prompt.description,
+      arguments: prompt.arguments.map((argument) => ({ ...argument })),
+    }));
+  }
+
+  /**
+   * Render a prompt with its arguments. Returns null when the prompt does not exist.
+   */
+  public getPrompt(name: string, args: Record<string, string> = {}): GetPromptResult | null {
+    const prompt = this.prompts.get(name);
+    if (!prompt) {
+      return null;
+    }
+
+    const values: Record<string, string> = {};
+    prompt.arguments.forEach((argument) => {
+      const value = args[argument.name]?.trim();
+      if (!value) {
+        if (argument.required) {
+          throw new ValidationError(`Missing required argument '${argument.name}'`);
+        }
+        return;
+      }
+      values[argument.name] = value;
+    });
+
+    // Character and world arguments follow the same rules as the tools
+    ['character', 'a', 'b'].forEach((key) => {
+      if (values[key]) validateCharacterName(values[key]);
+    });
+    if (values.world) validateWorldName(values.world);
+
+    return {
+      description: prompt.description,
+      messages: [
+        {
+          role: 'user',
+          content: { type: 'text', text: prompt.build(values) },
+        },
+      ],
+    };
+  }
+}
@@ -0,0 +1,216 @@
+/**
+ * MCP Resources for MapleStory SEA
+ * Exposes character, guild and ranking data as `maple://` resources so clients can
+ * attach game data as context instead of invoking tools
+ */
+
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import { Resource, ResourceTemplate, ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
+import { NexonApiClient } from '../api/nexon-client';
+import { WORLDS } from '../api/constants';
+import { McpLogger } from '../utils/logger';
+import { validateCharacterName, validateDate, validateWorldName } from '../utils/validation';
+
+export interface ResourceContext {
+  nexonClient: NexonApiClient;
+  logger: McpLogger;
+}
+
+export interface MapleResourceTemplate {
+  name: string;
+  title: string;
+  uriTemplate: string;
+  description: string;
+  read(variables: Record<string, string>, context: ResourceContext): Promise<unknown>;
+}
+
+const RESOURCE_MIME_TYPE = 'application/json';
+
+/**
+ * Ranking dates accept "latest" for the most recent data
+ */
+function resolveRankingDate(date: string): string | undefined {
+  if (date === 'latest') {
+    return undefined;
+  }
+  validateDate(date);
+  return date;
+}
+
+/**
+ * Look up a character's OCID after validating the name
+ */
+async function getOcid(name: string, context: ResourceContext): Promise<string> {
+  validateCharacterName(name);
+  const { ocid } = await context.nexonClient.getCharacterOcid(name);
+  return ocid;
+}
+
+/**
+ * Default resource templates backed by NexonApiClient
+ */
+export function createDefaultResourceTemplates(): MapleResourceTemplate[] {
+  return [
+    {
+      name: 'character_basic',
+      title: 'Character basic info',
+      uriTemplate: 'maple://character/{name}/basic',
+      description: 'Basic information (level, class, world, guild) for a MapleStory SEA character',
+      read: async ({ name }, context) =>
+        context.nexonClient.getCharacterBasic(await getOcid(name!, context)),
+    },
+    {
+      name: 'character_stats',
+      title: 'Character stats',
+      uriTemplate: 'maple://character/{name}/stats',
+      description: 'Final stats including combat power for a MapleStory SEA character',
+      read: async ({ name }, context) =>
+        context.nexonClient.getCharacterStat(await getOcid(name!, context)),
+    },
+    {
+      name: 'character_equipment',
+      title: 'Character equipment',
+      uriTemplate: 'maple://character/{name}/equipment',
+      description: 'Equipped items with starforce and potentials for a MapleStory SEA character',
+      read: async ({ name }, context) =>
+        context.nexonClient.getCharacterItemEquipment(await getOcid(name!, context)),
+    },
+    {
+      name: 'character_union',
+      title: 'Character union',
+      uriTemplate: 'maple://character/{name}/union',
+      description: 'Union level and grade for a MapleStory SEA character',
+      read: async ({ name }, context) =>
+        context.nexonClient.getUnionInfo(await getOcid(name!, context)),
+    },
+    {
+      name: 'guild',
+      title: 'Guild info',
+      uriTemplate: 'maple://guild/{world}/{name}',
+      description: 'Guild level, master and members for a MapleStory SEA guild',
+      read: async ({ world, name }, context) => {
+        validateWorldName(world!);
+        return context.nexonClient.getGuildFullInfo(name!, world!);
+      },
+    },
+    {
+      name: 'ranking_overall',
+      title: 'Overall ranking',
+      uriTemplate: 'maple://ranking/overall/{world}/{date}',
+      description:
+        'First page of the overall level ranking for a MapleStory SEA world (date as YYYY-MM-DD or "latest")',
+      read: async ({ world, date }, context) => {
+        validateWorldName(world!);
+        return context.nexonClient.getOverallRanking(
+          world,
+          undefined,
+          undefined,
+          undefined,
+          1,
+          resolveRankingDate(date!)
+        );
+      },
+    },
+    {
+      name: 'ranking_union',
+      title: 'Union ranking',
+      uriTemplate: 'maple://ranking/union/{world}/{date}',
+      description:
+        'First page of the union level ranking for a MapleStory SEA world (date as YYYY-MM-DD or "latest")',
+      read: async ({ world, date }, context) => {
+        validateWorldName(world!);
+        return context.nexonClient.getUnionRanking(world, undefined, 1, resolveRankingDate(date!));
+      },
+    },
+  ];
+}
+
+/**
+ * Registry that lists, matches and reads `maple://` resources
+ */
+export class ResourceRegistry {
+  private templates: Array<{ definition: MapleResourceTemplate; matcher: UriTemplate }>;
+
+  constructor(templates: MapleResourceTemplate[] = createDefaultResourceTemplates()) {
+    this.templates = templates.map((definition) => ({
+      definition,
+      matcher: new UriTemplate(definition.uriTemplate),
+    }));
+  }
+
+  /**
+   * Templates for resources/templates/list
+   */
+  public listTemplates(): ResourceTemplate[] {
+    return this.templates.map(({ definition }) => ({
+      name: definition.name,
+      title: definition.title,
+      uriTemplate: definition.uriTemplate,
+      description: definition.description,
+      mimeType: RESOURCE_MIME_TYPE,
+    }));
+  }
+
+  /**
+   * Concrete resources for resources/list: the latest rankings of every SEA world
+   */
+  public listResources(): Resource[] {
+    return this.templates
+      .filter(({ definition }) => definition.uriTemplate.startsWith('maple://ranking/'))
+      .flatMap(({ definition, matcher }) =>
+        WORLDS.map((world) => ({
+          uri: matcher.expand({ world, date: 'latest' }),
+          name: `${definition.name}_${world.toLowerCase()}`,
+          title: `${definition.title} - ${world}`,
+          description: `${definition.title} for ${world} (latest)`,
+          mimeType: RESOURCE_MIME_TYPE,
+        }))
+      );
+  }
+
+  /**
+   * Find the template matching a URI along with its decoded variables
+   */
+  public match(
+    uri: string
+  ): { definition: MapleResourceTemplate; variables: Record<string, string> } | null {
+    for (const { definition, matcher } of this.templates) {
+      const match = matcher.match(uri);
+      if (match) {
+        const variables: Record<string, string> = {};
+        Object.entries(match).forEach(([key, value]) => {
+          variables[key] = decodeURIComponent(Array.isArray(value) ? value.join(',') : value);
+        });
+        return { definition, variables };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Read a resource as JSON text content. Returns null when no template matches.
+   */
+  public async read(uri: string, context: ResourceContext): Promise<ReadResourceResult | null> {
+    const match = this.match(uri);
+    if (!match) {
+      return null;
+    }
+
+    context.logger.info('Reading resource', {
+      uri,
+      template: match.definition.name,
+      variables: match.variables,
+    });
+    const data = await match.definition.read(match.variables, context);
+
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: RESOURCE_MIME_TYPE,
+          text: JSON.stringify(data, null, 2),
+        },
+      ],
+    };
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * Resource Subscriptions for MCP Maple
+ * Polls subscribed resources after the SEA daily data refresh and notifies
+ * subscribed sessions when the data has changed
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ResourceContext, ResourceRegistry } from './resource-registry';
+import { McpLogger } from '../utils/logger';
+import { getCurrentSEATime, getNextDataUpdate, isDuringDataUpdate } from '../utils/server-utils';
+
+export interface SubscriptionManagerConfig {
+  /** Extra wait after the update window closes before polling (ms) */
+  settleDelayMs?: number;
+}
+
+// Data updates run from 08:00 to 09:30 SGT
+const DATA_UPDATE_WINDOW_MS = 90 * 60 * 1000;
+const DEFAULT_SETTLE_DELAY_MS = 5 * 60 * 1000;
+
+/**
+ * Fingerprint resource data for change detection, ignoring the snapshot date
+ */
+function fingerprint(data: unknown): string {
+  return JSON.stringify(data, (key, value) => (key === 'date' ? undefined : value));
+}
+
+/**
+ * Tracks resources/subscribe requests per session and emits
+ * notifications/resources/updated when a subscribed resource changes
+ */
+export class ResourceSubscriptionManager {
+  private subscriptions: Map<string, Set<Server>> = new Map();
+  private snapshots: Map<string, string> = new Map();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private polling = false;
+  private settleDelayMs: number;
+  private logger: McpLogger;
+
+  constructor(
+    private resources: ResourceRegistry,
+    private context: ResourceContext,
+    config: SubscriptionManagerConfig = {}
+  ) {
+    this.settleDelayMs = config.settleDelayMs ?? DEFAULT_SETTLE_DELAY_MS;
+    this.logger = new McpLogger('subscriptions');
+  }
+
+  /**
+   * Subscribe a session to a resource and record its current snapshot
+   */
+  public async subscribe(uri: string, server: Server): Promise<void> {
+    if (!this.resources.match(uri)) {
+      throw new Error(`Unknown resource: ${uri}`);
+    }
+
+    const subscribers = this.subscriptions.get(uri) ?? new Set<Server>();
+    subscribers.add(server);
+    this.subscriptions.set(uri, subscribers);
+    this.logger.info('Resource subscribed', { uri, subscribers: subscribers.size });
+
+    if (!this.snapshots.has(uri)) {
+      await this.takeSnapshot(uri);
+    }
+  }
+
+  /**
+   * Remove a session's subscription to a resource
+   */
+  public unsubscribe(uri: string, server: Server): void {
+    const subscribers = this.subscriptions.get(uri);
+    if (!subscribers) {
+      return;
+    }
+
+    subscribers.delete(server);
+    if (subscribers.size === 0) {
+      this.subscriptions.delete(uri);
+      this.snapshots.delete(uri);
+    }
+    this.logger.info('Resource unsubscribed', { uri, subscribers: subscribers.size });
+  }
+
+  /**
+   * Drop every subscription held by a session (e.g. when it closes)
+   */
+  public removeServer(server: Server): void {
+    Array.from(this.subscriptions.keys()).forEach((uri) => this.unsubscribe(uri, server));
+  }
+
+  /**
+   * Schedule polling after each daily data update
+   */
+  public start(): void {
+    this.scheduleNextPoll();
+  }
+
+  /**
+   * Stop polling and clear all subscriptions
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.subscriptions.clear();
+    this.snapshots.clear();
+  }
+
+  /**
+   * Subscription counts for health output
+   */
+  public getStats(): { resources: number; subscribers: number } {
+    let subscribers = 0;
+    this.subscriptions.forEach((servers) => {
+      subscribers += servers.size;
+    });
+    return { resources: this.subscriptions.size, subscribers };
+  }
+
+  /**
+   * Milliseconds until the next poll: shortly after the current or next update window closes
+   */
+  public getNextPollDelay(): number {
+    const now = getCurrentSEATime();
+
+    if (isDuringDataUpdate()) {
+      const windowEnd = new Date(now);
+      windowEnd.setHours(9, 30, 0, 0);
+      return Math.max(0, windowEnd.getTime() - now.getTime()) + this.settleDelayMs;
+    }
+
+    return (
+      getNextDataUpdate().getTime() + DATA_UPDATE_WINDOW_MS + this.settleDelayMs - now.getTime()
+    );
+  }
+
+  /**
+   * Re-read every subscribed resource and notify subscribers of the ones that changed
+   */
+  public async pollNow(): Promise<string[]> {
+    if (this.polling) {
+      return [];
+    }
+
+    this.polling = true;
+    const changed: string[] = [];
+
+    try {
+      for (const uri of Array.from(this.subscriptions.keys())) {
+        const previous = this.snapshots.get(uri);
+        const current = await this.takeSnapshot(uri, true);
+
+        if (current !== null && previous !== undefined && current !== previous) {
+          changed.push(uri);
+          await this.notify(uri);
+        }
+      }
+
+      this.logger.info('Subscribed resources polled', {
+        resources: this.subscriptions.size,
+        changed: changed.length,
+      });
+    } finally {
+      this.polling = false;
+    }
+
+    return changed;
+  }
+
+  private scheduleNextPoll(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+
+    const delay = this.getNextPollDelay();
+    this.timer = setTimeout(() => {
+      this.pollNow()
+        .catch((error) => {
+          this.logger.error('Subscription poll failed', {
+            error: error instanceof Error ? error.message : String(error),
+          });
+        })
+        .finally(() => this.scheduleNextPoll());
+    }, delay);
+    // Polling alone should not keep the process alive
+    this.timer.unref();
+
+    this.logger.debug('Next subscription poll scheduled', { delayMs: delay });
+  }
+
+  /**
+   * Read a resource and store its fingerprint. Returns null when the read fails. Polls read
+   * fresh from the API: a cache entry from before the update, or a stale one served while it
+   * refreshes, would hide the change.
+   */
+  private async takeSnapshot(uri: string, fresh = false): Promise<string | null> {
+    try {
+      const read = () => this.resources.read(uri, this.context);
+      const result = fresh ? await this.context.nexonClient.withFreshReads(read) : await read();
+      const text = result?.contents[0]?.text;
+      if (typeof text !== 'string') {
+        return null;
+      }
+
+      const snapshot = fingerprint(JSON.parse(text));
+      this.snapshots.set(uri, snapshot);
+      return snapshot;
+    } catch (error) {
+      this.logger.warn('Failed to snapshot subscribed resource', {
+        uri,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  private async notify(uri: string): Promise<void> {
+    const subscribers = Array.from(this.subscriptions.get(uri) ?? []);
+
+    await Promise.all(
+      subscribers.map(async (server) => {
+        try {
+          await server.sendResourceUpdated({ uri });
+        } catch (error) {
+          // The session has gone away; stop notifying it
+          this.logger.warn('Failed to notify subscriber, removing it', {
+            uri,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          this.removeServer(server);
+        }
+      })
+    );
+
+    this.logger.info('Resource update notified', { uri, subscribers: subscribers.length });
+  }
+}
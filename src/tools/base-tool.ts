@@ -6,11 +6,17 @@
 import { JSONSchema7 } from 'json-schema';
 import Ajv from 'ajv';
 import { NexonApiClient } from '../api/nexon-client';
+import { ScanProgress } from '../api/types';
 import { McpLogger } from '../utils/logger';
+import { StaleDataNotice, trackStaleData } from '../utils/data-freshness';
 
 export interface ToolContext {
   nexonClient: NexonApiClient;
   logger: McpLogger;
+  /** Aborted when the client cancels the tool call */
+  signal?: AbortSignal;
+  /** Reports progress to the client when it asked for progress notifications */
+  onProgress?: (progress: ScanProgress) => void;
 }
 
 export interface ToolResult {
@@ -21,10 +27,79 @@ export interface ToolResult {
     executionTime?: number;
     cacheHit?: boolean;
     apiCalls?: number;
+    /** Some data came from an expired cache entry */
+    stale?: boolean;
+    staleData?: StaleDataNotice[];
     [key: string]: any;
   };
 }
 
+/**
+ * Build the output JSON schema for a tool: the ToolResult envelope with the
+ * tool's own schema for `data`
+ */
+export function createOutputSchema(dataSchema: JSONSchema7 = {}): JSONSchema7 {
+  return {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean', description: 'Whether the tool call succeeded' },
+      data: dataSchema,
+      error: { type: 'string', description: 'Error message when success is false' },
+      errorDetails: { type: 'object', description: 'Structured error information' },
+      metadata: {
+        type: 'object',
+        properties: {
+          executionTime: { type: 'number' },
+          cacheHit: { type: 'boolean' },
+          apiCalls: { type: 'number' },
+          stale: {
+            type: 'boolean',
+            description: 'Some data came from an expired cache entry',
+          },
+          staleData: {
+            type: 'array',
+            description:
+              'Stale cache entries served and why (revalidating, api_error, circuit_open)',
+            items: { type: 'object' },
+          },
+        },
+      },
+    },
+    required: ['success'],
+  };
+}
+
+/**
+ * Check whether a value returned by a tool is a ToolResult
+ */
+export function isToolResult(value: unknown): value is ToolResult {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as ToolResult).success === 'boolean'
+  );
+}
+
+// Limits for the text summary returned alongside structured content
+const SUMMARY_MAX_FIELDS = 10;
+const SUMMARY_MAX_VALUE_LENGTH = 80;
+
+/**
+ * Describe a single value for the text summary
+ */
+function summarizeValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.length} items]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return `{${Object.keys(value).length} fields}`;
+  }
+  const text = String(value);
+  return text.length > SUMMARY_MAX_VALUE_LENGTH
+    ? `${text.slice(0, SUMMARY_MAX_VALUE_LENGTH)}…`
+    : text;
+}
+
 /**
  * Base interface for all MCP tools
  */
@@ -32,6 +107,7 @@ export interface ITool {
   readonly name: string;
   readonly description: string;
   readonly inputSchema: JSONSchema7;
+  readonly outputSchema: JSONSchema7;
 
   execute(args: Record<string, any>, context: ToolContext): Promise<any>;
   validate(args: Record<string, any>): boolean;
@@ -46,8 +122,21 @@ export abstract class BaseTool implements ITool {
   public abstract readonly description: string;
   public abstract readonly inputSchema: JSONSchema7;
 
+  /**
+   * Schema for the `data` field of successful results. Override in subclasses to
+   * describe the tool's output; the default accepts any data.
+   */
+  protected readonly dataSchema: JSONSchema7 = {};
+
   private static ajv = new Ajv({ allErrors: true });
 
+  /**
+   * Output schema advertised in tools/list and matched by structuredContent
+   */
+  public get outputSchema(): JSONSchema7 {
+    return createOutputSchema(this.dataSchema);
+  }
+
   /**
    * Execute the tool with given arguments
    */
@@ -65,16 +154,20 @@ export abstract class BaseTool implements ITool {
         arguments: args,
       });
 
-      // Execute the tool-specific logic
-      const result = await this.executeImpl(args, context);
+      // Execute the tool-specific logic, noting any stale cached data it was given
+      const { result, stale } = await trackStaleData(() => this.executeImpl(args, context));
 
       const executionTime = Date.now() - startTime;
       context.logger.info(`Tool execution completed: ${this.name}`, {
         toolName: this.name,
         executionTime,
         success: true,
+        ...(stale.length > 0 && { staleData: stale.length }),
       });
 
+      if (stale.length > 0 && isToolResult(result)) {
+        return { ...result, metadata: { ...result.metadata, stale: true, staleData: stale } };
+      }
       return result;
     } catch (error) {
       const executionTime = Date.now() - startTime;
@@ -160,6 +253,33 @@ export abstract class BaseTool implements ITool {
     };
   }
 
+  /**
+   * Concise human-readable summary of a result, sent as text content alongside the
+   * structured result. Override in subclasses for a tool-specific summary.
+   */
+  public summarize(result: ToolResult): string {
+    if (!result.success) {
+      return `Error: ${result.error ?? 'Unknown error occurred'}`;
+    }
+
+    const lines = [`${this.name} succeeded`];
+    const data = result.data;
+
+    if (typeof data === 'object' && data !== null && !Array.isArray(data)) {
+      const entries = Object.entries(data).filter(([, value]) => value !== undefined);
+      entries.slice(0, SUMMARY_MAX_FIELDS).forEach(([key, value]) => {
+        lines.push(`${key}: ${summarizeValue(value)}`);
+      });
+      if (entries.length > SUMMARY_MAX_FIELDS) {
+        lines.push(`… ${entries.length - SUMMARY_MAX_FIELDS} more fields`);
+      }
+    } else if (data !== undefined) {
+      lines.push(summarizeValue(data));
+    }
+
+    return lines.join('\n');
+  }
+
   /**
    * Helper method to safely get required string parameter
    */
@@ -315,6 +435,26 @@ export enum ToolCategory {
   SYSTEM = 'system',
 }
 
+/**
+ * Behaviour hints advertised to clients in tools/list
+ */
+export interface ToolAnnotations {
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  openWorldHint?: boolean;
+}
+
+/**
+ * Default annotations: tools only read game data from the NEXON Open API
+ */
+const DEFAULT_TOOL_ANNOTATIONS: Required<ToolAnnotations> = {
+  readOnlyHint: true,
+  destructiveHint: false,
+  idempotentHint: true,
+  openWorldHint: true,
+};
+
 /**
  * Tool metadata interface
  */
@@ -329,12 +469,14 @@ export interface ToolMetadata {
     requestsPerMinute: number;
     burstLimit: number;
   };
+  annotations?: ToolAnnotations;
 }
 
 /**
  * Enhanced tool interface with metadata
  */
 export interface IEnhancedTool extends ITool {
+  readonly title: string;
   readonly metadata: ToolMetadata;
 }
 
@@ -342,5 +484,17 @@ export interface IEnhancedTool extends ITool {
  * Enhanced base tool class with metadata support
  */
 export abstract class EnhancedBaseTool extends BaseTool implements IEnhancedTool {
+  public abstract readonly title: string;
   public abstract readonly metadata: ToolMetadata;
+
+  /**
+   * Annotations for tools/list, with metadata overrides applied to the defaults
+   */
+  public getAnnotations(): Required<ToolAnnotations> & { title: string } {
+    return {
+      title: this.title,
+      ...DEFAULT_TOOL_ANNOTATIONS,
+      ...this.metadata.annotations,
+    };
+  }
 }
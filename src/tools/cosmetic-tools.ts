@@ -0,0 +1,358 @@
+/**
+ * Cosmetic Tools for MCP Maple
+ * Provides MCP tools for retrieving MapleStory SEA pets, androids, cash outfits and beauty styles
+ */
+
+import { JSONSchema7 } from 'json-schema';
+import { EnhancedBaseTool, ToolContext, ToolResult, ToolCategory } from './base-tool';
+import {
+  AndroidEquipment,
+  BeautyEquipment,
+  BeautyStyle,
+  CashItem,
+  CashItemEquipment,
+  PetEquipment,
+} from '../api/types';
+import { formatSEADate, getCurrentSEADate } from '../utils/server-utils';
+
+const COSMETIC_SECTIONS = ['pets', 'android', 'cash', 'beauty'] as const;
+type CosmeticSection = (typeof COSMETIC_SECTIONS)[number];
+
+/**
+ * Format a hair/face style with its dye colours
+ */
+function formatBeautyStyle(style: BeautyStyle | null | undefined) {
+  if (!style || !(style.hair_name || style.face_name)) {
+    return null;
+  }
+
+  return {
+    name: style.hair_name || style.face_name,
+    baseColor: style.base_color,
+    mixColor: style.mix_color,
+    mixRate: style.mix_rate,
+  };
+}
+
+/**
+ * Format a cash item for display
+ */
+function formatCashItem(item: CashItem) {
+  return {
+    part: item.cash_item_equipment_part,
+    slot: item.cash_item_equipment_slot,
+    name: item.cash_item_name,
+    label: item.cash_item_label,
+    options: (item.cash_item_option || []).map(
+      (option) => `${option.option_type}: ${option.option_value}`
+    ),
+    dateExpire: item.date_expire ? formatSEADate(item.date_expire) : null,
+  };
+}
+
+/**
+ * Format the equipped pets (up to three slots)
+ */
+function formatPets(petEquipment: PetEquipment) {
+  return ([1, 2, 3] as const)
+    .map((slot) => {
+      const name = petEquipment[`pet_${slot}_name`];
+      if (!name) {
+        return null;
+      }
+
+      const autoSkill = petEquipment[`pet_${slot}_auto_skill`];
+      const expire = petEquipment[`pet_${slot}_date_expire`];
+      return {
+        slot,
+        name,
+        nickname: petEquipment[`pet_${slot}_nickname`],
+        petType: petEquipment[`pet_${slot}_pet_type`],
+        appearance: petEquipment[`pet_${slot}_appearance`],
+        dateExpire: expire ? formatSEADate(expire) : null,
+        skills: petEquipment[`pet_${slot}_skill`] || [],
+        autoBuffSkills: [autoSkill?.skill_1, autoSkill?.skill_2].filter((skill) => !!skill),
+        equipment: (petEquipment[`pet_${slot}_equipment`] || []).map((item) => ({
+          name: item.item_name,
+          shape: item.item_shape,
+          scrollUpgrade: item.scroll_upgrade,
+          scrollUpgradeable: item.scroll_upgradeable,
+          options: (item.item_option || []).map(
+            (option) => `${option.option_type}: ${option.option_value}`
+          ),
+        })),
+      };
+    })
+    .filter((pet) => pet !== null);
+}
+
+/**
+ * Format the equipped android with its own outfit and beauty
+ */
+function formatAndroid(android: AndroidEquipment) {
+  if (!android.android_name) {
+    return null;
+  }
+
+  return {
+    name: android.android_name,
+    nickname: android.android_nickname,
+    grade: android.android_grade,
+    gender: android.android_gender,
+    skin: android.android_skin_name,
+    hair: formatBeautyStyle(android.android_hair),
+    face: formatBeautyStyle(android.android_face),
+    earSensorClip: android.android_ear_sensor_clip_flag === 'true',
+    cashEquipment: (android.android_cash_item_equipment || []).map((item) => ({
+      part: item.cash_item_equipment_part,
+      slot: item.cash_item_equipment_slot,
+      name: item.cash_item_name,
+    })),
+    nonCashEquipment: (android.android_non_cash_item_equipment || []).map((item) => ({
+      part: item.non_cash_item_equipment_part,
+      slot: item.non_cash_item_equipment_slot,
+      name: item.non_cash_item_name,
+    })),
+  };
+}
+
+/**
+ * Format the cash outfit, including each preset and the active one
+ */
+function formatCashOutfit(cashItems: CashItemEquipment) {
+  const presets = [
+    cashItems.cash_item_equipment_preset_1,
+    cashItems.cash_item_equipment_preset_2,
+    cashItems.cash_item_equipment_preset_3,
+  ].map((items, index) => ({
+    presetNo: index + 1,
+    active: cashItems.preset_no === index + 1,
+    items: (items || []).map(formatCashItem),
+  }));
+
+  const additionalBase = cashItems.additional_cash_item_equipment_base || [];
+
+  return {
+    activePreset: cashItems.preset_no ?? null,
+    lookMode: cashItems.character_look_mode,
+    base: (cashItems.cash_item_equipment_base || []).map(formatCashItem),
+    presets,
+    // Second look (e.g. Zero's Beta or Angelic Buster's dressed-up form)
+    additionalBase: additionalBase.length > 0 ? additionalBase.map(formatCashItem) : undefined,
+  };
+}
+
+/**
+ * Format the character's own hair, face and skin
+ */
+function formatBeauty(beauty: BeautyEquipment) {
+  const additionalHair = formatBeautyStyle(beauty.additional_character_hair);
+  const additionalFace = formatBeautyStyle(beauty.additional_character_face);
+
+  return {
+    hair: formatBeautyStyle(beauty.character_hair),
+    face: formatBeautyStyle(beauty.character_face),
+    skin: beauty.character_skin_name,
+    additional:
+      additionalHair || additionalFace || beauty.additional_character_skin_name
+        ? {
+            hair: additionalHair,
+            face: additionalFace,
+            skin: beauty.additional_character_skin_name,
+          }
+        : undefined,
+  };
+}
+
+/**
+ * Tool for getting a character's pets, android, cash outfit and beauty styles
+ */
+export class GetCharacterCosmeticsTool extends EnhancedBaseTool {
+  public readonly name = 'get_character_cosmetics';
+  public readonly title = 'Character Cosmetics';
+  public readonly description =
+    'Retrieve cosmetic equipment for a MapleStory SEA character including pets with skills and auto-buffs, android with its outfit, cash outfit presets and hair/face';
+
+  public readonly inputSchema: JSONSchema7 = {
+    type: 'object',
+    properties: {
+      characterName: {
+        type: 'string',
+        description: 'The name of the character to look up',
+        minLength: 1,
+        maxLength: 12,
+        pattern: '^[a-zA-Z0-9]+$',
+      },
+      sections: {
+        type: 'array',
+        description: 'Cosmetic sections to include (optional, defaults to all sections)',
+        items: {
+          type: 'string',
+          enum: [...COSMETIC_SECTIONS],
+        },
+        uniqueItems: true,
+        minItems: 1,
+      },
+      date: {
+        type: 'string',
+        description:
+          'Date for cosmetic data in YYYY-MM-DD format (optional, defaults to yesterday)',
+        pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+      },
+    },
+    required: ['characterName'],
+    additionalProperties: false,
+  };
+
+  protected readonly dataSchema: JSONSchema7 = {
+    type: 'object',
+    properties: {
+      characterName: { type: 'string' },
+      characterClass: { type: 'string' },
+      date: { type: 'string', description: 'Snapshot date (DD/MM/YYYY)' },
+      pets: {
+        type: 'array',
+        description: 'Equipped pets with their equipment and auto skills',
+        items: { type: 'object' },
+      },
+      android: { type: ['object', 'null'], description: 'Null when no android is equipped' },
+      cashOutfit: {
+        type: 'object',
+        properties: {
+          activePreset: { type: ['number', 'null'] },
+          lookMode: { type: ['string', 'null'] },
+          base: { type: 'array', items: { type: 'object' } },
+          presets: { type: 'array', items: { type: 'object' } },
+          additionalBase: { type: 'array', items: { type: 'object' } },
+        },
+      },
+      beauty: {
+        type: 'object',
+        description: 'Hair, face and skin, plus the second look where the class has one',
+      },
+      unavailableSections: {
+        type: 'array',
+        description: 'Requested sections the API could not return',
+        items: { type: 'string', enum: ['pets', 'android', 'cash', 'beauty'] },
+      },
+      summary: {
+        type: 'object',
+        properties: {
+          petCount: { type: 'number' },
+          hasAndroid: { type: 'boolean' },
+          activeOutfitPreset: { type: ['number', 'null'] },
+          hair: { type: ['string', 'null'] },
+          face: { type: ['string', 'null'] },
+        },
+      },
+    },
+    required: ['characterName', 'date', 'unavailableSections', 'summary'],
+  };
+
+  public readonly metadata = {
+    category: ToolCategory.CHARACTER,
+    tags: ['character', 'cosmetics', 'pets', 'android', 'cash items', 'beauty', 'fashion'],
+    examples: [
+      {
+        description: 'Get all cosmetics for character',
+        arguments: { characterName: 'AquilaHero' },
+      },
+      {
+        description: 'Get only pets and android for character',
+        arguments: { characterName: 'AquilaHero', sections: ['pets', 'android'] },
+      },
+    ],
+  };
+
+  protected async executeImpl(
+    args: Record<string, any>,
+    context: ToolContext
+  ): Promise<ToolResult> {
+    const characterName = this.getRequiredString(args, 'characterName');
+    const date = this.getOptionalString(args, 'date');
+    const sections: CosmeticSection[] = Array.isArray(args.sections)
+      ? args.sections
+      : [...COSMETIC_SECTIONS];
+
+    try {
+      const startTime = Date.now();
+
+      // Get character OCID first
+      context.logger.info('Looking up character OCID for cosmetics', { characterName });
+      const ocidResult = await context.nexonClient.getCharacterOcid(characterName);
+      const ocid = ocidResult.ocid;
+
+      // Get the requested sections in parallel; a failed section is reported as unavailable
+      context.logger.info('Fetching character cosmetics', { characterName, ocid, sections });
+      const include = (section: CosmeticSection) => sections.includes(section);
+      const [petEquipment, androidEquipment, cashItems, beauty] = await Promise.all([
+        include('pets')
+          ? context.nexonClient.getCharacterPetEquipment(ocid, date).catch(() => null)
+          : null,
+        include('android')
+          ? context.nexonClient.getCharacterAndroidEquipment(ocid, date).catch(() => null)
+          : null,
+        include('cash')
+          ? context.nexonClient.getCharacterCashItemEquipment(ocid, date).catch(() => null)
+          : null,
+        include('beauty')
+          ? context.nexonClient.getCharacterBeautyEquipment(ocid, date).catch(() => null)
+          : null,
+      ]);
+
+      const executionTime = Date.now() - startTime;
+
+      const fetched = { pets: petEquipment, android: androidEquipment, cash: cashItems, beauty };
+      const unavailable = sections.filter((section) => fetched[section] === null);
+      if (unavailable.length === sections.length) {
+        throw new Error('No cosmetic data is available for this character');
+      }
+
+      const pets = petEquipment ? formatPets(petEquipment) : undefined;
+      const android = androidEquipment ? formatAndroid(androidEquipment) : undefined;
+
+      context.logger.info('Character cosmetics retrieved successfully', {
+        characterName,
+        sections,
+        unavailable,
+        executionTime,
+      });
+
+      return this.formatResult(
+        {
+          characterName,
+          characterClass: cashItems?.character_class || beauty?.character_class,
+          date: date ? formatSEADate(date) : getCurrentSEADate(),
+          pets,
+          android,
+          cashOutfit: cashItems ? formatCashOutfit(cashItems) : undefined,
+          beauty: beauty ? formatBeauty(beauty) : undefined,
+          unavailableSections: unavailable,
+          summary: {
+            petCount: pets?.length ?? 0,
+            hasAndroid: !!android,
+            activeOutfitPreset: cashItems?.preset_no ?? null,
+            hair: beauty ? formatBeautyStyle(beauty.character_hair)?.name : undefined,
+            face: beauty ? formatBeautyStyle(beauty.character_face)?.name : undefined,
+          },
+        },
+        {
+          executionTime,
+          cacheHit: false,
+          apiCalls: 1 + sections.length, // OCID lookup + one call per section
+        }
+      );
+    } catch (error) {
+      context.logger.error('Failed to get character cosmetics', {
+        characterName,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      return this.formatError(
+        `Failed to get cosmetics for character "${characterName}": ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+}
@@ -12,6 +12,7 @@ import { formatSEADate, formatSEANumber, getCurrentSEADate } from '../utils/serv
  */
 export class GetGuildInfoTool extends EnhancedBaseTool {
   public readonly name = 'get_guild_info';
+  public readonly title = 'Guild Info';
   public readonly description =
     'Retrieve basic information about a MapleStory SEA guild including level, members, and skills';
 
@@ -39,6 +40,30 @@ export class GetGuildInfoTool extends EnhancedBaseTool {
     additionalProperties: false,
   };
 
+  protected readonly dataSchema: JSONSchema7 = {
+    type: 'object',
+    properties: {
+      guildName: { type: 'string' },
+      worldName: { type: 'string' },
+      level: { type: 'number' },
+      fame: { type: 'number' },
+      point: { type: 'number' },
+      masterName: { type: 'string' },
+      memberCount: { type: 'number' },
+      members: { type: 'array', items: { type: 'string' } },
+      skills: {
+        type: 'object',
+        properties: {
+          regular: { type: 'array', items: { type: 'object' } },
+          noblesse: { type: 'array', items: { type: 'object' } },
+          totalSkills: { type: 'number' },
+        },
+      },
+      date: { type: 'string', description: 'Snapshot date, or latest' },
+    },
+    required: ['guildName', 'worldName', 'members', 'skills', 'date'],
+  };
+
   public readonly metadata = {
     category: ToolCategory.GUILD,
     tags: ['guild', 'info', 'members', 'skills', 'level'],
@@ -147,6 +172,7 @@ export class GetGuildInfoTool extends EnhancedBaseTool {
  */
 export class SearchGuildsTool extends EnhancedBaseTool {
   public readonly name = 'search_guilds';
+  public readonly title = 'Search Guilds';
   public readonly description =
     'Search for guilds using fuzzy matching to find similar guild names and provide comprehensive guild information';
 
@@ -181,6 +207,30 @@ export class SearchGuildsTool extends EnhancedBaseTool {
     additionalProperties: false,
   };
 
+  protected readonly dataSchema: JSONSchema7 = {
+    type: 'object',
+    properties: {
+      searchTerm: { type: 'string' },
+      worldName: { type: 'string' },
+      resultsCount: { type: 'number' },
+      maxResults: { type: 'number' },
+      includeDetails: { type: 'boolean' },
+      results: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            guildName: { type: 'string' },
+            guildId: { type: 'string' },
+            matchScore: { type: 'number' },
+            guildInfo: { type: 'object', description: 'Guild basic info as returned by the API' },
+          },
+        },
+      },
+    },
+    required: ['searchTerm', 'worldName', 'resultsCount', 'results'],
+  };
+
   public readonly metadata = {
     category: ToolCategory.GUILD,
     tags: ['guild', 'search', 'fuzzy', 'find', 'discovery'],
@@ -262,6 +312,7 @@ export class SearchGuildsTool extends EnhancedBaseTool {
  */
 export class GetGuildRankingTool extends EnhancedBaseTool {
   public readonly name = 'get_guild_ranking';
+  public readonly title = 'Guild Ranking';
   public readonly description = 'Retrieve guild rankings for a specific world or overall rankings';
 
   public readonly inputSchema: JSONSchema7 = {
@@ -295,6 +346,44 @@ export class GetGuildRankingTool extends EnhancedBaseTool {
     additionalProperties: false,
   };
 
+  protected readonly dataSchema: JSONSchema7 = {
+    type: 'object',
+    properties: {
+      page: { type: 'number' },
+      pageSize: { type: 'number' },
+      worldName: { type: 'string' },
+      searchGuild: { type: 'string' },
+      date: { type: 'string', description: 'Ranking date, or latest' },
+      rankings: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            rank: { type: 'number' },
+            guildName: { type: 'string' },
+            world: { type: 'string' },
+            level: { type: 'number' },
+            masterName: { type: 'string' },
+            guildMark: { type: ['string', 'null'] },
+            guildPoint: { type: 'number' },
+            date: { type: 'string' },
+          },
+        },
+      },
+      summary: {
+        type: 'object',
+        properties: {
+          totalResults: { type: 'number' },
+          topLevel: { type: 'number' },
+          averageLevel: { type: 'number' },
+          topGuildPoint: { type: 'number' },
+          worldDistribution: { type: 'object', description: 'Guilds per world' },
+        },
+      },
+    },
+    required: ['page', 'pageSize', 'worldName', 'date', 'rankings', 'summary'],
+  };
+
   public readonly metadata = {
     category: ToolCategory.GUILD,
     tags: ['guild', 'ranking', 'leaderboard', 'level'],
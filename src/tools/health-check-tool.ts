@@ -22,6 +22,7 @@ import {
 
 export class HealthCheckTool extends EnhancedBaseTool {
   public readonly name = 'health_check';
+  public readonly title = 'Server Health Check';
   public readonly description =
     'Check the comprehensive health status of the MapleStory SEA MCP server and all its components';
 
@@ -49,6 +50,23 @@ export class HealthCheckTool extends EnhancedBaseTool {
     additionalProperties: false,
   };
 
+  protected readonly dataSchema: JSONSchema7 = {
+    type: 'object',
+    properties: {
+      status: {
+        type: 'string',
+        enum: ['healthy', 'degraded', 'unhealthy', 'unknown'],
+        description: 'unknown until the first full check has run',
+      },
+      uptime: { type: 'number' },
+      timestamp: { type: 'string' },
+      mode: { type: 'string', enum: ['quick', 'full', 'component'] },
+      details: { type: 'object', description: 'Per-component health results' },
+      seaSchedules: { type: 'object', description: 'SEA reset and data update schedules' },
+    },
+    required: ['status', 'mode'],
+  };
+
   public readonly metadata: ToolMetadata = {
     category: ToolCategory.SYSTEM,
     tags: ['health', 'monitoring', 'status', 'diagnostics', 'system'],
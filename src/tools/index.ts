@@ -4,7 +4,14 @@
  */
 
 export { BaseTool, CharacterTool, GuildTool, EnhancedBaseTool } from './base-tool';
-export type { ITool, IEnhancedTool, ToolContext, ToolResult, ToolMetadata } from './base-tool';
+export type {
+  ITool,
+  IEnhancedTool,
+  ToolContext,
+  ToolResult,
+  ToolMetadata,
+  ToolAnnotations,
+} from './base-tool';
 export { ToolCategory } from './base-tool';
 
 // Utility tools
@@ -19,18 +26,45 @@ export {
   GetCharacterAnalysisTool,
   FindCharacterRankingTool,
   GetJobClassInfoTool,
+  GetCharacterDojangTool,
+  GetCharacterTraitsAbilityTool,
+  GetCharacterHyperStatsTool,
+  GetCharacterSetEffectsTool,
 } from './character-tools';
 
+// Matrix tools
+export { GetCharacterVMatrixTool, GetCharacterHexaMatrixTool } from './matrix-tools';
+
+// Skill tools
+export { GetCharacterSkillsTool, GetCharacterLinkSkillsTool } from './skill-tools';
+
+// Symbol tools
+export { GetCharacterSymbolsTool } from './symbol-tools';
+
+// Cosmetic tools
+export { GetCharacterCosmeticsTool } from './cosmetic-tools';
+
 // Union tools
-export { GetUnionInfoTool, GetUnionRaiderTool, GetUnionRankingTool } from './union-tools';
+export {
+  GetUnionInfoTool,
+  GetUnionRaiderTool,
+  GetUnionRankingTool,
+  GetUnionArtifactTool,
+} from './union-tools';
 
 // Guild tools
 export { GetGuildInfoTool, GetGuildRankingTool, SearchGuildsTool } from './guild-tools';
 
 // Ranking tools (SEA API compatible only)
-export { GetOverallRankingTool } from './ranking-tools';
+export {
+  GetOverallRankingTool,
+  GetDojangRankingTool,
+  GetTheSeedRankingTool,
+  GetAchievementRankingTool,
+} from './ranking-tools';
 
 // Import all tools
+import { ToolCategory } from './base-tool';
 import { HealthCheckTool } from './health-check-tool';
 import {
   GetCharacterBasicInfoTool,
@@ -40,14 +74,33 @@ import {
   GetCharacterAnalysisTool,
   FindCharacterRankingTool,
   GetJobClassInfoTool,
+  GetCharacterDojangTool,
+  GetCharacterTraitsAbilityTool,
+  GetCharacterHyperStatsTool,
+  GetCharacterSetEffectsTool,
 } from './character-tools';
-import { GetUnionInfoTool, GetUnionRaiderTool, GetUnionRankingTool } from './union-tools';
+import { GetCharacterVMatrixTool, GetCharacterHexaMatrixTool } from './matrix-tools';
+import { GetCharacterSkillsTool, GetCharacterLinkSkillsTool } from './skill-tools';
+import { GetCharacterSymbolsTool } from './symbol-tools';
+import { GetCharacterCosmeticsTool } from './cosmetic-tools';
+import {
+  GetUnionInfoTool,
+  GetUnionRaiderTool,
+  GetUnionRankingTool,
+  GetUnionArtifactTool,
+} from './union-tools';
 import { GetGuildInfoTool, GetGuildRankingTool, SearchGuildsTool } from './guild-tools';
-import { GetOverallRankingTool } from './ranking-tools';
+import {
+  GetOverallRankingTool,
+  GetDojangRankingTool,
+  GetTheSeedRankingTool,
+  GetAchievementRankingTool,
+} from './ranking-tools';
 
-// Tool factory for creating all available tools (SEA API compatible only)
-export function createAllTools() {
-  return [
+// Tool factory for creating all available tools (SEA API compatible only).
+// Pass categories to expose only those tools (e.g. a ranking-only deployment).
+export function createAllTools(categories?: ToolCategory[]) {
+  const tools = [
     new HealthCheckTool(),
     new GetCharacterBasicInfoTool(),
     new GetCharacterStatsTool(),
@@ -56,12 +109,31 @@ export function createAllTools() {
     new GetCharacterAnalysisTool(),
     new FindCharacterRankingTool(),
     new GetJobClassInfoTool(),
+    new GetCharacterDojangTool(),
+    new GetCharacterTraitsAbilityTool(),
+    new GetCharacterHyperStatsTool(),
+    new GetCharacterSetEffectsTool(),
+    new GetCharacterVMatrixTool(),
+    new GetCharacterHexaMatrixTool(),
+    new GetCharacterSkillsTool(),
+    new GetCharacterLinkSkillsTool(),
+    new GetCharacterSymbolsTool(),
+    new GetCharacterCosmeticsTool(),
     new GetUnionInfoTool(),
     new GetUnionRaiderTool(),
     new GetUnionRankingTool(),
+    new GetUnionArtifactTool(),
     new GetGuildInfoTool(),
     new GetGuildRankingTool(),
     new SearchGuildsTool(),
     new GetOverallRankingTool(),
+    new GetDojangRankingTool(),
+    new GetTheSeedRankingTool(),
+    new GetAchievementRankingTool(),
   ];
+
+  if (!categories || categories.length === 0) {
+    return tools;
+  }
+  return tools.filter((tool) => categories.includes(tool.metadata.category));
 }
@@ -0,0 +1,453 @@
+/**
+ * Matrix Tools for MCP Maple
+ * Provides MCP tools for retrieving MapleStory SEA V Matrix (5th job) and HEXA Matrix (6th job) data
+ */
+
+import { JSONSchema7 } from 'json-schema';
+import { EnhancedBaseTool, ToolContext, ToolResult, ToolCategory } from './base-tool';
+import { HexaMatrix, HexaMatrixStat, VMatrix } from '../api/types';
+import { formatSEADate, formatSEANumber, getCurrentSEADate } from '../utils/server-utils';
+
+type VCoreCategory = 'enhancement' | 'skill' | 'special' | 'unknown';
+type HexaCore = HexaMatrix['character_hexa_core_equipment'][number];
+type HexaStatCore = HexaMatrixStat['character_hexa_stat_core'][number];
+
+/**
+ * Classify a V core type string into enhancement / skill / special
+ */
+function classifyVCoreType(coreType: string | null | undefined): VCoreCategory {
+  const normalized = (coreType || '').toLowerCase();
+
+  if (normalized.includes('enhance') || normalized.includes('강화')) {
+    return 'enhancement';
+  }
+  if (normalized.includes('special') || normalized.includes('특수')) {
+    return 'special';
+  }
+  if (normalized.includes('skill') || normalized.includes('스킬')) {
+    return 'skill';
+  }
+  return 'unknown';
+}
+
+/**
+ * Build a comparable signature for a list of HEXA cores
+ */
+function hexaCoreSignature(cores: HexaCore[] | null | undefined): string {
+  return (cores || [])
+    .map((core) => `${core.hexa_core_name}:${core.hexa_core_level}`)
+    .sort()
+    .join('|');
+}
+
+/**
+ * Format a HEXA core for display
+ */
+function formatHexaCore(core: HexaCore) {
+  return {
+    name: core.hexa_core_name,
+    type: core.hexa_core_type,
+    level: core.hexa_core_level,
+    linkedSkills: (core.linked_skill || []).map((skill) => skill.hexa_skill_id),
+  };
+}
+
+/**
+ * Format a HEXA stat core for display
+ */
+function formatHexaStatCore(core: HexaStatCore) {
+  return {
+    slotId: core.slot_id,
+    grade: core.stat_grade,
+    mainStat: { name: core.main_stat_name, level: core.main_stat_level },
+    subStats: [
+      { name: core.sub_stat_name_1, level: core.sub_stat_level_1 },
+      { name: core.sub_stat_name_2, level: core.sub_stat_level_2 },
+    ].filter((stat) => !!stat.name),
+    totalLevel: core.main_stat_level + core.sub_stat_level_1 + core.sub_stat_level_2,
+  };
+}
+
+/**
+ * Tool for getting V Matrix (5th job) core information
+ */
+export class GetCharacterVMatrixTool extends EnhancedBaseTool {
+  public readonly name = 'get_character_v_matrix';
+  public readonly title = 'Character V Matrix';
+  public readonly description =
+    'Retrieve V Matrix (5th job) core information for a MapleStory SEA character including equipped cores per slot and remaining slot upgrade points';
+
+  public readonly inputSchema: JSONSchema7 = {
+    type: 'object',
+    properties: {
+      characterName: {
+        type: 'string',
+        description: 'The name of the character to look up',
+        minLength: 1,
+        maxLength: 12,
+        pattern: '^[a-zA-Z0-9]+$',
+      },
+      date: {
+        type: 'string',
+        description:
+          'Date for V Matrix data in YYYY-MM-DD format (optional, defaults to yesterday)',
+        pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+      },
+    },
+    required: ['characterName'],
+    additionalProperties: false,
+  };
+
+  protected readonly dataSchema: JSONSchema7 = {
+    type: 'object',
+    properties: {
+      characterName: { type: 'string' },
+      characterClass: { type: 'string' },
+      date: { type: 'string', description: 'Snapshot date (DD/MM/YYYY)' },
+      slots: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            slotId: { type: 'string' },
+            slotLevel: { type: 'number' },
+            empty: { type: 'boolean' },
+            coreName: { type: ['string', 'null'] },
+            coreType: {
+              type: ['string', 'null'],
+              enum: ['enhancement', 'skill', 'special', 'unknown', null],
+            },
+            coreLevel: { type: 'number' },
+            skills: { type: 'array', items: { type: 'string' } },
+          },
+        },
+      },
+      coresByType: {
+        type: 'object',
+        description: 'Equipped slots grouped into enhancement, skill, special and unknown',
+      },
+      summary: {
+        type: 'object',
+        properties: {
+          totalSlots: { type: 'number' },
+          equippedCores: { type: 'number' },
+          enhancementCores: { type: 'number' },
+          skillCores: { type: 'number' },
+          specialCores: { type: 'number' },
+          totalSlotLevel: { type: 'string' },
+          remainSlotUpgradePoint: { type: 'number' },
+        },
+      },
+    },
+    required: ['characterName', 'date', 'slots', 'coresByType', 'summary'],
+  };
+
+  public readonly metadata = {
+    category: ToolCategory.CHARACTER,
+    tags: ['character', 'vmatrix', '5th job', 'cores', 'nodes'],
+    examples: [
+      {
+        description: 'Get V Matrix cores for character',
+        arguments: { characterName: 'AquilaHero' },
+      },
+      {
+        description: 'Get V Matrix cores for specific date',
+        arguments: { characterName: 'AquilaHero', date: '2024-01-15' },
+      },
+    ],
+  };
+
+  protected async executeImpl(
+    args: Record<string, any>,
+    context: ToolContext
+  ): Promise<ToolResult> {
+    const characterName = this.getRequiredString(args, 'characterName');
+    const date = this.getOptionalString(args, 'date');
+
+    try {
+      const startTime = Date.now();
+
+      // Get character OCID first
+      context.logger.info('Looking up character OCID for V Matrix', { characterName });
+      const ocidResult = await context.nexonClient.getCharacterOcid(characterName);
+      const ocid = ocidResult.ocid;
+
+      // Get V Matrix data
+      context.logger.info('Fetching character V Matrix', { characterName, ocid });
+      const vMatrix: VMatrix = await context.nexonClient.getCharacterVMatrix(ocid, date);
+
+      const executionTime = Date.now() - startTime;
+
+      const slots = (vMatrix.character_v_core_equipment || []).map((core) => {
+        const isEmpty = !core.v_core_name;
+        return {
+          slotId: core.slot_id,
+          slotLevel: core.slot_level,
+          empty: isEmpty,
+          coreName: core.v_core_name || null,
+          coreType: isEmpty ? null : classifyVCoreType(core.v_core_type),
+          coreLevel: core.v_core_level,
+          skills: [core.v_core_skill_1, core.v_core_skill_2, core.v_core_skill_3].filter(
+            (skill) => !!skill && skill !== '(Unavailable)'
+          ),
+        };
+      });
+
+      const equippedSlots = slots.filter((slot) => !slot.empty);
+      const coresByType = {
+        enhancement: equippedSlots.filter((slot) => slot.coreType === 'enhancement'),
+        skill: equippedSlots.filter((slot) => slot.coreType === 'skill'),
+        special: equippedSlots.filter((slot) => slot.coreType === 'special'),
+        unknown: equippedSlots.filter((slot) => slot.coreType === 'unknown'),
+      };
+
+      context.logger.info('Character V Matrix retrieved successfully', {
+        characterName,
+        equippedCores: equippedSlots.length,
+        remainSlotUpgradePoint: vMatrix.character_v_matrix_remain_slot_upgrade_point,
+        executionTime,
+      });
+
+      return this.formatResult(
+        {
+          characterName,
+          characterClass: vMatrix.character_class,
+          date: vMatrix.date
+            ? formatSEADate(vMatrix.date)
+            : date
+              ? formatSEADate(date)
+              : getCurrentSEADate(),
+          slots,
+          coresByType,
+          summary: {
+            totalSlots: slots.length,
+            equippedCores: equippedSlots.length,
+            enhancementCores: coresByType.enhancement.length,
+            skillCores: coresByType.skill.length,
+            specialCores: coresByType.special.length,
+            totalSlotLevel: formatSEANumber(
+              slots.reduce((sum, slot) => sum + (slot.slotLevel || 0), 0)
+            ),
+            remainSlotUpgradePoint: vMatrix.character_v_matrix_remain_slot_upgrade_point || 0,
+          },
+        },
+        {
+          executionTime,
+          cacheHit: false,
+          apiCalls: 2, // OCID lookup + V Matrix
+        }
+      );
+    } catch (error) {
+      context.logger.error('Failed to get character V Matrix', {
+        characterName,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      return this.formatError(
+        `Failed to get V Matrix for character "${characterName}": ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+}
+
+/**
+ * Tool for getting HEXA Matrix (6th job) core and HEXA stat information
+ */
+export class GetCharacterHexaMatrixTool extends EnhancedBaseTool {
+  public readonly name = 'get_character_hexa_matrix';
+  public readonly title = 'Character HEXA Matrix';
+  public readonly description =
+    'Retrieve HEXA Matrix (6th job) information for a MapleStory SEA character including HEXA core levels per preset and HEXA stat cores with grades';
+
+  public readonly inputSchema: JSONSchema7 = {
+    type: 'object',
+    properties: {
+      characterName: {
+        type: 'string',
+        description: 'The name of the character to look up',
+        minLength: 1,
+        maxLength: 12,
+        pattern: '^[a-zA-Z0-9]+$',
+      },
+      date: {
+        type: 'string',
+        description:
+          'Date for HEXA Matrix data in YYYY-MM-DD format (optional, defaults to yesterday)',
+        pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+      },
+    },
+    required: ['characterName'],
+    additionalProperties: false,
+  };
+
+  protected readonly dataSchema: JSONSchema7 = {
+    type: 'object',
+    properties: {
+      characterName: { type: 'string' },
+      characterClass: { type: 'string' },
+      date: { type: 'string', description: 'Snapshot date (DD/MM/YYYY)' },
+      activePreset: { type: ['number', 'null'] },
+      equippedCores: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            type: { type: 'string' },
+            level: { type: 'number' },
+            linkedSkills: { type: 'array', items: { type: 'string' } },
+          },
+        },
+      },
+      presets: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            presetNo: { type: 'number' },
+            active: { type: 'boolean' },
+            cores: { type: 'array', items: { type: 'object' } },
+            totalCoreLevel: { type: 'number' },
+          },
+        },
+      },
+      hexaStat: {
+        type: 'object',
+        properties: {
+          available: { type: 'boolean' },
+          cores: { type: 'array', items: { type: 'object' } },
+          presetCores: { type: 'array', items: { type: 'object' } },
+        },
+      },
+      summary: {
+        type: 'object',
+        properties: {
+          equippedCoreCount: { type: 'number' },
+          totalCoreLevel: { type: 'number' },
+          highestCoreLevel: { type: 'number' },
+          hexaStatCoreCount: { type: 'number' },
+          highestHexaStatGrade: { type: 'number' },
+        },
+      },
+    },
+    required: ['characterName', 'date', 'activePreset', 'equippedCores', 'presets', 'hexaStat'],
+  };
+
+  public readonly metadata = {
+    category: ToolCategory.CHARACTER,
+    tags: ['character', 'hexa', '6th job', 'cores', 'hexa stat'],
+    examples: [
+      {
+        description: 'Get HEXA Matrix cores and stats for character',
+        arguments: { characterName: 'AquilaHero' },
+      },
+      {
+        description: 'Get HEXA Matrix for specific date',
+        arguments: { characterName: 'AquilaHero', date: '2024-01-15' },
+      },
+    ],
+  };
+
+  protected async executeImpl(
+    args: Record<string, any>,
+    context: ToolContext
+  ): Promise<ToolResult> {
+    const characterName = this.getRequiredString(args, 'characterName');
+    const date = this.getOptionalString(args, 'date');
+
+    try {
+      const startTime = Date.now();
+
+      // Get character OCID first
+      context.logger.info('Looking up character OCID for HEXA Matrix', { characterName });
+      const ocidResult = await context.nexonClient.getCharacterOcid(characterName);
+      const ocid = ocidResult.ocid;
+
+      // Get HEXA Matrix and HEXA stat data in parallel
+      context.logger.info('Fetching character HEXA Matrix', { characterName, ocid });
+      const [hexaMatrix, hexaStat]: [HexaMatrix, HexaMatrixStat | null] = await Promise.all([
+        context.nexonClient.getCharacterHexaMatrix(ocid, date),
+        context.nexonClient.getCharacterHexaMatrixStat(ocid, date).catch(() => null), // Optional
+      ]);
+
+      const executionTime = Date.now() - startTime;
+
+      // Determine which preset matches the currently equipped cores
+      const equippedSignature = hexaCoreSignature(hexaMatrix.character_hexa_core_equipment);
+      const presetLists = [
+        hexaMatrix.character_hexa_matrix_preset_1,
+        hexaMatrix.character_hexa_matrix_preset_2,
+        hexaMatrix.character_hexa_matrix_preset_3,
+      ];
+      const presets = presetLists.map((cores, index) => ({
+        presetNo: index + 1,
+        active:
+          equippedSignature !== '' &&
+          (cores || []).length > 0 &&
+          hexaCoreSignature(cores) === equippedSignature,
+        cores: (cores || []).map(formatHexaCore),
+        totalCoreLevel: (cores || []).reduce((sum, core) => sum + core.hexa_core_level, 0),
+      }));
+      const activePreset = presets.find((preset) => preset.active)?.presetNo ?? null;
+
+      const equippedCores = (hexaMatrix.character_hexa_core_equipment || []).map(formatHexaCore);
+      const statCores = (hexaStat?.character_hexa_stat_core || []).map(formatHexaStatCore);
+      const presetStatCores = (hexaStat?.preset_hexa_stat_core || []).map(formatHexaStatCore);
+
+      context.logger.info('Character HEXA Matrix retrieved successfully', {
+        characterName,
+        equippedCores: equippedCores.length,
+        statCores: statCores.length,
+        activePreset,
+        executionTime,
+      });
+
+      return this.formatResult(
+        {
+          characterName,
+          characterClass: hexaStat?.character_class,
+          date: hexaMatrix.date
+            ? formatSEADate(hexaMatrix.date)
+            : date
+              ? formatSEADate(date)
+              : getCurrentSEADate(),
+          activePreset,
+          equippedCores,
+          presets,
+          hexaStat: {
+            available: hexaStat !== null,
+            cores: statCores,
+            presetCores: presetStatCores,
+          },
+          summary: {
+            equippedCoreCount: equippedCores.length,
+            totalCoreLevel: equippedCores.reduce((sum, core) => sum + core.level, 0),
+            highestCoreLevel:
+              equippedCores.length > 0 ? Math.max(...equippedCores.map((core) => core.level)) : 0,
+            hexaStatCoreCount: statCores.length,
+            highestHexaStatGrade:
+              statCores.length > 0 ? Math.max(...statCores.map((core) => core.grade)) : 0,
+          },
+        },
+        {
+          executionTime,
+          cacheHit: false,
+          apiCalls: 3, // OCID lookup + HEXA Matrix + HEXA stat
+        }
+      );
+    } catch (error) {
+      context.logger.error('Failed to get character HEXA Matrix', {
+        characterName,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      return this.formatError(
+        `Failed to get HEXA Matrix for character "${characterName}": ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+}
@@ -5,14 +5,128 @@
 
 import { JSONSchema7 } from 'json-schema';
 import { EnhancedBaseTool, ToolContext, ToolResult, ToolCategory } from './base-tool';
-import { JOB_CLASSES } from '../api/constants';
+import { CLASS_NAMES } from '../api/constants';
 import { formatSEADate, formatSEANumber, getCurrentSEADate } from '../utils/server-utils';
+import { DojangDifficulty, formatRecordTime } from '../utils/ranking-utils';
+
+/**
+ * Count ranking entries per key
+ */
+function countBy<T>(entries: T[], getKey: (entry: T) => string): Record<string, number> {
+  return entries.reduce(
+    (acc, entry) => {
+      const key = getKey(entry);
+      acc[key] = (acc[key] || 0) + 1;
+      return acc;
+    },
+    {} as Record<string, number>
+  );
+}
+
+/**
+ * Shared input schema for Dojang, The Seed and Achievement rankings
+ */
+function createRankingInputSchema(
+  rankingLabel: string,
+  extraProperties: JSONSchema7['properties'] = {}
+): JSONSchema7 {
+  return {
+    type: 'object',
+    properties: {
+      worldName: {
+        type: 'string',
+        description: 'World name to get rankings for (optional)',
+        enum: ['Aquila', 'Bootes', 'Cassiopeia', 'Draco'],
+      },
+      className: {
+        type: 'string',
+        description: 'Character class filter (optional)',
+        enum: CLASS_NAMES,
+      },
+      characterName: {
+        type: 'string',
+        description: 'Specific character name to search for (optional)',
+        minLength: 1,
+        maxLength: 12,
+        pattern: '^[a-zA-Z0-9]+$',
+      },
+      page: {
+        type: 'integer',
+        description: 'Page number for pagination (1-based, optional, defaults to 1)',
+        minimum: 1,
+        maximum: 200,
+        default: 1,
+      },
+      date: {
+        type: 'string',
+        description: `Date for ${rankingLabel} rankings in YYYY-MM-DD format (optional, defaults to yesterday)`,
+        pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+      },
+      ...extraProperties,
+    },
+    additionalProperties: false,
+  };
+}
+
+/**
+ * Shared data schema for ranking results: the ranking page, the filters it was fetched with
+ * and a summary of the entries on the page
+ */
+function createRankingDataSchema(
+  entryProperties: JSONSchema7['properties'],
+  summaryProperties: JSONSchema7['properties'],
+  extraProperties: JSONSchema7['properties'] = {}
+): JSONSchema7 {
+  return {
+    type: 'object',
+    properties: {
+      page: { type: 'number' },
+      pageSize: { type: 'number' },
+      filters: {
+        type: 'object',
+        properties: {
+          worldName: { type: 'string' },
+          className: { type: 'string' },
+          searchCharacter: { type: 'string' },
+        },
+      },
+      date: { type: 'string', description: 'Ranking date (DD/MM/YYYY)' },
+      rankings: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            rank: { type: 'string' },
+            characterName: { type: 'string' },
+            world: { type: 'string' },
+            class: { type: 'string' },
+            subClass: { type: ['string', 'null'] },
+            date: { type: 'string' },
+            ...entryProperties,
+          },
+        },
+      },
+      summary: {
+        type: 'object',
+        properties: {
+          totalResults: { type: 'string' },
+          worldDistribution: { type: 'object', description: 'Entries per world' },
+          classDistribution: { type: 'object', description: 'Entries per class' },
+          ...summaryProperties,
+        },
+      },
+      ...extraProperties,
+    },
+    required: ['page', 'pageSize', 'filters', 'date', 'rankings', 'summary'],
+  };
+}
 
 /**
  * Tool for getting overall level rankings
  */
 export class GetOverallRankingTool extends EnhancedBaseTool {
   public readonly name = 'get_overall_ranking';
+  public readonly title = 'Overall Level Ranking';
   public readonly description =
     'Retrieve overall level rankings for MapleStory SEA characters with filtering options';
 
@@ -27,7 +141,7 @@ export class GetOverallRankingTool extends EnhancedBaseTool {
       className: {
         type: 'string',
         description: 'Character class filter (optional)',
-        enum: [...JOB_CLASSES],
+        enum: CLASS_NAMES,
       },
       characterName: {
         type: 'string',
@@ -52,6 +166,19 @@ export class GetOverallRankingTool extends EnhancedBaseTool {
     additionalProperties: false,
   };
 
+  protected readonly dataSchema: JSONSchema7 = createRankingDataSchema(
+    {
+      level: { type: 'string' },
+      exp: { type: 'string' },
+      popularity: { type: 'string' },
+      guildName: { type: ['string', 'null'] },
+    },
+    {
+      topLevel: { type: 'string' },
+      averageLevel: { type: 'string' },
+    }
+  );
+
   public readonly metadata = {
     category: ToolCategory.RANKING,
     tags: ['ranking', 'overall', 'level', 'leaderboard'],
@@ -204,3 +331,452 @@ export class GetOverallRankingTool extends EnhancedBaseTool {
     }
   }
 }
+
+/**
+ * Tool for getting Mu Lung Dojang rankings
+ */
+export class GetDojangRankingTool extends EnhancedBaseTool {
+  public readonly name = 'get_dojang_ranking';
+  public readonly title = 'Mu Lung Dojang Ranking';
+  public readonly description =
+    'Retrieve Mu Lung Dojang rankings for MapleStory SEA characters with floor and clear time, filterable by world, class and difficulty';
+
+  public readonly inputSchema: JSONSchema7 = createRankingInputSchema('Dojang', {
+    difficulty: {
+      type: 'string',
+      description: 'Dojang difficulty: normal or hard (optional, defaults to normal)',
+      enum: ['normal', 'hard'],
+      default: 'normal',
+    },
+  });
+
+  protected readonly dataSchema: JSONSchema7 = createRankingDataSchema(
+    {
+      level: { type: 'string' },
+      floor: { type: 'number' },
+      timeRecord: { type: 'string', description: 'Clear time (mm:ss)' },
+      timeRecordSeconds: { type: 'number' },
+    },
+    {
+      topFloor: { type: 'number' },
+      topTimeRecord: { type: 'string' },
+      averageFloor: { type: 'number' },
+    },
+    { difficulty: { type: 'string', enum: ['normal', 'hard'] } }
+  );
+
+  public readonly metadata = {
+    category: ToolCategory.RANKING,
+    tags: ['ranking', 'dojang', 'mu lung', 'leaderboard'],
+    examples: [
+      {
+        description: 'Get Dojang rankings for all worlds',
+        arguments: {},
+      },
+      {
+        description: 'Get hard Dojang rankings for a class in a world',
+        arguments: { worldName: 'Aquila', className: 'Hero', difficulty: 'hard' },
+      },
+      {
+        description: 'Find a character in the Dojang rankings',
+        arguments: { characterName: 'AquilaHero' },
+      },
+    ],
+  };
+
+  protected async executeImpl(
+    args: Record<string, any>,
+    context: ToolContext
+  ): Promise<ToolResult> {
+    const worldName = this.getOptionalString(args, 'worldName');
+    const className = this.getOptionalString(args, 'className');
+    const characterName = this.getOptionalString(args, 'characterName');
+    const page = this.getOptionalNumber(args, 'page', 1);
+    const date = this.getOptionalString(args, 'date');
+    const difficultyName = this.getOptionalString(args, 'difficulty', 'normal');
+    const difficulty = difficultyName === 'hard' ? DojangDifficulty.HARD : DojangDifficulty.NORMAL;
+
+    try {
+      const startTime = Date.now();
+
+      context.logger.info('Fetching Dojang rankings', {
+        worldName: worldName || undefined,
+        className: className || undefined,
+        characterName: characterName || undefined,
+        difficulty: difficultyName,
+        page,
+      } as any);
+
+      const rankings = await context.nexonClient.getDojangRanking(
+        worldName,
+        characterName,
+        page,
+        date,
+        className,
+        difficulty
+      );
+
+      const executionTime = Date.now() - startTime;
+
+      const rankingData =
+        rankings.ranking?.map((entry) => ({
+          rank: formatSEANumber(entry.ranking),
+          characterName: entry.character_name,
+          world: entry.world_name,
+          class: entry.class_name,
+          subClass: entry.sub_class_name,
+          level: formatSEANumber(entry.character_level),
+          floor: entry.dojang_floor,
+          timeRecord: formatRecordTime(entry.dojang_time_record),
+          timeRecordSeconds: entry.dojang_time_record,
+          date: entry.date ? formatSEADate(entry.date) : getCurrentSEADate(),
+        })) || [];
+
+      context.logger.info('Dojang rankings retrieved successfully', {
+        worldName: worldName || undefined,
+        className: className || undefined,
+        difficulty: difficultyName,
+        page,
+        resultsCount: rankingData.length,
+        executionTime,
+      } as any);
+
+      const topEntry = rankingData[0];
+
+      return this.formatResult(
+        {
+          page,
+          pageSize: rankingData.length,
+          difficulty: difficultyName,
+          filters: {
+            worldName: worldName || 'all',
+            className: className || 'all',
+            searchCharacter: characterName || undefined,
+          },
+          date: date ? formatSEADate(date) : getCurrentSEADate(),
+          rankings: rankingData,
+          summary: {
+            totalResults: formatSEANumber(rankingData.length),
+            topFloor: topEntry ? topEntry.floor : 0,
+            topTimeRecord: topEntry ? topEntry.timeRecord : formatRecordTime(0),
+            averageFloor:
+              rankingData.length > 0
+                ? Math.round(rankingData.reduce((sum, r) => sum + r.floor, 0) / rankingData.length)
+                : 0,
+            worldDistribution: countBy(rankingData, (entry) => entry.world),
+            classDistribution: countBy(rankingData, (entry) => entry.class),
+          },
+        },
+        {
+          executionTime,
+          cacheHit: false,
+          apiCalls: characterName ? 2 : 1, // OCID lookup (if needed) + rankings
+        }
+      );
+    } catch (error) {
+      context.logger.error('Failed to get Dojang rankings', {
+        worldName: worldName || undefined,
+        className: className || undefined,
+        characterName: characterName || undefined,
+        difficulty: difficultyName,
+        page,
+        error: error instanceof Error ? error.message : String(error),
+      } as any);
+
+      return this.formatError(
+        `Failed to get Dojang rankings: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+}
+
+/**
+ * Tool for getting The Seed rankings
+ */
+export class GetTheSeedRankingTool extends EnhancedBaseTool {
+  public readonly name = 'get_theseed_ranking';
+  public readonly title = 'The Seed Ranking';
+  public readonly description =
+    'Retrieve The Seed rankings for MapleStory SEA characters with floor and clear time, filterable by world and class';
+
+  public readonly inputSchema: JSONSchema7 = createRankingInputSchema('The Seed');
+
+  protected readonly dataSchema: JSONSchema7 = createRankingDataSchema(
+    {
+      level: { type: 'string' },
+      floor: { type: 'number' },
+      timeRecord: { type: 'string', description: 'Clear time (mm:ss)' },
+      timeRecordSeconds: { type: 'number' },
+    },
+    {
+      topFloor: { type: 'number' },
+      topTimeRecord: { type: 'string' },
+      averageFloor: { type: 'number' },
+    }
+  );
+
+  public readonly metadata = {
+    category: ToolCategory.RANKING,
+    tags: ['ranking', 'the seed', 'tower', 'leaderboard'],
+    examples: [
+      {
+        description: 'Get The Seed rankings for all worlds',
+        arguments: {},
+      },
+      {
+        description: 'Get The Seed rankings for specific world',
+        arguments: { worldName: 'Bootes' },
+      },
+      {
+        description: 'Find a character in The Seed rankings',
+        arguments: { characterName: 'AquilaHero' },
+      },
+    ],
+  };
+
+  protected async executeImpl(
+    args: Record<string, any>,
+    context: ToolContext
+  ): Promise<ToolResult> {
+    const worldName = this.getOptionalString(args, 'worldName');
+    const className = this.getOptionalString(args, 'className');
+    const characterName = this.getOptionalString(args, 'characterName');
+    const page = this.getOptionalNumber(args, 'page', 1);
+    const date = this.getOptionalString(args, 'date');
+
+    try {
+      const startTime = Date.now();
+
+      context.logger.info('Fetching The Seed rankings', {
+        worldName: worldName || undefined,
+        className: className || undefined,
+        characterName: characterName || undefined,
+        page,
+      } as any);
+
+      const rankings = await context.nexonClient.getTheSeedRanking(
+        worldName,
+        characterName,
+        page,
+        date
+      );
+
+      const executionTime = Date.now() - startTime;
+
+      // The Seed endpoint has no class parameter, so the class filter applies to the fetched page
+      const rankingData =
+        rankings.ranking
+          ?.filter((entry) => !className || entry.class_name === className)
+          .map((entry) => ({
+            rank: formatSEANumber(entry.ranking),
+            characterName: entry.character_name,
+            world: entry.world_name,
+            class: entry.class_name,
+            subClass: entry.sub_class_name,
+            level: formatSEANumber(entry.character_level),
+            floor: entry.theseed_floor,
+            timeRecord: formatRecordTime(entry.theseed_time_record),
+            timeRecordSeconds: entry.theseed_time_record,
+            date: entry.date ? formatSEADate(entry.date) : getCurrentSEADate(),
+          })) || [];
+
+      context.logger.info('The Seed rankings retrieved successfully', {
+        worldName: worldName || undefined,
+        className: className || undefined,
+        page,
+        resultsCount: rankingData.length,
+        executionTime,
+      } as any);
+
+      const topEntry = rankingData[0];
+
+      return this.formatResult(
+        {
+          page,
+          pageSize: rankingData.length,
+          filters: {
+            worldName: worldName || 'all',
+            className: className || 'all',
+            searchCharacter: characterName || undefined,
+          },
+          date: date ? formatSEADate(date) : getCurrentSEADate(),
+          rankings: rankingData,
+          summary: {
+            totalResults: formatSEANumber(rankingData.length),
+            topFloor: topEntry ? topEntry.floor : 0,
+            topTimeRecord: topEntry ? topEntry.timeRecord : formatRecordTime(0),
+            averageFloor:
+              rankingData.length > 0
+                ? Math.round(rankingData.reduce((sum, r) => sum + r.floor, 0) / rankingData.length)
+                : 0,
+            worldDistribution: countBy(rankingData, (entry) => entry.world),
+            classDistribution: countBy(rankingData, (entry) => entry.class),
+          },
+        },
+        {
+          executionTime,
+          cacheHit: false,
+          apiCalls: characterName ? 2 : 1, // OCID lookup (if needed) + rankings
+        }
+      );
+    } catch (error) {
+      context.logger.error('Failed to get The Seed rankings', {
+        worldName: worldName || undefined,
+        className: className || undefined,
+        characterName: characterName || undefined,
+        page,
+        error: error instanceof Error ? error.message : String(error),
+      } as any);
+
+      return this.formatError(
+        `Failed to get The Seed rankings: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+}
+
+/**
+ * Tool for getting Achievement rankings
+ */
+export class GetAchievementRankingTool extends EnhancedBaseTool {
+  public readonly name = 'get_achievement_ranking';
+  public readonly title = 'Achievement Ranking';
+  public readonly description =
+    'Retrieve Achievement rankings for MapleStory SEA characters with trophy points and grades, filterable by world and class';
+
+  public readonly inputSchema: JSONSchema7 = createRankingInputSchema('Achievement');
+
+  protected readonly dataSchema: JSONSchema7 = createRankingDataSchema(
+    {
+      trophyPoint: { type: 'string' },
+      trophyGrade: { type: 'string' },
+    },
+    {
+      topTrophyPoint: { type: 'string' },
+      averageTrophyPoint: { type: 'string' },
+      gradeDistribution: { type: 'object', description: 'Entries per trophy grade' },
+    }
+  );
+
+  public readonly metadata = {
+    category: ToolCategory.RANKING,
+    tags: ['ranking', 'achievement', 'trophy', 'leaderboard'],
+    examples: [
+      {
+        description: 'Get Achievement rankings for all worlds',
+        arguments: {},
+      },
+      {
+        description: 'Get Achievement rankings for specific world',
+        arguments: { worldName: 'Cassiopeia' },
+      },
+      {
+        description: 'Find a character in the Achievement rankings',
+        arguments: { characterName: 'AquilaHero' },
+      },
+    ],
+  };
+
+  protected async executeImpl(
+    args: Record<string, any>,
+    context: ToolContext
+  ): Promise<ToolResult> {
+    const worldName = this.getOptionalString(args, 'worldName');
+    const className = this.getOptionalString(args, 'className');
+    const characterName = this.getOptionalString(args, 'characterName');
+    const page = this.getOptionalNumber(args, 'page', 1);
+    const date = this.getOptionalString(args, 'date');
+
+    try {
+      const startTime = Date.now();
+
+      context.logger.info('Fetching Achievement rankings', {
+        worldName: worldName || undefined,
+        className: className || undefined,
+        characterName: characterName || undefined,
+        page,
+      } as any);
+
+      const rankings = await context.nexonClient.getAchievementRanking(
+        worldName,
+        characterName,
+        page,
+        date
+      );
+
+      const executionTime = Date.now() - startTime;
+
+      // The Achievement endpoint has no class parameter, so the class filter applies to the fetched page
+      const rankingData =
+        rankings.ranking
+          ?.filter((entry) => !className || entry.class_name === className)
+          .map((entry) => ({
+            rank: formatSEANumber(entry.ranking),
+            characterName: entry.character_name,
+            world: entry.world_name,
+            class: entry.class_name,
+            subClass: entry.sub_class_name,
+            trophyPoint: formatSEANumber(entry.trophy_point),
+            trophyGrade: entry.trophy_grade,
+            date: entry.date ? formatSEADate(entry.date) : getCurrentSEADate(),
+          })) || [];
+
+      context.logger.info('Achievement rankings retrieved successfully', {
+        worldName: worldName || undefined,
+        className: className || undefined,
+        page,
+        resultsCount: rankingData.length,
+        executionTime,
+      } as any);
+
+      const trophyPoints = rankingData.map((r) => parseInt(r.trophyPoint.replace(/,/g, '')));
+
+      return this.formatResult(
+        {
+          page,
+          pageSize: rankingData.length,
+          filters: {
+            worldName: worldName || 'all',
+            className: className || 'all',
+            searchCharacter: characterName || undefined,
+          },
+          date: date ? formatSEADate(date) : getCurrentSEADate(),
+          rankings: rankingData,
+          summary: {
+            totalResults: formatSEANumber(rankingData.length),
+            topTrophyPoint:
+              trophyPoints.length > 0 ? formatSEANumber(Math.max(...trophyPoints)) : '0',
+            averageTrophyPoint:
+              trophyPoints.length > 0
+                ? formatSEANumber(
+                    Math.round(trophyPoints.reduce((sum, p) => sum + p, 0) / trophyPoints.length)
+                  )
+                : '0',
+            gradeDistribution: countBy(rankingData, (entry) => entry.trophyGrade),
+            worldDistribution: countBy(rankingData, (entry) => entry.world),
+            classDistribution: countBy(rankingData, (entry) => entry.class),
+          },
+        },
+        {
+          executionTime,
+          cacheHit: false,
+          apiCalls: characterName ? 2 : 1, // OCID lookup (if needed) + rankings
+        }
+      );
+    } catch (error) {
+      context.logger.error('Failed to get Achievement rankings', {
+        worldName: worldName || undefined,
+        className: className || undefined,
+        characterName: characterName || undefined,
+        page,
+        error: error instanceof Error ? error.message : String(error),
+      } as any);
+
+      return this.formatError(
+        `Failed to get Achievement rankings: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+}
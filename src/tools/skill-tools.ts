@@ -0,0 +1,434 @@
+/**
+ * Skill Tools for MCP Maple
+ * Provides MCP tools for retrieving MapleStory SEA character skills and link skills
+ */
+
+import { JSONSchema7 } from 'json-schema';
+import { EnhancedBaseTool, ToolContext, ToolResult, ToolCategory } from './base-tool';
+import { CharacterSkill, LinkSkill } from '../api/types';
+import { LINK_SKILLS, SKILL_GRADES } from '../api/constants';
+import { formatSEADate, getCurrentSEADate } from '../utils/server-utils';
+import { McpMapleError } from '../utils/errors';
+
+type SkillGrade = (typeof SKILL_GRADES)[number];
+type LinkSkillEntry = LinkSkill['character_link_skill'][number];
+
+const SKILL_GRADE_LABELS: Record<SkillGrade, string> = {
+  '0': 'Beginner',
+  '1': '1st Job',
+  '1.5': '1st Job (Enhanced)',
+  '2': '2nd Job',
+  '2.5': '2nd Job (Enhanced)',
+  '3': '3rd Job',
+  '4': '4th Job',
+  hyperpassive: 'Hyper Passive',
+  hyperactive: 'Hyper Active',
+  '5': '5th Job (V Skills)',
+  '6': '6th Job (HEXA Skills)',
+};
+
+/**
+ * Whether a skill lookup failed because the character has not unlocked the grade, which the API
+ * answers with a 400 or 404. Quota, auth, timeout and outage errors are not treated as such.
+ */
+function isLockedGradeError(error: unknown): boolean {
+  return error instanceof McpMapleError && (error.statusCode === 400 || error.statusCode === 404);
+}
+
+/**
+ * Find the job classes that grant a link skill (case-insensitive name match)
+ */
+function findLinkSkillSources(skillName: string): string[] {
+  const normalized = skillName.trim().toLowerCase();
+  const match = Object.entries(LINK_SKILLS).find(([name]) => name.toLowerCase() === normalized);
+  return match ? [...match[1]] : [];
+}
+
+/**
+ * Format a link skill entry with the classes that grant it
+ */
+function formatLinkSkill(skill: LinkSkillEntry) {
+  return {
+    name: skill.skill_name,
+    level: skill.skill_level,
+    effect: skill.skill_effect,
+    grantedBy: findLinkSkillSources(skill.skill_name),
+  };
+}
+
+/**
+ * Schema for a link skill as returned by formatLinkSkill
+ */
+const LINK_SKILL_SCHEMA: JSONSchema7 = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    level: { type: 'number' },
+    effect: { type: 'string' },
+    grantedBy: { type: 'array', items: { type: 'string' } },
+  },
+};
+
+/**
+ * Tool for getting character skills filtered by job advancement grade
+ */
+export class GetCharacterSkillsTool extends EnhancedBaseTool {
+  public readonly name = 'get_character_skills';
+  public readonly title = 'Character Skills';
+  public readonly description =
+    'Retrieve skills for a MapleStory SEA character grouped by job advancement grade (0-4th job, hyper passive/active, 5th and 6th job)';
+
+  public readonly inputSchema: JSONSchema7 = {
+    type: 'object',
+    properties: {
+      characterName: {
+        type: 'string',
+        description: 'The name of the character to look up',
+        minLength: 1,
+        maxLength: 12,
+        pattern: '^[a-zA-Z0-9]+$',
+      },
+      grade: {
+        type: 'string',
+        description:
+          'Job advancement grade to filter by (optional, defaults to all grades): 0, 1, 1.5, 2, 2.5, 3, 4, hyperpassive, hyperactive, 5, 6',
+        enum: [...SKILL_GRADES],
+      },
+      date: {
+        type: 'string',
+        description: 'Date for skill data in YYYY-MM-DD format (optional, defaults to yesterday)',
+        pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+      },
+    },
+    required: ['characterName'],
+    additionalProperties: false,
+  };
+
+  protected readonly dataSchema: JSONSchema7 = {
+    type: 'object',
+    properties: {
+      characterName: { type: 'string' },
+      characterClass: { type: 'string' },
+      date: { type: 'string', description: 'Snapshot date (DD/MM/YYYY)' },
+      gradeFilter: { type: 'string', description: 'Requested grade, or all' },
+      skillGroups: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            grade: { type: 'string' },
+            label: { type: 'string' },
+            skillCount: { type: 'number' },
+            totalLevel: { type: 'number' },
+            skills: { type: 'array', items: { type: 'object' } },
+          },
+        },
+      },
+      summary: {
+        type: 'object',
+        properties: {
+          gradesWithSkills: { type: 'number' },
+          totalSkills: { type: 'number' },
+        },
+      },
+    },
+    required: ['characterName', 'date', 'gradeFilter', 'skillGroups', 'summary'],
+  };
+
+  public readonly metadata = {
+    category: ToolCategory.CHARACTER,
+    tags: ['character', 'skills', 'hyper skills', '5th job', '6th job'],
+    examples: [
+      {
+        description: 'Get all skills for character',
+        arguments: { characterName: 'AquilaHero' },
+      },
+      {
+        description: 'Get hyper passive skills for character',
+        arguments: { characterName: 'AquilaHero', grade: 'hyperpassive' },
+      },
+      {
+        description: 'Get 6th job skills for specific date',
+        arguments: { characterName: 'AquilaHero', grade: '6', date: '2024-01-15' },
+      },
+    ],
+  };
+
+  protected async executeImpl(
+    args: Record<string, any>,
+    context: ToolContext
+  ): Promise<ToolResult> {
+    const characterName = this.getRequiredString(args, 'characterName');
+    const grade = this.getOptionalString(args, 'grade') as SkillGrade | undefined;
+    const date = this.getOptionalString(args, 'date');
+
+    try {
+      const startTime = Date.now();
+
+      // Get character OCID first
+      context.logger.info('Looking up character OCID for skills', { characterName });
+      const ocidResult = await context.nexonClient.getCharacterOcid(characterName);
+      const ocid = ocidResult.ocid;
+
+      // Get skills for the requested grade, or every grade when no filter is given.
+      // Grades the character has not unlocked yet are skipped when fetching all; any other
+      // failure fails the lookup rather than reporting the grade as empty.
+      const grades: SkillGrade[] = grade ? [grade] : [...SKILL_GRADES];
+      context.logger.info('Fetching character skills', { characterName, ocid, grades });
+      const results: Array<CharacterSkill | null> = grade
+        ? [await context.nexonClient.getCharacterSkill(ocid, date, grade)]
+        : await Promise.all(
+            grades.map((skillGrade) =>
+              context.nexonClient.getCharacterSkill(ocid, date, skillGrade).catch((error) => {
+                if (isLockedGradeError(error)) {
+                  return null;
+                }
+                throw error;
+              })
+            )
+          );
+
+      const executionTime = Date.now() - startTime;
+
+      const skillGroups = grades
+        .map((skillGrade, index) => {
+          const result = results[index];
+          const skills = (result?.character_skill || []).map((skill) => ({
+            name: skill.skill_name,
+            level: skill.skill_level,
+            description: skill.skill_description,
+            effect: skill.skill_effect,
+          }));
+          return {
+            grade: skillGrade,
+            label: SKILL_GRADE_LABELS[skillGrade],
+            skillCount: skills.length,
+            totalLevel: skills.reduce((sum, skill) => sum + (skill.level || 0), 0),
+            skills,
+          };
+        })
+        .filter((group) => grade || group.skillCount > 0);
+
+      const characterClass = results.find((result) => result?.character_class)?.character_class;
+      const dataDate = results.find((result) => result?.date)?.date;
+
+      context.logger.info('Character skills retrieved successfully', {
+        characterName,
+        grades: skillGroups.length,
+        executionTime,
+      });
+
+      return this.formatResult(
+        {
+          characterName,
+          characterClass,
+          date: dataDate
+            ? formatSEADate(dataDate)
+            : date
+              ? formatSEADate(date)
+              : getCurrentSEADate(),
+          gradeFilter: grade || 'all',
+          skillGroups,
+          summary: {
+            gradesWithSkills: skillGroups.filter((group) => group.skillCount > 0).length,
+            totalSkills: skillGroups.reduce((sum, group) => sum + group.skillCount, 0),
+          },
+        },
+        {
+          executionTime,
+          cacheHit: false,
+          apiCalls: 1 + grades.length, // OCID lookup + one call per grade
+        }
+      );
+    } catch (error) {
+      context.logger.error('Failed to get character skills', {
+        characterName,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      return this.formatError(
+        `Failed to get skills for character "${characterName}": ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+}
+
+/**
+ * Tool for auditing equipped link skills
+ */
+export class GetCharacterLinkSkillsTool extends EnhancedBaseTool {
+  public readonly name = 'get_character_link_skills';
+  public readonly title = 'Character Link Skills';
+  public readonly description =
+    'Retrieve equipped link skills for a MapleStory SEA character with levels, the classes that grant each link skill and which link skills are missing';
+
+  public readonly inputSchema: JSONSchema7 = {
+    type: 'object',
+    properties: {
+      characterName: {
+        type: 'string',
+        description: 'The name of the character to look up',
+        minLength: 1,
+        maxLength: 12,
+        pattern: '^[a-zA-Z0-9]+$',
+      },
+      date: {
+        type: 'string',
+        description:
+          'Date for link skill data in YYYY-MM-DD format (optional, defaults to yesterday)',
+        pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+      },
+    },
+    required: ['characterName'],
+    additionalProperties: false,
+  };
+
+  protected readonly dataSchema: JSONSchema7 = {
+    type: 'object',
+    properties: {
+      characterName: { type: 'string' },
+      characterClass: { type: 'string' },
+      date: { type: 'string', description: 'Snapshot date (DD/MM/YYYY)' },
+      equipped: { type: 'array', items: LINK_SKILL_SCHEMA },
+      ownedLinkSkills: { type: 'array', items: LINK_SKILL_SCHEMA },
+      presets: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            presetNo: { type: 'number' },
+            skills: { type: 'array', items: LINK_SKILL_SCHEMA },
+          },
+        },
+      },
+      missing: {
+        type: 'array',
+        description: 'Known link skills the character has not equipped',
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            grantedBy: { type: 'array', items: { type: 'string' } },
+          },
+        },
+      },
+      summary: {
+        type: 'object',
+        properties: {
+          equippedCount: { type: 'number' },
+          totalLinkLevel: { type: 'number' },
+          missingCount: { type: 'number' },
+          unrecognized: { type: 'array', items: { type: 'string' } },
+        },
+      },
+    },
+    required: ['characterName', 'date', 'equipped', 'presets', 'missing', 'summary'],
+  };
+
+  public readonly metadata = {
+    category: ToolCategory.CHARACTER,
+    tags: ['character', 'link skills', 'skills', 'presets'],
+    examples: [
+      {
+        description: 'Audit link skills for character',
+        arguments: { characterName: 'AquilaHero' },
+      },
+      {
+        description: 'Get link skills for specific date',
+        arguments: { characterName: 'AquilaHero', date: '2024-01-15' },
+      },
+    ],
+  };
+
+  protected async executeImpl(
+    args: Record<string, any>,
+    context: ToolContext
+  ): Promise<ToolResult> {
+    const characterName = this.getRequiredString(args, 'characterName');
+    const date = this.getOptionalString(args, 'date');
+
+    try {
+      const startTime = Date.now();
+
+      // Get character OCID first
+      context.logger.info('Looking up character OCID for link skills', { characterName });
+      const ocidResult = await context.nexonClient.getCharacterOcid(characterName);
+      const ocid = ocidResult.ocid;
+
+      // Get link skill data
+      context.logger.info('Fetching character link skills', { characterName, ocid });
+      const linkSkill: LinkSkill = await context.nexonClient.getCharacterLinkSkill(ocid, date);
+
+      const executionTime = Date.now() - startTime;
+
+      const equipped = (linkSkill.character_link_skill || []).map(formatLinkSkill);
+      const presets = [
+        linkSkill.character_link_skill_preset_1,
+        linkSkill.character_link_skill_preset_2,
+        linkSkill.character_link_skill_preset_3,
+      ].map((skills, index) => ({
+        presetNo: index + 1,
+        skills: (skills || []).map(formatLinkSkill),
+      }));
+      const ownedLinkSkills = (linkSkill.character_owned_link_skill || []).map(formatLinkSkill);
+
+      // Link skills the character could equip but has not
+      const equippedNames = new Set(equipped.map((skill) => skill.name.toLowerCase()));
+      const ownedNames = new Set(ownedLinkSkills.map((skill) => skill.name.toLowerCase()));
+      const missing = Object.entries(LINK_SKILLS)
+        .filter(
+          ([name]) => !equippedNames.has(name.toLowerCase()) && !ownedNames.has(name.toLowerCase())
+        )
+        .map(([name, classes]) => ({ name, grantedBy: [...classes] }));
+
+      context.logger.info('Character link skills retrieved successfully', {
+        characterName,
+        equipped: equipped.length,
+        missing: missing.length,
+        executionTime,
+      });
+
+      return this.formatResult(
+        {
+          characterName,
+          characterClass: linkSkill.character_class,
+          date: linkSkill.date
+            ? formatSEADate(linkSkill.date)
+            : date
+              ? formatSEADate(date)
+              : getCurrentSEADate(),
+          equipped,
+          ownedLinkSkills,
+          presets,
+          missing,
+          summary: {
+            equippedCount: equipped.length,
+            totalLinkLevel: equipped.reduce((sum, skill) => sum + (skill.level || 0), 0),
+            missingCount: missing.length,
+            unrecognized: equipped
+              .filter((skill) => skill.grantedBy.length === 0)
+              .map((skill) => skill.name),
+          },
+        },
+        {
+          executionTime,
+          cacheHit: false,
+          apiCalls: 2, // OCID lookup + link skills
+        }
+      );
+    } catch (error) {
+      context.logger.error('Failed to get character link skills', {
+        characterName,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      return this.formatError(
+        `Failed to get link skills for character "${characterName}": ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+}
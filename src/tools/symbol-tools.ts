@@ -0,0 +1,273 @@
+/**
+ * Symbol Tools for MCP Maple
+ * Provides MCP tools for tracking MapleStory SEA Arcane and Sacred/Authentic symbol progress
+ */
+
+import { JSONSchema7 } from 'json-schema';
+import { EnhancedBaseTool, ToolContext, ToolResult, ToolCategory } from './base-tool';
+import { SymbolEquipment } from '../api/types';
+import { SYMBOL_PROGRESSION } from '../api/constants';
+import { formatSEADate, formatSEANumber, getCurrentSEADate } from '../utils/server-utils';
+
+type SymbolFamily = 'arcane' | 'sacred';
+type SymbolEntry = SymbolEquipment['symbol'][number];
+
+/**
+ * Determine whether a symbol is an Arcane or a Sacred/Authentic symbol
+ */
+function getSymbolFamily(symbolName: string): SymbolFamily {
+  return symbolName.toLowerCase().includes('arcane') ? 'arcane' : 'sacred';
+}
+
+/**
+ * Symbols required to go from the given level to the next one
+ */
+function getRequiredGrowth(family: SymbolFamily, level: number): number {
+  return family === 'arcane' ? level * level + 11 : 9 * level * level + 20 * level;
+}
+
+/**
+ * Format a symbol with growth progress and a days-to-max projection
+ */
+function formatSymbol(symbol: SymbolEntry, family: SymbolFamily, dailyGrowth: number) {
+  const maxLevel =
+    family === 'arcane' ? SYMBOL_PROGRESSION.ARCANE.MAX_LEVEL : SYMBOL_PROGRESSION.SACRED.MAX_LEVEL;
+  const maxed = symbol.symbol_level >= maxLevel;
+
+  // Remaining growth for the current level plus every level after it
+  let remainingGrowth = 0;
+  if (!maxed) {
+    remainingGrowth = Math.max(0, symbol.symbol_require_growth_count - symbol.symbol_growth_count);
+    for (let level = symbol.symbol_level + 1; level < maxLevel; level++) {
+      remainingGrowth += getRequiredGrowth(family, level);
+    }
+  }
+
+  const stats = Object.fromEntries(
+    (
+      [
+        ['STR', symbol.symbol_str],
+        ['DEX', symbol.symbol_dex],
+        ['INT', symbol.symbol_int],
+        ['LUK', symbol.symbol_luk],
+        ['HP', symbol.symbol_hp],
+      ] as const
+    ).filter(([, value]) => value && value !== '0')
+  );
+
+  return {
+    name: symbol.symbol_name,
+    region: symbol.symbol_name.split(':').pop()?.trim() || symbol.symbol_name,
+    level: symbol.symbol_level,
+    maxLevel,
+    maxed,
+    force: parseInt(symbol.symbol_force, 10) || 0,
+    growthCount: symbol.symbol_growth_count,
+    requireGrowthCount: symbol.symbol_require_growth_count,
+    remainingGrowth,
+    daysToMax: Math.ceil(remainingGrowth / dailyGrowth),
+    stats,
+  };
+}
+
+/**
+ * Schema for a symbol as returned by formatSymbol
+ */
+const SYMBOL_SCHEMA: JSONSchema7 = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    region: { type: 'string' },
+    level: { type: 'number' },
+    maxLevel: { type: 'number' },
+    maxed: { type: 'boolean' },
+    force: { type: 'number' },
+    growthCount: { type: 'number' },
+    requireGrowthCount: { type: 'number' },
+    remainingGrowth: { type: 'number' },
+    daysToMax: { type: 'number' },
+    stats: { type: 'object', description: 'Stats the symbol grants by stat name' },
+  },
+};
+
+/**
+ * Tool for getting Arcane and Sacred symbol progress
+ */
+export class GetCharacterSymbolsTool extends EnhancedBaseTool {
+  public readonly name = 'get_character_symbols';
+  public readonly title = 'Character Symbols';
+  public readonly description =
+    'Retrieve Arcane and Sacred/Authentic symbol progress for a MapleStory SEA character with force totals and days remaining to max each symbol';
+
+  public readonly inputSchema: JSONSchema7 = {
+    type: 'object',
+    properties: {
+      characterName: {
+        type: 'string',
+        description: 'The name of the character to look up',
+        minLength: 1,
+        maxLength: 12,
+        pattern: '^[a-zA-Z0-9]+$',
+      },
+      date: {
+        type: 'string',
+        description: 'Date for symbol data in YYYY-MM-DD format (optional, defaults to yesterday)',
+        pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+      },
+      dailyArcaneSymbols: {
+        type: 'number',
+        description: `Arcane symbols gained per region each day, used for the projection (default: ${SYMBOL_PROGRESSION.ARCANE.DAILY_GROWTH})`,
+        minimum: 1,
+        maximum: 100,
+      },
+      dailySacredSymbols: {
+        type: 'number',
+        description: `Sacred/Authentic symbols gained per region each day, used for the projection (default: ${SYMBOL_PROGRESSION.SACRED.DAILY_GROWTH})`,
+        minimum: 1,
+        maximum: 100,
+      },
+    },
+    required: ['characterName'],
+    additionalProperties: false,
+  };
+
+  protected readonly dataSchema: JSONSchema7 = {
+    type: 'object',
+    properties: {
+      characterName: { type: 'string' },
+      characterClass: { type: 'string' },
+      date: { type: 'string', description: 'Snapshot date (DD/MM/YYYY)' },
+      arcane: { type: 'array', items: SYMBOL_SCHEMA },
+      sacred: {
+        type: 'array',
+        description: 'Sacred and Authentic symbols',
+        items: SYMBOL_SCHEMA,
+      },
+      summary: {
+        type: 'object',
+        properties: {
+          totalArcaneForce: { type: 'number' },
+          totalSacredForce: { type: 'number' },
+          formattedArcaneForce: { type: 'string' },
+          formattedSacredForce: { type: 'string' },
+          maxedSymbols: { type: 'number' },
+          totalSymbols: { type: 'number' },
+          daysToMaxAll: { type: 'number' },
+          dailyArcaneSymbols: { type: 'number' },
+          dailySacredSymbols: { type: 'number' },
+        },
+      },
+    },
+    required: ['characterName', 'date', 'arcane', 'sacred', 'summary'],
+  };
+
+  public readonly metadata = {
+    category: ToolCategory.CHARACTER,
+    tags: ['character', 'symbols', 'arcane force', 'sacred force', 'progression'],
+    examples: [
+      {
+        description: 'Get symbol progress for character',
+        arguments: { characterName: 'AquilaHero' },
+      },
+      {
+        description: 'Project symbol progress with custom daily gains',
+        arguments: { characterName: 'AquilaHero', dailyArcaneSymbols: 9, dailySacredSymbols: 20 },
+      },
+    ],
+  };
+
+  protected async executeImpl(
+    args: Record<string, any>,
+    context: ToolContext
+  ): Promise<ToolResult> {
+    const characterName = this.getRequiredString(args, 'characterName');
+    const date = this.getOptionalString(args, 'date');
+    const dailyArcaneSymbols = this.getOptionalNumber(
+      args,
+      'dailyArcaneSymbols',
+      SYMBOL_PROGRESSION.ARCANE.DAILY_GROWTH
+    );
+    const dailySacredSymbols = this.getOptionalNumber(
+      args,
+      'dailySacredSymbols',
+      SYMBOL_PROGRESSION.SACRED.DAILY_GROWTH
+    );
+
+    try {
+      const startTime = Date.now();
+
+      // Get character OCID first
+      context.logger.info('Looking up character OCID for symbols', { characterName });
+      const ocidResult = await context.nexonClient.getCharacterOcid(characterName);
+      const ocid = ocidResult.ocid;
+
+      // Get symbol equipment data
+      context.logger.info('Fetching character symbol equipment', { characterName, ocid });
+      const symbolEquipment: SymbolEquipment =
+        await context.nexonClient.getCharacterSymbolEquipment(ocid, date);
+
+      const executionTime = Date.now() - startTime;
+
+      const symbols = symbolEquipment.symbol || [];
+      const arcane = symbols
+        .filter((symbol) => getSymbolFamily(symbol.symbol_name) === 'arcane')
+        .map((symbol) => formatSymbol(symbol, 'arcane', dailyArcaneSymbols));
+      const sacred = symbols
+        .filter((symbol) => getSymbolFamily(symbol.symbol_name) === 'sacred')
+        .map((symbol) => formatSymbol(symbol, 'sacred', dailySacredSymbols));
+
+      const totalArcaneForce = arcane.reduce((sum, symbol) => sum + symbol.force, 0);
+      const totalSacredForce = sacred.reduce((sum, symbol) => sum + symbol.force, 0);
+      const allSymbols = [...arcane, ...sacred];
+
+      context.logger.info('Character symbols retrieved successfully', {
+        characterName,
+        arcaneSymbols: arcane.length,
+        sacredSymbols: sacred.length,
+        executionTime,
+      });
+
+      return this.formatResult(
+        {
+          characterName,
+          characterClass: symbolEquipment.character_class,
+          date: symbolEquipment.date
+            ? formatSEADate(symbolEquipment.date)
+            : date
+              ? formatSEADate(date)
+              : getCurrentSEADate(),
+          arcane,
+          sacred,
+          summary: {
+            totalArcaneForce,
+            totalSacredForce,
+            formattedArcaneForce: formatSEANumber(totalArcaneForce),
+            formattedSacredForce: formatSEANumber(totalSacredForce),
+            maxedSymbols: allSymbols.filter((symbol) => symbol.maxed).length,
+            totalSymbols: allSymbols.length,
+            daysToMaxAll:
+              allSymbols.length > 0 ? Math.max(...allSymbols.map((symbol) => symbol.daysToMax)) : 0,
+            dailyArcaneSymbols,
+            dailySacredSymbols,
+          },
+        },
+        {
+          executionTime,
+          cacheHit: false,
+          apiCalls: 2, // OCID lookup + symbol equipment
+        }
+      );
+    } catch (error) {
+      context.logger.error('Failed to get character symbols', {
+        characterName,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      return this.formatError(
+        `Failed to get symbols for character "${characterName}": ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+}
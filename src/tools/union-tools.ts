@@ -12,6 +12,7 @@ import { formatSEADate, formatSEANumber, getCurrentSEADate } from '../utils/serv
  */
 export class GetUnionInfoTool extends EnhancedBaseTool {
   public readonly name = 'get_union_info';
+  public readonly title = 'Union Info';
   public readonly description =
     'Retrieve union information for a MapleStory SEA character including level, grade, and artifact details';
 
@@ -35,6 +36,25 @@ export class GetUnionInfoTool extends EnhancedBaseTool {
     additionalProperties: false,
   };
 
+  protected readonly dataSchema: JSONSchema7 = {
+    type: 'object',
+    properties: {
+      characterName: { type: 'string' },
+      date: { type: 'string', description: 'Snapshot date (DD/MM/YYYY)' },
+      unionLevel: { type: 'string' },
+      unionGrade: { type: 'string' },
+      unionArtifact: {
+        type: 'object',
+        properties: {
+          level: { type: 'string' },
+          exp: { type: 'string' },
+          point: { type: 'string' },
+        },
+      },
+    },
+    required: ['characterName', 'date', 'unionLevel', 'unionArtifact'],
+  };
+
   public readonly metadata = {
     category: ToolCategory.UNION,
     tags: ['union', 'level', 'grade', 'artifact'],
@@ -121,6 +141,7 @@ export class GetUnionInfoTool extends EnhancedBaseTool {
  */
 export class GetUnionRaiderTool extends EnhancedBaseTool {
   public readonly name = 'get_union_raider';
+  public readonly title = 'Union Raider Board';
   public readonly description =
     'Retrieve union raider board information including block placement and stats';
 
@@ -144,6 +165,36 @@ export class GetUnionRaiderTool extends EnhancedBaseTool {
     additionalProperties: false,
   };
 
+  protected readonly dataSchema: JSONSchema7 = {
+    type: 'object',
+    properties: {
+      characterName: { type: 'string' },
+      date: { type: 'string', description: 'Snapshot date, or latest' },
+      presetNo: { type: ['number', 'null'] },
+      raiderStats: { type: 'array', items: { type: 'string' } },
+      occupiedStats: { type: 'array', items: { type: 'string' } },
+      innerStats: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            fieldId: { type: 'string' },
+            effect: { type: 'string' },
+          },
+        },
+      },
+      blocks: {
+        type: 'object',
+        properties: {
+          total: { type: 'number' },
+          byClass: { type: 'object', description: 'Placed blocks by character class' },
+          details: { type: 'array', items: { type: 'object' } },
+        },
+      },
+    },
+    required: ['characterName', 'date', 'raiderStats', 'occupiedStats', 'innerStats', 'blocks'],
+  };
+
   public readonly metadata = {
     category: ToolCategory.UNION,
     tags: ['union', 'raider', 'blocks', 'stats', 'board'],
@@ -249,6 +300,7 @@ export class GetUnionRaiderTool extends EnhancedBaseTool {
  */
 export class GetUnionRankingTool extends EnhancedBaseTool {
   public readonly name = 'get_union_ranking';
+  public readonly title = 'Union Ranking';
   public readonly description =
     'Retrieve union power rankings for a specific world or overall rankings';
 
@@ -283,6 +335,43 @@ export class GetUnionRankingTool extends EnhancedBaseTool {
     additionalProperties: false,
   };
 
+  protected readonly dataSchema: JSONSchema7 = {
+    type: 'object',
+    properties: {
+      page: { type: 'number' },
+      pageSize: { type: 'number' },
+      worldName: { type: 'string' },
+      searchCharacter: { type: 'string' },
+      date: { type: 'string', description: 'Ranking date, or latest' },
+      rankings: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            rank: { type: 'number' },
+            characterName: { type: 'string' },
+            world: { type: 'string' },
+            class: { type: 'string' },
+            subClass: { type: ['string', 'null'] },
+            unionLevel: { type: 'number' },
+            unionPower: { type: 'number' },
+            date: { type: 'string' },
+          },
+        },
+      },
+      summary: {
+        type: 'object',
+        properties: {
+          totalResults: { type: 'number' },
+          topUnionLevel: { type: 'number' },
+          topUnionPower: { type: 'number' },
+          worldDistribution: { type: 'object', description: 'Entries per world' },
+        },
+      },
+    },
+    required: ['page', 'pageSize', 'worldName', 'date', 'rankings', 'summary'],
+  };
+
   public readonly metadata = {
     category: ToolCategory.UNION,
     tags: ['union', 'ranking', 'power', 'leaderboard'],
@@ -404,3 +493,227 @@ export class GetUnionRankingTool extends EnhancedBaseTool {
     }
   }
 }
+
+/**
+ * Tool for getting union artifact crystals, effects and expiry warnings
+ */
+export class GetUnionArtifactTool extends EnhancedBaseTool {
+  public readonly name = 'get_union_artifact';
+  public readonly title = 'Union Artifact';
+  public readonly description =
+    'Retrieve union artifact crystals with options and expiry, aggregated artifact effects and unspent AP for a MapleStory SEA character';
+
+  public readonly inputSchema: JSONSchema7 = {
+    type: 'object',
+    properties: {
+      characterName: {
+        type: 'string',
+        description: 'The name of the character to look up union artifact for',
+        minLength: 1,
+        maxLength: 12,
+        pattern: '^[a-zA-Z0-9]+$',
+      },
+      date: {
+        type: 'string',
+        description:
+          'Date for union artifact in YYYY-MM-DD format (optional, defaults to yesterday)',
+        pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+      },
+      expiryWarningDays: {
+        type: 'number',
+        description: 'Warn about crystals expiring within this many days (default: 7)',
+        minimum: 0,
+        maximum: 60,
+      },
+    },
+    required: ['characterName'],
+    additionalProperties: false,
+  };
+
+  protected readonly dataSchema: JSONSchema7 = {
+    type: 'object',
+    properties: {
+      characterName: { type: 'string' },
+      date: { type: 'string', description: 'Snapshot date (DD/MM/YYYY)' },
+      crystals: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            level: { type: 'number' },
+            options: { type: 'array', items: { type: 'string' } },
+            valid: { type: 'boolean' },
+            dateExpire: { type: ['string', 'null'] },
+            daysUntilExpiry: { type: ['number', 'null'] },
+          },
+        },
+      },
+      effects: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            level: { type: 'number' },
+          },
+        },
+      },
+      remainAp: { type: 'number' },
+      warnings: { type: 'array', items: { type: 'string' } },
+      summary: {
+        type: 'object',
+        properties: {
+          totalCrystals: { type: 'number' },
+          activeCrystals: { type: 'number' },
+          expiredCrystals: { type: 'number' },
+          expiringSoon: { type: 'number' },
+          expiryWarningDays: { type: 'number' },
+          totalCrystalLevel: { type: 'number' },
+          totalEffectLevel: { type: 'number' },
+        },
+      },
+    },
+    required: ['characterName', 'date', 'crystals', 'effects', 'remainAp', 'warnings', 'summary'],
+  };
+
+  public readonly metadata = {
+    category: ToolCategory.UNION,
+    tags: ['union', 'artifact', 'crystals', 'expiry', 'ap'],
+    examples: [
+      {
+        description: 'Get union artifact for character',
+        arguments: { characterName: 'AquilaHero' },
+      },
+      {
+        description: 'Warn about crystals expiring within two weeks',
+        arguments: { characterName: 'AquilaHero', expiryWarningDays: 14 },
+      },
+    ],
+  };
+
+  protected async executeImpl(
+    args: Record<string, any>,
+    context: ToolContext
+  ): Promise<ToolResult> {
+    const characterName = this.getRequiredString(args, 'characterName');
+    const date = this.getOptionalString(args, 'date');
+    const expiryWarningDays = this.getOptionalNumber(args, 'expiryWarningDays', 7);
+
+    try {
+      const startTime = Date.now();
+
+      // Get character OCID first
+      context.logger.info('Looking up character OCID for union artifact', { characterName });
+      const ocidResult = await context.nexonClient.getCharacterOcid(characterName);
+      const ocid = ocidResult.ocid;
+
+      // Get union artifact
+      context.logger.info('Fetching union artifact', { characterName, ocid });
+      const artifact = await context.nexonClient.getUnionArtifact(ocid, date);
+
+      const executionTime = Date.now() - startTime;
+      const now = Date.now();
+
+      const crystals = (artifact.union_artifact_crystal || []).map((crystal) => {
+        const expireTime = crystal.date_expire ? new Date(crystal.date_expire).getTime() : NaN;
+        const daysUntilExpiry = isNaN(expireTime)
+          ? null
+          : Math.max(0, Math.ceil((expireTime - now) / (24 * 60 * 60 * 1000)));
+        // validity_flag is "0" while the crystal is active and "1" once it has expired
+        const valid = crystal.validity_flag === '0' && daysUntilExpiry !== 0;
+
+        return {
+          name: crystal.name,
+          level: crystal.level,
+          options: [
+            crystal.crystal_option_name_1,
+            crystal.crystal_option_name_2,
+            crystal.crystal_option_name_3,
+          ].filter((option) => !!option),
+          valid,
+          dateExpire: crystal.date_expire ? formatSEADate(crystal.date_expire, true) : null,
+          daysUntilExpiry,
+        };
+      });
+
+      const effects = [...(artifact.union_artifact_effect || [])]
+        .sort((a, b) => b.level - a.level)
+        .map((effect) => ({ name: effect.name, level: effect.level }));
+
+      const expiringSoon = crystals.filter(
+        (crystal) =>
+          crystal.valid &&
+          crystal.daysUntilExpiry !== null &&
+          crystal.daysUntilExpiry <= expiryWarningDays
+      );
+      const expired = crystals.filter((crystal) => !crystal.valid);
+      const remainAp = artifact.union_artifact_remain_ap || 0;
+
+      const warnings: string[] = [];
+      expiringSoon.forEach((crystal) => {
+        warnings.push(
+          `${crystal.name} expires in ${crystal.daysUntilExpiry} day(s) - recharge it to keep its options active`
+        );
+      });
+      if (expired.length > 0) {
+        warnings.push(
+          `${expired.length} crystal(s) have expired and currently provide no effects: ${expired
+            .map((crystal) => crystal.name)
+            .join(', ')}`
+        );
+      }
+      if (remainAp > 0) {
+        warnings.push(`${formatSEANumber(remainAp)} artifact AP left unspent`);
+      }
+
+      context.logger.info('Union artifact retrieved successfully', {
+        characterName,
+        crystals: crystals.length,
+        expiringSoon: expiringSoon.length,
+        remainAp,
+        executionTime,
+      });
+
+      return this.formatResult(
+        {
+          characterName,
+          date: artifact.date
+            ? formatSEADate(artifact.date)
+            : date
+              ? formatSEADate(date)
+              : getCurrentSEADate(),
+          crystals,
+          effects,
+          remainAp,
+          warnings,
+          summary: {
+            totalCrystals: crystals.length,
+            activeCrystals: crystals.filter((crystal) => crystal.valid).length,
+            expiredCrystals: expired.length,
+            expiringSoon: expiringSoon.length,
+            expiryWarningDays,
+            totalCrystalLevel: crystals.reduce((sum, crystal) => sum + crystal.level, 0),
+            totalEffectLevel: effects.reduce((sum, effect) => sum + effect.level, 0),
+          },
+        },
+        {
+          executionTime,
+          cacheHit: false,
+          apiCalls: 2, // OCID lookup + union artifact
+        }
+      );
+    } catch (error) {
+      context.logger.error('Failed to get union artifact', {
+        characterName,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      return this.formatError(
+        `Failed to get union artifact for character "${characterName}": ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * Pool of NEXON API keys. Requests are spread across the keys, each with its own rate
+ * limiter and daily quota, and a key the API rejects or rate limits is benched for a while.
+ */
+
+import { createHash } from 'crypto';
+import { RATE_LIMIT } from '../api/constants';
+import { ApiError } from '../api/types';
+import { InvalidApiKeyError, McpMapleError, RateLimitError, SeaQuotaExceededError } from './errors';
+import { McpLogger } from './logger';
+import { RateLimiter, RateLimiterConfig, RateLimiterStats } from './rate-limiter';
+
+/** Why a key was taken out of rotation: the API refused it (401/403) or rate limited it (429) */
+export type KeyBenchReason = 'rejected' | 'rate_limited';
+
+export interface ApiKeyStats {
+  /** Position of the key in the pool, e.g. key-1; the keys themselves are never reported */
+  id: string;
+  /** Last four characters of the key */
+  suffix: string;
+  requests: number;
+  /** Responses refusing the key (401/403) */
+  rejected: number;
+  /** Responses rate limiting the key (429) */
+  rateLimited: number;
+  benched: boolean;
+  benchReason?: KeyBenchReason;
+  benchedUntil?: string;
+  rateLimit: RateLimiterStats;
+}
+
+export interface ApiKeyPoolStats {
+  /** Keys currently in rotation */
+  available: number;
+  /** Requests made today across all keys */
+  dailyUsed: number;
+  /** Requests left today across all keys before their quotas refuse more */
+  dailyRemaining: number;
+  keys: ApiKeyStats[];
+}
+
+interface PooledKey {
+  id: string;
+  key: string;
+  limiter: RateLimiter;
+  requests: number;
+  rejected: number;
+  rateLimited: number;
+  benchedUntil: number;
+  benchReason?: KeyBenchReason;
+}
+
+/**
+ * Whether an API error should bench the key that made the request
+ */
+export function getKeyBenchReason(error: unknown): KeyBenchReason | null {
+  if (error instanceof McpMapleError) {
+    if (error.statusCode === 401 || error.statusCode === 403) {
+      return 'rejected';
+    }
+    return error.statusCode === 429 ? 'rate_limited' : null;
+  }
+
+  // Errors passed through in the legacy { error: { name } } format
+  switch ((error as ApiError)?.error?.name) {
+    case 'UNAUTHORIZED':
+    case 'FORBIDDEN':
+      return 'rejected';
+    case 'RATE_LIMITED':
+      return 'rate_limited';
+    default:
+      return null;
+  }
+}
+
+export class ApiKeyPool {
+  private keys: PooledKey[];
+  private logger: McpLogger;
+
+  constructor(apiKeys: string[], config: RateLimiterConfig = {}) {
+    const uniqueKeys = [...new Set(apiKeys.map((key) => key.trim()).filter(Boolean))];
+    if (uniqueKeys.length === 0) {
+      throw new Error('At least one NEXON API key is required');
+    }
+
+    this.keys = uniqueKeys.map((key, index) => ({
+      id: `key-${index + 1}`,
+      key,
+      // Usage is stored under a hash of the key so the key never lands in the cache file
+      limiter: new RateLimiter({
+        ...config,
+        usageId: createHash('sha256').update(key).digest('hex').slice(0, 16),
+      }),
+      requests: 0,
+      rejected: 0,
+      rateLimited: 0,
+      benchedUntil: 0,
+    }));
+    this.logger = new McpLogger('api-key-pool');
+  }
+
+  get size(): number {
+    return this.keys.length;
+  }
+
+  /**
+   * Pick a key for a request to the endpoint and wait for its rate limiter. Prefers the key
+   * that can send soonest, then the least used one, and moves on to the next key when a
+   * key's daily quota is used up.
+   */
+  async acquire(endpoint: string, signal?: AbortSignal): Promise<string> {
+    const available = this.getAvailableKeys();
+    if (available.length === 0) {
+      throw this.getAllBenchedError();
+    }
+
+    const candidates = available
+      .map((pooled) => ({ pooled, wait: pooled.limiter.getWaitTime(endpoint) }))
+      .sort((a, b) => a.wait - b.wait || a.pooled.requests - b.pooled.requests);
+
+    let lastError: unknown;
+    for (const { pooled } of candidates) {
+      try {
+        await pooled.limiter.acquire(endpoint, signal);
+        pooled.requests++;
+        return pooled.key;
+      } catch (error) {
+        if (!(error instanceof SeaQuotaExceededError)) {
+          throw error;
+        }
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Take a key out of rotation after the API rejected or rate limited it. Returns whether
+   * the key was benched; a pool of one key has nothing to rotate to, so it never is.
+   */
+  bench(apiKey: string, error: unknown): boolean {
+    const reason = getKeyBenchReason(error);
+    const pooled = this.keys.find((candidate) => candidate.key === apiKey);
+    if (!reason || !pooled) {
+      return false;
+    }
+
+    if (reason === 'rejected') {
+      pooled.rejected++;
+    } else {
+      pooled.rateLimited++;
+    }
+
+    if (this.keys.length < 2) {
+      return false;
+    }
+
+    const duration =
+      reason === 'rejected' ? RATE_LIMIT.KEY_BENCH_REJECTED : RATE_LIMIT.KEY_BENCH_RATE_LIMITED;
+    pooled.benchedUntil = Date.now() + duration;
+    pooled.benchReason = reason;
+    this.logger.warn('API key benched', {
+      id: pooled.id,
+      reason,
+      until: new Date(pooled.benchedUntil).toISOString(),
+      available: this.getAvailableKeys().length,
+    });
+    return true;
+  }
+
+  hasAvailableKey(): boolean {
+    return this.getAvailableKeys().length > 0;
+  }
+
+  getStats(): ApiKeyPoolStats {
+    const now = Date.now();
+    const keys = this.keys.map((pooled): ApiKeyStats => {
+      const benched = pooled.benchedUntil > now;
+      return {
+        id: pooled.id,
+        suffix: pooled.key.slice(-4),
+        requests: pooled.requests,
+        rejected: pooled.rejected,
+        rateLimited: pooled.rateLimited,
+        benched,
+        ...(benched &&
+          pooled.benchReason && {
+            benchReason: pooled.benchReason,
+            benchedUntil: new Date(pooled.benchedUntil).toISOString(),
+          }),
+        rateLimit: pooled.limiter.getStats(),
+      };
+    });
+
+    return {
+      available: keys.filter((key) => !key.benched).length,
+      dailyUsed: keys.reduce((total, key) => total + key.rateLimit.daily.used, 0),
+      dailyRemaining: keys.reduce((total, key) => total + key.rateLimit.daily.remaining, 0),
+      keys,
+    };
+  }
+
+  private getAvailableKeys(): PooledKey[] {
+    const now = Date.now();
+    return this.keys.filter((pooled) => pooled.benchedUntil <= now);
+  }
+
+  /**
+   * Error for a request made while every key is benched
+   */
+  private getAllBenchedError(): McpMapleError {
+    const rateLimited = this.keys.filter((pooled) => pooled.benchReason === 'rate_limited');
+    if (rateLimited.length === 0) {
+      return new InvalidApiKeyError();
+    }
+
+    const nextAvailable = Math.min(...rateLimited.map((pooled) => pooled.benchedUntil));
+    return new RateLimitError(Math.ceil((nextAvailable - Date.now()) / 1000));
+  }
+}
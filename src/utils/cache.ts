@@ -1,19 +1,116 @@
 /**
- * Simple in-memory cache for API responses
+ * Cache backends for API responses: a process-local in-memory cache and a
+ * disk-backed cache that survives restarts of the stdio server
  */
 
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { McpLogger } from './logger';
+
+export type CacheBackend = 'memory' | 'file';
+
 interface CacheEntry<T> {
   data: T;
   timestamp: number;
   ttl: number;
+  /** Approximate serialised size of the key and value */
+  bytes: number;
+}
+
+export interface CacheNamespaceStats {
+  entries: number;
+  bytes: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+  hitRate: number;
+}
+
+export interface CacheStats {
+  backend: CacheBackend;
+  size: number;
+  maxSize: number;
+  bytes: number;
+  maxBytes: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+  hitRate: number;
+  namespaces: Record<string, CacheNamespaceStats>;
+  filePath?: string;
+}
+
+/**
+ * Interface shared by all cache backends
+ */
+export interface ICache {
+  set<T>(key: string, value: T, ttl?: number): void;
+  get<T>(key: string): T | null;
+  getStale<T>(key: string): T | null;
+  has(key: string): boolean;
+  delete(key: string): boolean;
+  clear(): void;
+  cleanup(): void;
+  /** Write out anything the backend has pending; call before shutdown */
+  close(): void;
+  size(): number;
+  getStats(): CacheStats;
+}
+
+export interface CacheConfig {
+  backend?: CacheBackend;
+  /** JSON-lines file used by the file backend */
+  filePath?: string;
+  maxSize?: number;
+  /** Approximate memory budget for cached values in bytes */
+  maxBytes?: number;
+  /** How long expired entries are kept to serve while fresh data can't be fetched (ms) */
+  staleGrace?: number;
 }
 
-export class MemoryCache {
-  private cache = new Map<string, CacheEntry<any>>();
-  private maxSize: number;
+export const DEFAULT_CACHE_FILE = path.join(os.homedir(), '.mcp-maple', 'cache.jsonl');
+export const DEFAULT_CACHE_MAX_BYTES = 50 * 1024 * 1024;
+export const DEFAULT_STALE_GRACE = 60 * 60 * 1000;
+
+interface NamespaceCounters {
+  hits: number;
+  misses: number;
+  evictions: number;
+}
+
+/**
+ * Approximate the memory held by an entry from its JSON size
+ */
+function estimateBytes(key: string, value: unknown): number {
+  return Buffer.byteLength(key) + Buffer.byteLength(JSON.stringify(value) ?? '');
+}
 
-  constructor(maxSize: number = 1000) {
+function hitRate(hits: number, misses: number): number {
+  const total = hits + misses;
+  return total === 0 ? 0 : Math.round((hits / total) * 1000) / 1000;
+}
+
+/**
+ * In-memory LRU cache bounded by entry count and approximate bytes
+ */
+export class MemoryCache implements ICache {
+  // Map iteration order doubles as recency order: least recently used first
+  protected cache = new Map<string, CacheEntry<any>>();
+  protected maxSize: number;
+  protected maxBytes: number;
+  protected staleGrace: number;
+  private bytes = 0;
+  private counters = new Map<string, NamespaceCounters>();
+
+  constructor(
+    maxSize: number = 1000,
+    maxBytes: number = DEFAULT_CACHE_MAX_BYTES,
+    staleGrace: number = DEFAULT_STALE_GRACE
+  ) {
     this.maxSize = maxSize;
+    this.maxBytes = maxBytes;
+    this.staleGrace = staleGrace;
   }
 
   /**
@@ -21,18 +118,16 @@ export class MemoryCache {
    */
   set<T>(key: string, value: T, ttl: number = 300000): void {
     // Default 5 minutes
-    const now = Date.now();
+    const bytes = estimateBytes(key, value);
 
-    // Remove expired entries if cache is getting full
-    if (this.cache.size >= this.maxSize) {
-      this.cleanup();
+    // A value larger than the whole budget would evict everything else
+    if (bytes > this.maxBytes) {
+      this.delete(key);
+      return;
     }
 
-    this.cache.set(key, {
-      data: value,
-      timestamp: now,
-      ttl,
-    });
+    this.store(key, { data: value, timestamp: Date.now(), ttl, bytes });
+    this.evict();
   }
 
   /**
@@ -40,19 +135,34 @@ export class MemoryCache {
    */
   get<T>(key: string): T | null {
     const entry = this.cache.get(key);
+    const counters = this.getCounters(key);
 
-    if (!entry) {
+    // Expired entries stay for the stale grace period so getStale can still serve them
+    if (!entry || this.isExpired(entry)) {
+      if (entry && this.isPastGrace(entry)) {
+        this.remove(key);
+      }
+      counters.misses++;
       return null;
     }
 
-    const now = Date.now();
-    const isExpired = now - entry.timestamp > entry.ttl;
+    // Mark as most recently used
+    this.cache.delete(key);
+    this.cache.set(key, entry);
+    counters.hits++;
 
-    if (isExpired) {
-      this.cache.delete(key);
+    return entry.data as T;
+  }
+
+  /**
+   * Get a value even if it has expired, as long as it is within the stale grace period.
+   * Used when fresh data is being refreshed or cannot be fetched.
+   */
+  getStale<T>(key: string): T | null {
+    const entry = this.cache.get(key);
+    if (!entry || this.isPastGrace(entry)) {
       return null;
     }
-
     return entry.data as T;
   }
 
@@ -60,14 +170,15 @@ export class MemoryCache {
    * Check if a key exists and is not expired
    */
   has(key: string): boolean {
-    return this.get(key) !== null;
+    const entry = this.cache.get(key);
+    return entry !== undefined && !this.isExpired(entry);
   }
 
   /**
    * Delete a specific key
    */
   delete(key: string): boolean {
-    return this.cache.delete(key);
+    return this.remove(key);
   }
 
   /**
@@ -75,25 +186,29 @@ export class MemoryCache {
    */
   clear(): void {
     this.cache.clear();
+    this.bytes = 0;
   }
 
   /**
-   * Remove expired entries
+   * Remove entries that have expired and outlived the stale grace period
    */
   cleanup(): void {
-    const now = Date.now();
     const keysToDelete: string[] = [];
 
     for (const [key, entry] of this.cache.entries()) {
-      const isExpired = now - entry.timestamp > entry.ttl;
-      if (isExpired) {
+      if (this.isPastGrace(entry)) {
         keysToDelete.push(key);
       }
     }
 
-    keysToDelete.forEach((key) => this.cache.delete(key));
+    keysToDelete.forEach((key) => this.remove(key));
   }
 
+  /**
+   * Nothing to write out for the in-memory cache
+   */
+  close(): void {}
+
   /**
    * Get cache size
    */
@@ -102,15 +217,140 @@ export class MemoryCache {
   }
 
   /**
-   * Get cache statistics
+   * Get cache statistics, including per-namespace hit/miss/eviction counters
    */
-  getStats(): { size: number; maxSize: number; hitRate?: number } {
+  getStats(): CacheStats {
+    const namespaces: Record<string, CacheNamespaceStats> = {};
+    const namespaceStats = (namespace: string): CacheNamespaceStats => {
+      if (!namespaces[namespace]) {
+        const counters = this.counters.get(namespace) ?? { hits: 0, misses: 0, evictions: 0 };
+        namespaces[namespace] = {
+          entries: 0,
+          bytes: 0,
+          ...counters,
+          hitRate: hitRate(counters.hits, counters.misses),
+        };
+      }
+      return namespaces[namespace];
+    };
+
+    this.counters.forEach((_, namespace) => namespaceStats(namespace));
+    this.cache.forEach((entry, key) => {
+      const stats = namespaceStats(MemoryCache.getNamespace(key));
+      stats.entries++;
+      stats.bytes += entry.bytes;
+    });
+
+    let hits = 0;
+    let misses = 0;
+    let evictions = 0;
+    this.counters.forEach((counters) => {
+      hits += counters.hits;
+      misses += counters.misses;
+      evictions += counters.evictions;
+    });
+
     return {
+      backend: 'memory',
       size: this.cache.size,
       maxSize: this.maxSize,
+      bytes: this.bytes,
+      maxBytes: this.maxBytes,
+      hits,
+      misses,
+      evictions,
+      hitRate: hitRate(hits, misses),
+      namespaces,
     };
   }
 
+  /**
+   * Namespace of a cache key for metrics, e.g. `sea_ocid` or `sea_api:character/stat`
+   */
+  static getNamespace(key: string): string {
+    const [prefix = key, rest = ''] = key.split(':');
+    if (prefix === 'sea_api') {
+      return `sea_api:${rest.replace(/^\/maplestorysea\/v\d+\//, '')}`;
+    }
+    return prefix;
+  }
+
+  /**
+   * Insert or replace an entry as the most recently used, keeping byte totals in sync
+   */
+  protected store(key: string, entry: CacheEntry<unknown>): void {
+    this.remove(key);
+    this.cache.set(key, entry);
+    this.bytes += entry.bytes;
+  }
+
+  /**
+   * Remove an entry, keeping byte totals in sync
+   */
+  protected remove(key: string): boolean {
+    const entry = this.cache.get(key);
+    if (!entry) {
+      return false;
+    }
+
+    this.cache.delete(key);
+    this.bytes -= entry.bytes;
+    return true;
+  }
+
+  /**
+   * Evict least recently used entries until the cache is within its limits
+   */
+  protected evict(): void {
+    if (!this.isOverLimit()) {
+      return;
+    }
+
+    // Entries past their stale grace period go first, then other expired entries
+    this.cleanup();
+
+    for (const [key, entry] of Array.from(this.cache.entries())) {
+      if (!this.isOverLimit()) {
+        return;
+      }
+      if (this.isExpired(entry)) {
+        this.delete(key);
+        this.getCounters(key).evictions++;
+      }
+    }
+
+    while (this.isOverLimit()) {
+      const oldestKey = this.cache.keys().next().value;
+      if (oldestKey === undefined) {
+        break;
+      }
+      this.delete(oldestKey);
+      this.getCounters(oldestKey).evictions++;
+    }
+  }
+
+  private isOverLimit(): boolean {
+    return this.cache.size > this.maxSize || this.bytes > this.maxBytes;
+  }
+
+  private isExpired(entry: CacheEntry<unknown>): boolean {
+    return Date.now() - entry.timestamp > entry.ttl;
+  }
+
+  private isPastGrace(entry: CacheEntry<unknown>): boolean {
+    return Date.now() - entry.timestamp > entry.ttl + this.staleGrace;
+  }
+
+  private getCounters(key: string): NamespaceCounters {
+    const namespace = MemoryCache.getNamespace(key);
+    let counters = this.counters.get(namespace);
+    if (!counters) {
+      counters = { hits: 0, misses: 0, evictions: 0 };
+      this.counters.set(namespace, counters);
+    }
+    return counters;
+  }
+
   /**
    * Generate a cache key for character OCID lookup (SEA API optimized)
    */
@@ -148,5 +388,168 @@ export class MemoryCache {
   }
 }
 
+type FileCacheRecord =
+  | { op: 'set'; key: string; entry: CacheEntry<unknown> }
+  | { op: 'delete'; key: string };
+
+// Rewrite the log once it holds this many more records than live entries
+const COMPACT_SLACK = 500;
+
+/**
+ * Disk-backed cache. Entries are kept in memory and every change is appended to a
+ * JSON-lines file, which is replayed on startup. Expiry uses the stored timestamp
+ * and TTL, so entries expire on schedule across restarts.
+ */
+export class FileCache extends MemoryCache {
+  private readonly filePath: string;
+  private readonly logger = new McpLogger('cache');
+  private records = 0;
+
+  constructor(
+    filePath: string = DEFAULT_CACHE_FILE,
+    maxSize: number = 1000,
+    maxBytes: number = DEFAULT_CACHE_MAX_BYTES,
+    staleGrace: number = DEFAULT_STALE_GRACE
+  ) {
+    super(maxSize, maxBytes, staleGrace);
+    this.filePath = filePath;
+    this.load();
+  }
+
+  set<T>(key: string, value: T, ttl: number = 300000): void {
+    super.set(key, value, ttl);
+    const entry = this.cache.get(key);
+    if (entry) {
+      this.append({ op: 'set', key, entry });
+    }
+  }
+
+  delete(key: string): boolean {
+    const deleted = super.delete(key);
+    if (deleted) {
+      this.append({ op: 'delete', key });
+    }
+    return deleted;
+  }
+
+  clear(): void {
+    super.clear();
+    this.compact();
+  }
+
+  /**
+   * Rewrite the file with only the live entries before shutdown. While running, the file
+   * is only compacted once it has built up enough stale records.
+   */
+  close(): void {
+    this.compact();
+  }
+
+  getStats(): CacheStats {
+    return {
+      ...super.getStats(),
+      backend: 'file',
+      filePath: this.filePath,
+    };
+  }
+
+  /**
+   * Replay the cache file, dropping expired entries and unreadable lines
+   */
+  private load(): void {
+    let contents: string;
+    try {
+      contents = fs.readFileSync(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as { code?: string }).code !== 'ENOENT') {
+        this.logger.warn('Failed to read cache file, starting empty', {
+          filePath: this.filePath,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      return;
+    }
+
+    contents.split('\n').forEach((line) => {
+      if (line.trim() === '') {
+        return;
+      }
+      try {
+        const record = JSON.parse(line) as FileCacheRecord;
+        if (record.op === 'set') {
+          const { data, timestamp, ttl } = record.entry;
+          this.store(record.key, { data, timestamp, ttl, bytes: estimateBytes(record.key, data) });
+        } else if (record.op === 'delete') {
+          this.remove(record.key);
+        }
+      } catch {
+        // A partially written line from an interrupted process; skip it
+      }
+    });
+
+    // Drop entries past their stale grace period and apply the size limits before rewriting
+    super.cleanup();
+    this.evict();
+    this.compact();
+    this.logger.info('Cache loaded from file', {
+      filePath: this.filePath,
+      entries: this.cache.size,
+    });
+  }
+
+  private append(record: FileCacheRecord): void {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.appendFileSync(this.filePath, `${JSON.stringify(record)}\n`);
+      this.records++;
+    } catch (error) {
+      this.logger.warn('Failed to write cache file', {
+        filePath: this.filePath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+
+    if (this.records > this.cache.size + COMPACT_SLACK) {
+      this.compact();
+    }
+  }
+
+  /**
+   * Rewrite the file with only the live entries
+   */
+  private compact(): void {
+    const lines = Array.from(this.cache.entries()).map(
+      ([key, entry]) => `${JSON.stringify({ op: 'set', key, entry })}\n`
+    );
+    const tempPath = `${this.filePath}.tmp`;
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(tempPath, lines.join(''));
+      fs.renameSync(tempPath, this.filePath);
+      this.records = lines.length;
+    } catch (error) {
+      this.logger.warn('Failed to compact cache file', {
+        filePath: this.filePath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+/**
+ * Create the cache backend selected by config
+ */
+export function createCache(config: CacheConfig = {}): ICache {
+  const maxSize = config.maxSize ?? 1000;
+  const maxBytes = config.maxBytes ?? DEFAULT_CACHE_MAX_BYTES;
+  const staleGrace = config.staleGrace ?? DEFAULT_STALE_GRACE;
+  if (config.backend === 'file') {
+    return new FileCache(config.filePath ?? DEFAULT_CACHE_FILE, maxSize, maxBytes, staleGrace);
+  }
+  return new MemoryCache(maxSize, maxBytes, staleGrace);
+}
+
 // Default cache instance
 export const defaultCache = new MemoryCache(1000);
@@ -0,0 +1,152 @@
+/**
+ * Circuit breaker for NEXON API endpoint families. After repeated outage errors the
+ * circuit opens and requests fail fast until a single probe request succeeds.
+ */
+
+import { RATE_LIMIT } from '../api/constants';
+import {
+  McpMapleError,
+  RankingTimeoutError,
+  RequestCancelledError,
+  SeaConnectionError,
+  TimeoutError,
+} from './errors';
+import { McpLogger } from './logger';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerStats {
+  state: CircuitState;
+  /** Consecutive outage errors */
+  failures: number;
+  threshold: number;
+  /** Times the circuit has opened */
+  trips: number;
+  /** Requests failed fast while the circuit was open */
+  rejected: number;
+  openedAt?: string;
+  /** When the next probe request is allowed */
+  retryAt?: string;
+}
+
+/**
+ * Whether an error indicates the API is down (server errors, timeouts, network failures)
+ * rather than a problem with the request itself
+ */
+export function isOutageError(error: unknown): boolean {
+  if (error instanceof RequestCancelledError) {
+    return false;
+  }
+  if (
+    error instanceof TimeoutError ||
+    error instanceof RankingTimeoutError ||
+    error instanceof SeaConnectionError
+  ) {
+    return true;
+  }
+  if (error instanceof McpMapleError) {
+    return (error.statusCode ?? 0) >= 500;
+  }
+  // Errors without an API response, e.g. connection resets
+  return true;
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private trips = 0;
+  private rejected = 0;
+  private openedAt = 0;
+  private probeInFlight = false;
+  private logger: McpLogger;
+
+  constructor(
+    public readonly name: string,
+    private threshold: number = RATE_LIMIT.CIRCUIT_BREAKER_THRESHOLD,
+    private timeout: number = RATE_LIMIT.CIRCUIT_BREAKER_TIMEOUT
+  ) {
+    this.logger = new McpLogger('circuit-breaker');
+  }
+
+  getState(): CircuitState {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.timeout) {
+      this.state = 'half-open';
+      this.logger.info('Circuit half-open, allowing a probe request', { circuit: this.name });
+    }
+    return this.state;
+  }
+
+  /**
+   * Whether a request may be sent now. In the half-open state only one probe
+   * request is let through at a time.
+   */
+  allowRequest(): boolean {
+    const state = this.getState();
+
+    if (state === 'closed') {
+      return true;
+    }
+    if (state === 'half-open' && !this.probeInFlight) {
+      this.probeInFlight = true;
+      return true;
+    }
+
+    this.rejected++;
+    return false;
+  }
+
+  /**
+   * The API responded; close the circuit
+   */
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      this.logger.info('Circuit closed', { circuit: this.name });
+    }
+    this.state = 'closed';
+    this.failures = 0;
+    this.probeInFlight = false;
+  }
+
+  /**
+   * The API is failing; open the circuit once the threshold is reached or a probe fails
+   */
+  recordFailure(): void {
+    this.failures++;
+    this.probeInFlight = false;
+
+    if (this.state === 'half-open' || this.failures >= this.threshold) {
+      if (this.state === 'closed') {
+        this.trips++;
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+      this.logger.warn('Circuit opened', {
+        circuit: this.name,
+        failures: this.failures,
+        retryInMs: this.timeout,
+      });
+    }
+  }
+
+  /**
+   * The request ended without an answer either way (e.g. it was cancelled)
+   */
+  release(): void {
+    this.probeInFlight = false;
+  }
+
+  getStats(): CircuitBreakerStats {
+    const state = this.getState();
+    return {
+      state,
+      failures: this.failures,
+      threshold: this.threshold,
+      trips: this.trips,
+      rejected: this.rejected,
+      ...(state !== 'closed' && {
+        openedAt: new Date(this.openedAt).toISOString(),
+        retryAt: new Date(this.openedAt + this.timeout).toISOString(),
+      }),
+    };
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Tracks when API data served during a tool call came from an expired cache entry,
+ * so tool results can flag it as stale
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+export type StaleDataReason = 'revalidating' | 'api_error' | 'circuit_open';
+
+export interface StaleDataNotice {
+  cacheKey: string;
+  /** Why stale data was served: a background refresh is running or the API failed */
+  reason: StaleDataReason;
+  error?: string;
+}
+
+const staleDataStore = new AsyncLocalStorage<StaleDataNotice[]>();
+
+/**
+ * Record that stale data was served in the current tracked call (no-op outside one)
+ */
+export function recordStaleData(notice: StaleDataNotice): void {
+  staleDataStore.getStore()?.push(notice);
+}
+
+/**
+ * Run an operation and collect the stale data served while it ran
+ */
+export async function trackStaleData<T>(
+  operation: () => Promise<T>
+): Promise<{ result: T; stale: StaleDataNotice[] }> {
+  const stale: StaleDataNotice[] = [];
+  const result = await staleDataStore.run(stale, operation);
+  return { result, stale };
+}
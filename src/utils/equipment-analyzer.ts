@@ -2,6 +2,8 @@
  * Equipment analysis utilities for MapleStory items
  */
 
+import { SetEffect as ApiSetEffect } from '../api/types';
+
 export interface EquipmentEnhancement {
   starforceLevel: number;
   scrollUpgrades: number;
@@ -18,6 +20,18 @@ export interface SetEffect {
     description: string;
     stats: Record<string, number>;
   }>;
+  // Every tier of the set, active or not, when the set-effect endpoint lists them
+  tiers?: Array<{
+    requiredCount: number;
+    description: string;
+    stats: Record<string, number>;
+    active: boolean;
+  }>;
+  nextTier?: {
+    requiredCount: number;
+    remainingCount: number;
+    description: string;
+  } | null;
 }
 
 /**
@@ -142,6 +156,63 @@ export function analyzeSetEffects(equipment: any[]): SetEffect[] {
   return setEffects.filter((set) => set.activeCount >= 2); // Only show sets with 2+ items
 }
 
+/**
+ * Convert set effect data from the set-effect endpoint into analyzed set effects
+ */
+export function parseSetEffects(setEffect: ApiSetEffect | null | undefined): SetEffect[] {
+  if (!setEffect || !Array.isArray(setEffect.set_effect)) return [];
+
+  return setEffect.set_effect
+    .filter((set) => set.total_set_count > 0)
+    .map((set) => {
+      const tiers = set.set_option_full || set.set_effect_info || [];
+      const next = tiers.find((tier) => tier.set_count > set.total_set_count);
+
+      return {
+        setName: set.set_name,
+        activeCount: set.total_set_count,
+        totalCount: tiers.reduce((max, tier) => Math.max(max, tier.set_count), set.total_set_count),
+        effects: (set.set_effect_info || []).map((tier) => ({
+          requiredCount: tier.set_count,
+          description: tier.set_option,
+          stats: parseSetOptionStats(tier.set_option),
+        })),
+        tiers: tiers.map((tier) => ({
+          requiredCount: tier.set_count,
+          description: tier.set_option,
+          stats: parseSetOptionStats(tier.set_option),
+          active: tier.set_count <= set.total_set_count,
+        })),
+        nextTier: next
+          ? {
+              requiredCount: next.set_count,
+              remainingCount: next.set_count - set.total_set_count,
+              description: next.set_option,
+            }
+          : null,
+      };
+    });
+}
+
+/**
+ * Parse set option text such as "STR : +20, Attack Power : +15" into stat values
+ */
+export function parseSetOptionStats(option: string): Record<string, number> {
+  const stats: Record<string, number> = {};
+  if (!option) return stats;
+
+  // Options are comma separated, but values may also contain thousands separators
+  option.split(/,(?!\d)/).forEach((part) => {
+    const match = part.match(/^\s*([^:]+?)\s*:\s*\+?(-?[\d,]+)/);
+    if (match && match[1] && match[2]) {
+      const key = match[1].toLowerCase().replace(/\s+/g, '_');
+      stats[key] = (stats[key] || 0) + parseInt(match[2].replace(/,/g, ''), 10);
+    }
+  });
+
+  return stats;
+}
+
 /**
  * Extract set name from item name
  */
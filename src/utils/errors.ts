@@ -126,6 +126,15 @@ export class RankingTimeoutError extends McpMapleError {
   }
 }
 
+export class RequestCancelledError extends McpMapleError {
+  constructor(endpoint?: string) {
+    const endpointInfo = endpoint ? ` for endpoint ${endpoint}` : '';
+    super(`Request cancelled${endpointInfo}`, 'REQUEST_CANCELLED', 499, { endpoint });
+    this.name = 'RequestCancelledError';
+    Object.setPrototypeOf(this, RequestCancelledError.prototype);
+  }
+}
+
 export class CacheError extends McpMapleError {
   constructor(operation: string, originalError?: Error) {
     super(`Cache operation failed: ${operation}`, 'CACHE_ERROR', undefined, {
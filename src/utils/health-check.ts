@@ -4,7 +4,7 @@
 
 import { McpLogger, defaultLogger } from './logger';
 import { NexonApiClient } from '../api/nexon-client';
-import { MemoryCache, defaultCache } from './cache';
+import { ICache, defaultCache } from './cache';
 
 export interface HealthStatus {
   status: 'healthy' | 'unhealthy' | 'degraded';
@@ -58,7 +58,7 @@ export class ApiHealthChecker extends HealthChecker {
       }
       
       // Check environment variable for API key presence
-      const envApiKey = process.env.NEXON_API_KEY;
+      const envApiKey = process.env.NEXON_API_KEY || process.env.NEXON_API_KEYS?.split(',')[0];
       if (!envApiKey) {
         throw new Error('NEXON_API_KEY environment variable is not set');
       }
@@ -77,14 +77,38 @@ export class ApiHealthChecker extends HealthChecker {
 
       const responseTime = Date.now() - startTime;
 
+      // Every API key benched after rejections or rate limiting
+      const apiKeys = this.apiClient.getApiKeyStats?.();
+      if (apiKeys && apiKeys.available === 0) {
+        return {
+          status: 'unhealthy',
+          lastCheck: new Date().toISOString(),
+          responseTime,
+          error: 'All NEXON API keys are benched',
+          details: { endpoint: 'configuration_check', apiKeyPresent: true, timeout, apiKeys },
+        };
+      }
+
+      // Endpoint families with an open circuit are failing fast
+      const circuitBreakers = this.apiClient.getCircuitBreakerStats?.();
+      const openCircuits = Object.entries(circuitBreakers ?? {})
+        .filter(([, breaker]) => breaker.state !== 'closed')
+        .map(([family]) => family);
+
       return {
-        status: 'healthy',
+        status: openCircuits.length > 0 ? 'degraded' : 'healthy',
         lastCheck: new Date().toISOString(),
         responseTime,
+        ...(openCircuits.length > 0 && {
+          error: `Circuit open for ${openCircuits.join(', ')} endpoints`,
+        }),
         details: {
           endpoint: 'configuration_check',
           apiKeyPresent: true,
           timeout,
+          coalescing: this.apiClient.getCoalescingStats?.(),
+          apiKeys,
+          circuitBreakers,
         },
       };
     } catch (error) {
@@ -144,7 +168,7 @@ export class ApiHealthChecker extends HealthChecker {
 export class CacheHealthChecker extends HealthChecker {
   name = 'cache';
 
-  constructor(private cache: MemoryCache) {
+  constructor(private cache: ICache) {
     super();
   }
 
@@ -152,6 +176,9 @@ export class CacheHealthChecker extends HealthChecker {
     const startTime = Date.now();
 
     try {
+      // Capture metrics before the probe so it doesn't skew the hit rate
+      const stats = this.cache.getStats();
+
       // Test cache operations
       const testKey = 'health-check-test';
       const testValue: { timestamp: number } = { timestamp: Date.now() };
@@ -183,6 +210,12 @@ export class CacheHealthChecker extends HealthChecker {
         details: {
           operations: ['set', 'get', 'delete'],
           cacheSize: this.cache.size(),
+          backend: stats.backend,
+          bytes: stats.bytes,
+          maxBytes: stats.maxBytes,
+          hitRate: stats.hitRate,
+          evictions: stats.evictions,
+          namespaces: stats.namespaces,
         },
       };
     } catch (error) {
@@ -403,7 +436,7 @@ export class HealthCheckManager {
 // Create default health check manager with all checkers
 export function createDefaultHealthManager(
   apiClient?: NexonApiClient,
-  cache?: MemoryCache
+  cache?: ICache
 ): HealthCheckManager {
   const manager = new HealthCheckManager();
 
@@ -411,12 +444,9 @@ export function createDefaultHealthManager(
   manager.registerChecker(new ProcessHealthChecker());
   manager.registerChecker(new MemoryHealthChecker());
 
-  // Add cache checker if available
-  if (cache) {
-    manager.registerChecker(new CacheHealthChecker(cache));
-  } else {
-    manager.registerChecker(new CacheHealthChecker(defaultCache));
-  }
+  // Check the cache the API client actually uses when none is given
+  const clientCache = apiClient?.getCache?.();
+  manager.registerChecker(new CacheHealthChecker(cache ?? clientCache ?? defaultCache));
 
   // Add API checker if available
   if (apiClient) {
@@ -22,6 +22,14 @@ export enum GuildRankingType {
   GUILD_POWER = 1,
 }
 
+/**
+ * Mu Lung Dojang difficulty
+ */
+export enum DojangDifficulty {
+  NORMAL = 0,
+  HARD = 1,
+}
+
 /**
  * Validate page number for ranking queries
  */
@@ -101,6 +109,17 @@ export function formatNumber(num: number | string): string {
   return number.toLocaleString('en-US');
 }
 
+/**
+ * Format a clear time record in seconds as mm:ss
+ */
+export function formatRecordTime(seconds: number): string {
+  if (!Number.isFinite(seconds) || seconds < 0) return '00:00';
+
+  const minutes = Math.floor(seconds / 60);
+  const remainder = Math.floor(seconds % 60);
+  return `${String(minutes).padStart(2, '0')}:${String(remainder).padStart(2, '0')}`;
+}
+
 /**
  * Find character position in ranking data
  */
@@ -193,6 +212,57 @@ export const RankingCacheKeys = {
     return parts.join(':');
   },
 
+  dojang: (
+    worldName?: string,
+    className?: string,
+    difficulty?: number,
+    ocid?: string,
+    page?: number,
+    date?: string
+  ): string => {
+    const parts = ['sea_ranking_dojang', `difficulty:${difficulty ?? DojangDifficulty.NORMAL}`];
+    if (worldName) parts.push(`world:${worldName}`);
+    if (className) parts.push(`class:${className}`);
+    if (ocid) parts.push(`ocid:${ocid}`);
+    if (page) parts.push(`page:${page}`);
+    if (date) parts.push(`date:${date}`);
+    return parts.join(':');
+  },
+
+  dojangSize: (
+    worldName?: string,
+    className?: string,
+    difficulty?: number,
+    date?: string
+  ): string => {
+    const parts = [
+      'sea_ranking_dojang_size',
+      `difficulty:${difficulty ?? DojangDifficulty.NORMAL}`,
+    ];
+    if (worldName) parts.push(`world:${worldName}`);
+    if (className) parts.push(`class:${className}`);
+    if (date) parts.push(`date:${date}`);
+    return parts.join(':');
+  },
+
+  theSeed: (worldName?: string, ocid?: string, page?: number, date?: string): string => {
+    const parts = ['sea_ranking_theseed'];
+    if (worldName) parts.push(`world:${worldName}`);
+    if (ocid) parts.push(`ocid:${ocid}`);
+    if (page) parts.push(`page:${page}`);
+    if (date) parts.push(`date:${date}`);
+    return parts.join(':');
+  },
+
+  achievement: (worldName?: string, ocid?: string, page?: number, date?: string): string => {
+    const parts = ['sea_ranking_achievement'];
+    if (worldName) parts.push(`world:${worldName}`);
+    if (ocid) parts.push(`ocid:${ocid}`);
+    if (page) parts.push(`page:${page}`);
+    if (date) parts.push(`date:${date}`);
+    return parts.join(':');
+  },
+
   guild: (worldName: string, rankingType: number, page?: number, date?: string): string => {
     const parts = ['sea_ranking_guild', `world:${worldName}`, `type:${rankingType}`];
     if (page) parts.push(`page:${page}`);
@@ -0,0 +1,347 @@
+/**
+ * Rate limiting for NEXON API requests: token buckets per endpoint class plus
+ * tracking of the API key's daily quota
+ */
+
+import { RATE_LIMIT } from '../api/constants';
+import { ICache } from './cache';
+import { RateLimitError, RequestCancelledError, SeaQuotaExceededError } from './errors';
+import { McpLogger } from './logger';
+import { SEA_TIMEZONE_OFFSET } from './server-utils';
+
+export type EndpointClass = 'character' | 'union' | 'guild' | 'ranking';
+
+export const ENDPOINT_CLASSES: EndpointClass[] = ['character', 'union', 'guild', 'ranking'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface ClassBudget {
+  requestsPerSecond: number;
+  requestsPerMinute: number;
+}
+
+const CLASS_BUDGETS: Record<EndpointClass, ClassBudget> = {
+  character: {
+    requestsPerSecond: RATE_LIMIT.REQUESTS_PER_SECOND,
+    requestsPerMinute: RATE_LIMIT.REQUESTS_PER_MINUTE,
+  },
+  union: {
+    requestsPerSecond: RATE_LIMIT.REQUESTS_PER_SECOND,
+    requestsPerMinute: RATE_LIMIT.REQUESTS_PER_MINUTE,
+  },
+  guild: {
+    requestsPerSecond: RATE_LIMIT.REQUESTS_PER_SECOND,
+    requestsPerMinute: RATE_LIMIT.REQUESTS_PER_MINUTE,
+  },
+  ranking: {
+    requestsPerSecond: RATE_LIMIT.RANKING.REQUESTS_PER_SECOND,
+    requestsPerMinute: RATE_LIMIT.RANKING.REQUESTS_PER_MINUTE,
+  },
+};
+
+export interface RateLimiterConfig {
+  /** Requests per day allowed for the API key */
+  dailyQuota?: number;
+  /** Share of the daily quota held back so the key is never fully exhausted */
+  dailyQuotaReserve?: number;
+  /** Maximum time a request may wait for a token (ms) */
+  queueTimeout?: number;
+  /** Cache holding daily usage, so a restart doesn't reset it (the file backend persists it) */
+  usageStore?: ICache;
+  /** Identifies the API key's usage record in the usage store */
+  usageId?: string;
+}
+
+export interface DailyQuotaStats {
+  used: number;
+  limit: number;
+  /** Requests refused before the limit is reached */
+  refuseAt: number;
+  remaining: number;
+  resetTime: string;
+}
+
+export interface RateLimiterStats {
+  daily: DailyQuotaStats;
+  classes: Record<EndpointClass, { tokens: number; minuteTokens: number; requests: number }>;
+  /** Requests that had to wait for a token */
+  throttled: number;
+  /** Requests rejected after waiting longer than the queue timeout */
+  queueTimeouts: number;
+  /** Requests refused to protect the daily quota */
+  quotaRefusals: number;
+}
+
+/**
+ * Classify an API endpoint for rate limiting
+ */
+export function getEndpointClass(endpoint: string): EndpointClass {
+  if (endpoint.includes('/ranking/')) {
+    return 'ranking';
+  }
+  if (endpoint.includes('/user/union')) {
+    return 'union';
+  }
+  if (endpoint.includes('/guild/')) {
+    return 'guild';
+  }
+  return 'character';
+}
+
+/**
+ * Token bucket holding up to `capacity` tokens, refilled continuously at `refillPerSecond`
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(
+    private capacity: number,
+    private refillPerSecond: number
+  ) {
+    this.tokens = capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Milliseconds until a token is available (0 when one is available now)
+   */
+  getWaitTime(): number {
+    this.refill();
+    if (this.tokens >= 1) {
+      return 0;
+    }
+    return Math.ceil(((1 - this.tokens) / this.refillPerSecond) * 1000);
+  }
+
+  take(): void {
+    this.refill();
+    this.tokens -= 1;
+  }
+
+  getTokens(): number {
+    this.refill();
+    return Math.floor(this.tokens);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.refillPerSecond);
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * Rate limiter shared by every request made with one API key. Each request takes a token
+ * from the key-wide buckets and from its endpoint class's buckets, and counts against the
+ * daily quota.
+ */
+export class RateLimiter {
+  private globalBuckets: TokenBucket[];
+  private classBuckets: Record<EndpointClass, { second: TokenBucket; minute: TokenBucket }>;
+  private classRequests: Record<EndpointClass, number>;
+  private dailyQuota: number;
+  private refuseAt: number;
+  private queueTimeout: number;
+  private quotaDay: string;
+  private dailyUsed: number;
+  private usageStore: ICache | undefined;
+  private usageId: string;
+  private throttled = 0;
+  private queueTimeouts = 0;
+  private quotaRefusals = 0;
+  private logger: McpLogger;
+
+  constructor(config: RateLimiterConfig = {}) {
+    this.dailyQuota = config.dailyQuota ?? RATE_LIMIT.DAILY_QUOTA;
+    const reserve = config.dailyQuotaReserve ?? RATE_LIMIT.DAILY_QUOTA_RESERVE;
+    this.refuseAt = Math.floor(this.dailyQuota * (1 - reserve));
+    this.queueTimeout = config.queueTimeout ?? RATE_LIMIT.QUEUE_TIMEOUT;
+    this.quotaDay = RateLimiter.getQuotaDay();
+    this.usageStore = config.usageStore;
+    this.usageId = config.usageId ?? 'default';
+    this.dailyUsed = this.loadDailyUsage();
+
+    this.globalBuckets = [
+      new TokenBucket(RATE_LIMIT.BURST_LIMIT, RATE_LIMIT.REQUESTS_PER_SECOND),
+      new TokenBucket(RATE_LIMIT.REQUESTS_PER_MINUTE, RATE_LIMIT.REQUESTS_PER_MINUTE / 60),
+    ];
+
+    const classBuckets = {} as Record<EndpointClass, { second: TokenBucket; minute: TokenBucket }>;
+    const classRequests = {} as Record<EndpointClass, number>;
+    ENDPOINT_CLASSES.forEach((endpointClass) => {
+      const budget = CLASS_BUDGETS[endpointClass];
+      classBuckets[endpointClass] = {
+        second: new TokenBucket(budget.requestsPerSecond, budget.requestsPerSecond),
+        minute: new TokenBucket(budget.requestsPerMinute, budget.requestsPerMinute / 60),
+      };
+      classRequests[endpointClass] = 0;
+    });
+    this.classBuckets = classBuckets;
+    this.classRequests = classRequests;
+
+    this.logger = new McpLogger('rate-limiter');
+  }
+
+  /**
+   * The quota day (YYYY-MM-DD in SGT) for a timestamp
+   */
+  private static getQuotaDay(now: number = Date.now()): string {
+    return new Date(now + SEA_TIMEZONE_OFFSET).toISOString().slice(0, 10);
+  }
+
+  /**
+   * When the daily quota resets: the next midnight SGT
+   */
+  private static getQuotaResetTime(now: number = Date.now()): string {
+    const startOfDay = Math.floor((now + SEA_TIMEZONE_OFFSET) / DAY_MS) * DAY_MS;
+    return new Date(startOfDay + DAY_MS - SEA_TIMEZONE_OFFSET).toISOString();
+  }
+
+  /**
+   * Wait for a token for the endpoint, then record the request against the daily quota.
+   * Throws SeaQuotaExceededError when the daily quota is nearly used up and RateLimitError
+   * when no token becomes available within the queue timeout.
+   */
+  async acquire(endpoint: string, signal?: AbortSignal): Promise<void> {
+    const endpointClass = getEndpointClass(endpoint);
+    const buckets = this.getBuckets(endpointClass);
+    const deadline = Date.now() + this.queueTimeout;
+    let waited = false;
+
+    for (;;) {
+      this.checkDailyQuota(endpoint);
+
+      const wait = Math.max(...buckets.map((bucket) => bucket.getWaitTime()));
+      if (wait === 0) {
+        buckets.forEach((bucket) => bucket.take());
+        this.dailyUsed++;
+        this.saveDailyUsage();
+        this.classRequests[endpointClass]++;
+        return;
+      }
+
+      if (Date.now() + wait > deadline) {
+        this.queueTimeouts++;
+        this.logger.logRateLimit('exceeded', { endpoint, endpointClass, waitMs: wait });
+        throw new RateLimitError(Math.ceil(wait / 1000));
+      }
+
+      if (!waited) {
+        waited = true;
+        this.throttled++;
+        this.logger.logRateLimit('applied', { endpoint, endpointClass, waitMs: wait });
+      }
+
+      await this.sleep(wait, signal);
+      if (signal?.aborted) {
+        throw new RequestCancelledError(endpoint);
+      }
+    }
+  }
+
+  /**
+   * Milliseconds until a request to the endpoint could be sent, without taking a token
+   * (Infinity once the daily quota is used up)
+   */
+  getWaitTime(endpoint: string): number {
+    this.rollQuotaDay();
+    if (this.dailyUsed >= this.refuseAt) {
+      return Infinity;
+    }
+    return Math.max(
+      ...this.getBuckets(getEndpointClass(endpoint)).map((bucket) => bucket.getWaitTime())
+    );
+  }
+
+  getStats(): RateLimiterStats {
+    this.rollQuotaDay();
+
+    const classes = {} as RateLimiterStats['classes'];
+    ENDPOINT_CLASSES.forEach((endpointClass) => {
+      classes[endpointClass] = {
+        tokens: this.classBuckets[endpointClass].second.getTokens(),
+        minuteTokens: this.classBuckets[endpointClass].minute.getTokens(),
+        requests: this.classRequests[endpointClass],
+      };
+    });
+
+    return {
+      daily: {
+        used: this.dailyUsed,
+        limit: this.dailyQuota,
+        refuseAt: this.refuseAt,
+        remaining: Math.max(0, this.refuseAt - this.dailyUsed),
+        resetTime: RateLimiter.getQuotaResetTime(),
+      },
+      classes,
+      throttled: this.throttled,
+      queueTimeouts: this.queueTimeouts,
+      quotaRefusals: this.quotaRefusals,
+    };
+  }
+
+  private getBuckets(endpointClass: EndpointClass): TokenBucket[] {
+    return [
+      ...this.globalBuckets,
+      this.classBuckets[endpointClass].second,
+      this.classBuckets[endpointClass].minute,
+    ];
+  }
+
+  private checkDailyQuota(endpoint: string): void {
+    this.rollQuotaDay();
+
+    if (this.dailyUsed >= this.refuseAt) {
+      this.quotaRefusals++;
+      const resetTime = RateLimiter.getQuotaResetTime();
+      this.logger.warn('Daily API quota nearly exhausted, refusing request', {
+        endpoint,
+        used: this.dailyUsed,
+        limit: this.dailyQuota,
+        resetTime,
+      });
+      throw new SeaQuotaExceededError('daily', resetTime);
+    }
+  }
+
+  private rollQuotaDay(): void {
+    const today = RateLimiter.getQuotaDay();
+    if (today !== this.quotaDay) {
+      this.quotaDay = today;
+      this.dailyUsed = this.loadDailyUsage();
+      this.logger.logRateLimit('reset', { quotaDay: today });
+    }
+  }
+
+  private getUsageKey(): string {
+    return `sea_quota:${this.usageId}:${this.quotaDay}`;
+  }
+
+  private loadDailyUsage(): number {
+    return this.usageStore?.get<number>(this.getUsageKey()) ?? 0;
+  }
+
+  /**
+   * Store today's usage until the quota resets
+   */
+  private saveDailyUsage(): void {
+    const ttl = Date.parse(RateLimiter.getQuotaResetTime()) - Date.now();
+    this.usageStore?.set(this.getUsageKey(), this.dailyUsed, ttl);
+  }
+
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
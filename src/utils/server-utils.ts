@@ -4,6 +4,7 @@
  */
 
 // import { DATE_FORMATS } from '../api/constants';
+import { CACHE_TTL } from '../api/constants';
 
 /**
  * Server status types
@@ -322,6 +323,38 @@ export function getNextDataUpdate(): Date {
   return nextUpdate;
 }
 
+/**
+ * Get the most recent date (YYYY-MM-DD) with complete data in the API.
+ * Data for a day is published during the next day's 08:00-09:30 SGT update.
+ */
+export function getLatestDataDate(): string {
+  const now = getCurrentSEATime();
+  const latest = new Date(now);
+  const updated = now.getHours() > 9 || (now.getHours() === 9 && now.getMinutes() > 30);
+  latest.setDate(latest.getDate() - (updated ? 1 : 2));
+
+  const month = String(latest.getMonth() + 1).padStart(2, '0');
+  const day = String(latest.getDate()).padStart(2, '0');
+  return `${latest.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Get the cache TTL for date-based API data.
+ * Data for dates before the latest update never changes, so it is cached indefinitely.
+ * Latest data expires at the next data update (or after defaultTtl while an update is running).
+ */
+export function getDataCacheTtl(defaultTtl: number, date?: string): number {
+  if (date && date <= getLatestDataDate()) {
+    return CACHE_TTL.HISTORICAL;
+  }
+
+  if (isDuringDataUpdate()) {
+    return defaultTtl;
+  }
+
+  return Math.max(0, getNextDataUpdate().getTime() - getCurrentSEATime().getTime());
+}
+
 export function estimateWorldPopulation(rankingData: any): 'high' | 'medium' | 'low' | 'unknown' {
   if (!rankingData?.ranking?.length) {
     return 'unknown';
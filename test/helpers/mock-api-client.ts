@@ -4,25 +4,45 @@
 
 import { jest } from '@jest/globals';
 import { CharacterOcid, CharacterBasic, CharacterStat, ItemEquipment, UnionInfo, GuildId, GuildBasic } from '../../src/api/types';
+import { NexonApiError } from '../../src/utils/errors';
 
 export class MockNexonApiClient {
   public getCharacterOcid = jest.fn();
   public getCharacterBasic = jest.fn();
   public getCharacterStat = jest.fn();
   public getCharacterItemEquipment = jest.fn();
+  public getCharacterSetEffect = jest.fn();
   public getCharacterCashItemEquipment = jest.fn();
   public getCharacterBeautyEquipment = jest.fn();
+  public getCharacterPetEquipment = jest.fn();
+  public getCharacterAndroidEquipment = jest.fn();
+  public getCharacterVMatrix = jest.fn();
+  public getCharacterHexaMatrix = jest.fn();
+  public getCharacterHexaMatrixStat = jest.fn();
+  public getCharacterSkill = jest.fn();
+  public getCharacterLinkSkill = jest.fn();
+  public getCharacterSymbolEquipment = jest.fn();
+  public getCharacterDojang = jest.fn();
+  public getCharacterHyperStat = jest.fn();
+  public getCharacterPropensity = jest.fn();
+  public getCharacterAbility = jest.fn();
   public getUnionInfo = jest.fn();
   public getUnionRaider = jest.fn();
+  public getUnionArtifact = jest.fn();
   public getGuildInfo = jest.fn();
   public getOverallRanking = jest.fn();
   public getUnionRanking = jest.fn();
   public getGuildRanking = jest.fn();
+  public getDojangRanking = jest.fn();
+  public getTheSeedRanking = jest.fn();
+  public getAchievementRanking = jest.fn();
+  public estimateDojangRankingSize = jest.fn();
   public getNoticeList = jest.fn();
   public getNoticeDetail = jest.fn();
   public getCubeProbability = jest.fn();
   public getStarforceProbability = jest.fn();
   public getClientHealth = jest.fn();
+  public withFreshReads = jest.fn((read: () => Promise<unknown>) => read());
 
   constructor() {
     this.setupDefaultMocks();
@@ -128,13 +148,58 @@ export class MockNexonApiClient {
       ]
     });
 
+    // Set effect mock
+    this.getCharacterSetEffect.mockResolvedValue({
+      date: '2024-01-15',
+      set_effect: [
+        {
+          set_name: 'Arcane Umbra Set',
+          total_set_count: 4,
+          set_effect_info: [
+            { set_count: 2, set_option: 'Max HP : +2000, Max MP : +2000' },
+            { set_count: 3, set_option: 'All Stats : +50, Attack Power : +35, Magic Attack : +35' },
+            { set_count: 4, set_option: 'Attack Power : +40, Magic Attack : +40, Boss Monster Damage : +30%' }
+          ],
+          set_option_full: [
+            { set_count: 2, set_option: 'Max HP : +2000, Max MP : +2000' },
+            { set_count: 3, set_option: 'All Stats : +50, Attack Power : +35, Magic Attack : +35' },
+            { set_count: 4, set_option: 'Attack Power : +40, Magic Attack : +40, Boss Monster Damage : +30%' },
+            { set_count: 5, set_option: 'Attack Power : +40, Magic Attack : +40, Ignore Enemy DEF : +10%' },
+            { set_count: 6, set_option: 'Attack Power : +30, Magic Attack : +30, Boss Monster Damage : +10%' },
+            { set_count: 7, set_option: 'Attack Power : +30, Magic Attack : +30, Boss Monster Damage : +10%' }
+          ]
+        }
+      ]
+    });
+
     // Cash item equipment mock
+    const cashItem = (part: string, name: string) => ({
+      cash_item_equipment_part: part,
+      cash_item_equipment_slot: part,
+      cash_item_name: name,
+      cash_item_icon: 'https://example.com/cash.png',
+      cash_item_description: `${name} description`,
+      cash_item_option: [],
+      date_expire: null,
+      date_option_expire: null,
+      cash_item_label: 'Special Label',
+      cash_item_coloring_prism: null,
+      item_gender: null
+    });
     this.getCharacterCashItemEquipment.mockResolvedValue({
       date: '2024-01-15',
       character_gender: 'Male',
       character_class: 'Arch Mage (Fire, Poison)',
-      preset_no: 1,
-      cash_item_equipment: []
+      character_look_mode: '0',
+      preset_no: 2,
+      cash_item_equipment_base: [cashItem('Hat', 'Starry Hat')],
+      cash_item_equipment_preset_1: [cashItem('Hat', 'Starry Hat')],
+      cash_item_equipment_preset_2: [cashItem('Hat', 'Bunny Hood'), cashItem('Overall', 'Bunny Suit')],
+      cash_item_equipment_preset_3: [],
+      additional_cash_item_equipment_base: [],
+      additional_cash_item_equipment_preset_1: [],
+      additional_cash_item_equipment_preset_2: [],
+      additional_cash_item_equipment_preset_3: []
     });
 
     // Beauty equipment mock
@@ -142,7 +207,313 @@ export class MockNexonApiClient {
       date: '2024-01-15',
       character_gender: 'Male',
       character_class: 'Arch Mage (Fire, Poison)',
-      character_beauty_equipment: []
+      character_hair: {
+        hair_name: 'Black Messy Hair',
+        base_color: 'Black',
+        mix_color: 'Red',
+        mix_rate: '50'
+      },
+      character_face: {
+        face_name: 'Black Calm Eyes',
+        base_color: 'Black',
+        mix_color: null,
+        mix_rate: '0'
+      },
+      character_skin_name: 'Light Skin',
+      additional_character_hair: null,
+      additional_character_face: null,
+      additional_character_skin_name: null
+    });
+
+    // Pet equipment mock - only the first slot is used
+    this.getCharacterPetEquipment.mockResolvedValue({
+      date: '2024-01-15',
+      pet_1_name: 'Wonder Black',
+      pet_1_nickname: 'Blacky',
+      pet_1_icon: 'https://example.com/pet.png',
+      pet_1_description: 'A luna petite',
+      pet_1_equipment: [
+        {
+          item_name: 'Lucky Pet Equipment',
+          item_icon: 'https://example.com/pet-equip.png',
+          item_description: '',
+          item_option: [{ option_type: 'Attack Power', option_value: '20' }],
+          scroll_upgrade: '9',
+          scroll_upgradeable: '0',
+          item_shape: 'Lucky Pet Equipment',
+          item_shape_icon: 'https://example.com/pet-equip.png'
+        }
+      ],
+      pet_1_auto_skill: {
+        skill_1: 'Magic Guard',
+        skill_1_icon: 'https://example.com/skill.png',
+        skill_2: null,
+        skill_2_icon: null
+      },
+      pet_1_pet_type: 'Luna Petite',
+      pet_1_skill: ['Item Pouch', 'Auto Buff'],
+      pet_1_date_expire: null,
+      pet_1_appearance: 'Wonder Black',
+      pet_1_appearance_icon: 'https://example.com/pet.png',
+      pet_2_name: null,
+      pet_3_name: null
+    });
+
+    // Android equipment mock
+    this.getCharacterAndroidEquipment.mockResolvedValue({
+      date: '2024-01-15',
+      android_name: 'Maid Android',
+      android_nickname: 'Maddie',
+      android_icon: 'https://example.com/android.png',
+      android_description: '',
+      android_hair: { hair_name: 'Twin Tails', base_color: 'Pink', mix_color: null, mix_rate: '0' },
+      android_face: { face_name: 'Soft Eyes', base_color: 'Blue', mix_color: null, mix_rate: '0' },
+      android_ear_sensor_clip_flag: 'false',
+      android_gender: 'Female',
+      android_grade: 'Unique',
+      android_skin_name: 'Light Skin',
+      android_cash_item_equipment: [cashItem('Hat', 'Maid Headband')],
+      android_non_cash_item_equipment: [],
+      android_preset_1: null,
+      android_preset_2: null,
+      android_preset_3: null
+    });
+
+    // V Matrix mock
+    this.getCharacterVMatrix.mockResolvedValue({
+      date: '2024-01-15',
+      character_class: 'Arch Mage (Fire, Poison)',
+      character_v_core_equipment: [
+        {
+          slot_id: '0',
+          slot_level: 5,
+          v_core_name: 'Megiddo Flame',
+          v_core_type: 'Skill',
+          v_core_level: 25,
+          v_core_skill_1: 'Megiddo Flame',
+          v_core_skill_2: '(Unavailable)',
+          v_core_skill_3: '(Unavailable)'
+        },
+        {
+          slot_id: '1',
+          slot_level: 5,
+          v_core_name: 'Flame Sweep Boost',
+          v_core_type: 'Enhancement',
+          v_core_level: 25,
+          v_core_skill_1: 'Flame Sweep',
+          v_core_skill_2: 'Flame Haze',
+          v_core_skill_3: 'Mist Eruption'
+        },
+        {
+          slot_id: '2',
+          slot_level: 0,
+          v_core_name: 'Boss Slayer',
+          v_core_type: 'Special',
+          v_core_level: 1,
+          v_core_skill_1: 'Boss Slayer',
+          v_core_skill_2: '(Unavailable)',
+          v_core_skill_3: '(Unavailable)'
+        }
+      ],
+      character_v_matrix_remain_slot_upgrade_point: 3
+    });
+
+    // HEXA Matrix mock
+    const hexaCores = [
+      {
+        hexa_core_name: 'Infernal Venom',
+        hexa_core_level: 10,
+        hexa_core_type: 'Skill Core',
+        linked_skill: [{ hexa_skill_id: 'Infernal Venom' }]
+      },
+      {
+        hexa_core_name: 'Flame Sweep VI',
+        hexa_core_level: 5,
+        hexa_core_type: 'Mastery Core',
+        linked_skill: [{ hexa_skill_id: 'Flame Sweep VI' }]
+      }
+    ];
+    this.getCharacterHexaMatrix.mockResolvedValue({
+      date: '2024-01-15',
+      character_hexa_core_equipment: hexaCores,
+      character_hexa_matrix_preset_1: [],
+      character_hexa_matrix_preset_2: hexaCores,
+      character_hexa_matrix_preset_3: []
+    });
+
+    // HEXA stat mock
+    this.getCharacterHexaMatrixStat.mockResolvedValue({
+      date: '2024-01-15',
+      character_class: 'Arch Mage (Fire, Poison)',
+      character_hexa_stat_core: [
+        {
+          slot_id: '0',
+          main_stat_name: 'Boss Damage',
+          sub_stat_name_1: 'Critical Damage',
+          sub_stat_name_2: 'Main Stat',
+          main_stat_level: 6,
+          sub_stat_level_1: 2,
+          sub_stat_level_2: 2,
+          stat_grade: 10
+        }
+      ],
+      preset_hexa_stat_core: []
+    });
+
+    // Skill mock - only 6th job skills are available
+    this.getCharacterSkill.mockImplementation((ocid: string, date?: string, skillGrade?: string) => {
+      if (skillGrade !== '6') {
+        return Promise.reject(
+          new NexonApiError('Skill grade not available', 400, '/maplestorysea/v1/character/skill')
+        );
+      }
+      return Promise.resolve({
+        date: '2024-01-15',
+        character_class: 'Arch Mage (Fire, Poison)',
+        character_skill_grade: '6',
+        character_skill: [
+          {
+            skill_name: 'Infernal Venom',
+            skill_description: 'Summons a venomous inferno',
+            skill_level: 10,
+            skill_effect: 'Damage: 1200%',
+            skill_icon: 'https://example.com/skill.png'
+          }
+        ]
+      });
+    });
+
+    // Link skill mock
+    const linkSkill = (skillName: string, skillLevel: number) => ({
+      skill_name: skillName,
+      skill_description: `${skillName} description`,
+      skill_level: skillLevel,
+      skill_effect: `${skillName} effect`,
+      skill_icon: 'https://example.com/link.png'
+    });
+    this.getCharacterLinkSkill.mockResolvedValue({
+      date: '2024-01-15',
+      character_class: 'Arch Mage (Fire, Poison)',
+      character_link_skill: [linkSkill('Invincible Belief', 3), linkSkill('Phantom Instinct', 2)],
+      character_link_skill_preset_1: [linkSkill('Invincible Belief', 3)],
+      character_link_skill_preset_2: [],
+      character_link_skill_preset_3: [],
+      character_owned_link_skill: [linkSkill('Empirical Knowledge', 3)],
+      character_owned_link_skill_preset_1: [],
+      character_owned_link_skill_preset_2: [],
+      character_owned_link_skill_preset_3: []
+    });
+
+    // Symbol equipment mock
+    const symbol = (
+      symbolName: string,
+      symbolLevel: number,
+      symbolForce: string,
+      growthCount: number,
+      requireGrowthCount: number
+    ) => ({
+      symbol_name: symbolName,
+      symbol_icon: 'https://example.com/symbol.png',
+      symbol_description: `${symbolName} description`,
+      symbol_force: symbolForce,
+      symbol_level: symbolLevel,
+      symbol_str: '0',
+      symbol_dex: '0',
+      symbol_int: String(symbolLevel * 100),
+      symbol_luk: '0',
+      symbol_hp: '0',
+      symbol_growth_count: growthCount,
+      symbol_require_growth_count: requireGrowthCount
+    });
+    this.getCharacterSymbolEquipment.mockResolvedValue({
+      date: '2024-01-15',
+      character_class: 'Arch Mage (Fire, Poison)',
+      symbol: [
+        symbol('Arcane Symbol : Vanishing Journey', 20, '220', 0, 0),
+        symbol('Arcane Symbol : Chu Chu Island', 19, '210', 200, 372),
+        symbol('Sacred Symbol : Cernium', 10, '100', 0, 1100)
+      ]
+    });
+
+    // Dojang record mock
+    this.getCharacterDojang.mockResolvedValue({
+      date: '2024-01-15',
+      character_class: 'Arch Mage (Fire, Poison)',
+      world_name: 'Aquila',
+      dojang_best_floor: 75,
+      date_dojang_record: '2024-01-10',
+      dojang_best_time: 843
+    });
+
+    // Hyper stat mock - preset 1 for bossing, preset 2 for training, preset 3 unused
+    const hyperStat = (type: string, level: number) => ({
+      stat_type: type,
+      stat_point: level === 0 ? null : level * (level + 1) / 2,
+      stat_level: level,
+      stat_increase: level === 0 ? null : `${type} +${level * 3}%`
+    });
+    this.getCharacterHyperStat.mockResolvedValue({
+      date: '2024-01-15',
+      character_class: 'Hero',
+      use_preset_no: '1',
+      use_available_hyper_stat: 1050,
+      hyper_stat_preset_1: [
+        hyperStat('Boss Damage', 10),
+        hyperStat('Ignore DEF', 10),
+        hyperStat('Bonus EXP', 0)
+      ],
+      hyper_stat_preset_1_remain_point: 940,
+      hyper_stat_preset_2: [
+        hyperStat('Boss Damage', 5),
+        hyperStat('Ignore DEF', 10),
+        hyperStat('Bonus EXP', 10)
+      ],
+      hyper_stat_preset_2_remain_point: 925,
+      hyper_stat_preset_3: [
+        hyperStat('Boss Damage', 0),
+        hyperStat('Ignore DEF', 0),
+        hyperStat('Bonus EXP', 0)
+      ],
+      hyper_stat_preset_3_remain_point: 1050
+    });
+
+    // Propensity (traits) mock
+    this.getCharacterPropensity.mockResolvedValue({
+      date: '2024-01-15',
+      charisma_level: 100,
+      sensibility_level: 42,
+      insight_level: 75,
+      willpower_level: 88,
+      handicraft_level: 30,
+      charm_level: 100
+    });
+
+    // Ability mock
+    const bossAbility = {
+      ability_preset_grade: 'Legendary',
+      ability_info: [
+        { ability_no: '1', ability_grade: 'Legendary', ability_value: 'Boss Monster Damage +20%' },
+        { ability_no: '2', ability_grade: 'Unique', ability_value: 'Critical Rate +20%' },
+        { ability_no: '3', ability_grade: 'Unique', ability_value: 'Buff Duration +38%' }
+      ]
+    };
+    const farmingAbility = {
+      ability_preset_grade: 'Unique',
+      ability_info: [
+        { ability_no: '1', ability_grade: 'Unique', ability_value: 'Item Drop Rate +15%' },
+        { ability_no: '2', ability_grade: 'Epic', ability_value: 'Meso Obtained +10%' },
+        { ability_no: '3', ability_grade: 'Rare', ability_value: 'AP Redistributed to LUK +10' }
+      ]
+    };
+    this.getCharacterAbility.mockResolvedValue({
+      date: '2024-01-15',
+      ability_grade: 'Legendary',
+      ability_info: bossAbility.ability_info,
+      remain_fame: 125000,
+      preset_no: 1,
+      ability_preset_1: bossAbility,
+      ability_preset_2: farmingAbility,
+      ability_preset_3: null
     });
 
     // Union info mock
@@ -155,6 +526,47 @@ export class MockNexonApiClient {
       union_artifact_point: 999999
     });
 
+    // Union artifact mock - expiry dates are relative to now
+    const daysFromNow = (days: number) =>
+      new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+    this.getUnionArtifact.mockResolvedValue({
+      date: '2024-01-15',
+      union_artifact_effect: [
+        { name: 'All Stats +150', level: 5 },
+        { name: 'Boss Damage +15%', level: 10 }
+      ],
+      union_artifact_crystal: [
+        {
+          name: 'Crystal : Orange Mushroom',
+          validity_flag: '0',
+          date_expire: daysFromNow(30),
+          level: 5,
+          crystal_option_name_1: 'Boss Damage',
+          crystal_option_name_2: 'All Stats',
+          crystal_option_name_3: 'Critical Rate'
+        },
+        {
+          name: 'Crystal : Slime',
+          validity_flag: '0',
+          date_expire: daysFromNow(2.5),
+          level: 3,
+          crystal_option_name_1: 'Boss Damage',
+          crystal_option_name_2: 'Meso Obtained',
+          crystal_option_name_3: 'Item Drop Rate'
+        },
+        {
+          name: 'Crystal : Ribbon Pig',
+          validity_flag: '1',
+          date_expire: daysFromNow(-5),
+          level: 1,
+          crystal_option_name_1: 'Ignore Enemy DEF',
+          crystal_option_name_2: 'Attack Power',
+          crystal_option_name_3: 'Magic Attack'
+        }
+      ],
+      union_artifact_remain_ap: 4
+    });
+
     // Guild info mock
     this.getGuildInfo.mockResolvedValue({
       date: '2024-01-15',
@@ -208,6 +620,88 @@ export class MockNexonApiClient {
       ]
     });
 
+    // Dojang ranking mock
+    this.getDojangRanking.mockResolvedValue({
+      ranking: [
+        {
+          date: '2024-01-15',
+          ranking: 1,
+          character_name: 'DojangKing',
+          world_name: 'Aquila',
+          class_name: 'Hero',
+          sub_class_name: '',
+          character_level: 285,
+          dojang_floor: 90,
+          dojang_time_record: 754
+        },
+        {
+          date: '2024-01-15',
+          ranking: 2,
+          character_name: 'DojangPrince',
+          world_name: 'Bootes',
+          class_name: 'Hero',
+          sub_class_name: '',
+          character_level: 280,
+          dojang_floor: 86,
+          dojang_time_record: 812
+        }
+      ]
+    });
+
+    // Dojang leaderboard size mock
+    this.estimateDojangRankingSize.mockResolvedValue({
+      totalEntries: 1000,
+      pageSize: 200,
+      lastPage: 5,
+      searchedPages: 4,
+      fetchedPages: 4,
+      capped: false
+    });
+
+    // The Seed ranking mock
+    this.getTheSeedRanking.mockResolvedValue({
+      ranking: [
+        {
+          date: '2024-01-15',
+          ranking: 1,
+          character_name: 'SeedClimber',
+          world_name: 'Aquila',
+          class_name: 'Zero',
+          sub_class_name: '',
+          character_level: 280,
+          theseed_floor: 50,
+          theseed_time_record: 65
+        },
+        {
+          date: '2024-01-15',
+          ranking: 2,
+          character_name: 'SeedWalker',
+          world_name: 'Aquila',
+          class_name: 'Bishop',
+          sub_class_name: '',
+          character_level: 275,
+          theseed_floor: 49,
+          theseed_time_record: 300
+        }
+      ]
+    });
+
+    // Achievement ranking mock
+    this.getAchievementRanking.mockResolvedValue({
+      ranking: [
+        {
+          date: '2024-01-15',
+          ranking: 1,
+          character_name: 'Achiever',
+          world_name: 'Draco',
+          class_name: 'Kinesis',
+          sub_class_name: '',
+          trophy_point: 45000,
+          trophy_grade: 'Diamond'
+        }
+      ]
+    });
+
     // Health check mock
     this.getClientHealth.mockResolvedValue({
       status: 'healthy',
@@ -8,6 +8,7 @@ import { createAllTools } from '../../src/tools/index';
 import { MockNexonApiClient } from '../helpers/mock-api-client';
 import { McpLogger } from '../../src/utils/logger';
 import { defaultCache } from '../../src/utils/cache';
+import { RateLimitError } from '../../src/utils/errors';
 
 // Mock logger to avoid console output during tests
 const mockLogger: McpLogger = {
@@ -136,6 +137,433 @@ describe('MCP Tools Integration Tests', () => {
     });
   });
 
+  describe('Dojang Tools', () => {
+    test('get_character_dojang should estimate class and world percentiles', async () => {
+      const dojangTool = tools.find(tool => tool.name === 'get_character_dojang');
+      expect(dojangTool).toBeDefined();
+
+      mockApiClient.getDojangRanking.mockImplementation(
+        (worldName?: string, characterName?: string, page?: number, date?: string, className?: string) =>
+          Promise.resolve({
+            ranking: [
+              {
+                date: '2024-01-15',
+                ranking: className ? 10 : 250,
+                character_name: characterName,
+                world_name: worldName,
+                class_name: 'Arch Mage (Fire, Poison)',
+                sub_class_name: '',
+                character_level: 250,
+                dojang_floor: 75,
+                dojang_time_record: 843
+              }
+            ]
+          })
+      );
+
+      const result = await dojangTool!.execute(
+        { characterName: 'TestChar' },
+        {
+          nexonClient: mockApiClient as any,
+          logger: mockLogger,
+        }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data.personalBest.floor).toBe(75);
+      expect(result.data.personalBest.timeRecord).toBe('14:03');
+      const [classBoard, worldBoard] = result.data.leaderboards;
+      expect(classBoard.scope).toBe('class');
+      expect(classBoard.rank).toBe(10);
+      expect(classBoard.standing).toBe('Elite (top 1%)');
+      expect(worldBoard.rank).toBe(250);
+      expect(worldBoard.standing).toBe('Above average (top half)');
+      expect(mockApiClient.estimateDojangRankingSize).toHaveBeenCalledWith(
+        'Aquila',
+        'Arch Mage (Fire, Poison)',
+        0,
+        undefined
+      );
+    });
+
+    test('get_character_dojang should report percentiles as bounds on capped leaderboards', async () => {
+      const dojangTool = tools.find(tool => tool.name === 'get_character_dojang');
+      mockApiClient.getDojangRanking.mockImplementation(
+        (worldName?: string, characterName?: string, page?: number, date?: string, className?: string) =>
+          Promise.resolve({
+            ranking: [{ ranking: className ? 10 : 250, character_name: characterName, world_name: worldName }]
+          })
+      );
+      // Estimates served from cache, with the search stopped early
+      mockApiClient.estimateDojangRankingSize.mockResolvedValue({
+        totalEntries: 200,
+        pageSize: 10,
+        lastPage: 20,
+        searchedPages: 12,
+        fetchedPages: 0,
+        capped: true
+      });
+
+      const result = await dojangTool!.execute(
+        { characterName: 'TestChar' },
+        {
+          nexonClient: mockApiClient as any,
+          logger: mockLogger,
+        }
+      );
+
+      const [classBoard, worldBoard] = result.data.leaderboards;
+      expect(classBoard).toMatchObject({ topPercent: '≤ 5.00%', percentile: '≥ 95.00%' });
+      // Ranked past the lower bound of the leaderboard size
+      expect(worldBoard).toMatchObject({ topPercent: '≤ 100.00%', percentile: '≥ 0.00%' });
+      // OCID, Dojang record and one position lookup per leaderboard
+      expect(result.metadata!.apiCalls).toBe(4);
+    });
+
+    test('get_character_dojang should skip leaderboards without a record', async () => {
+      const dojangTool = tools.find(tool => tool.name === 'get_character_dojang');
+      mockApiClient.getCharacterDojang.mockResolvedValue({
+        date: '2024-01-15',
+        character_class: 'Arch Mage (Fire, Poison)',
+        world_name: 'Aquila',
+        dojang_best_floor: 0,
+        date_dojang_record: null,
+        dojang_best_time: 0
+      });
+
+      const result = await dojangTool!.execute(
+        { characterName: 'TestChar' },
+        {
+          nexonClient: mockApiClient as any,
+          logger: mockLogger,
+        }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data.hasRecord).toBe(false);
+      expect(result.data.leaderboards).toEqual([]);
+      expect(mockApiClient.getDojangRanking).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Matrix Tools', () => {
+    test('get_character_v_matrix should group cores by type', async () => {
+      const vMatrixTool = tools.find(tool => tool.name === 'get_character_v_matrix');
+      expect(vMatrixTool).toBeDefined();
+
+      const result = await vMatrixTool!.execute(
+        { characterName: 'TestChar' },
+        {
+          nexonClient: mockApiClient as any,
+          logger: mockLogger,
+        }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data.slots).toHaveLength(3);
+      expect(result.data.slots[0].skills).toEqual(['Megiddo Flame']);
+      expect(result.data.summary.skillCores).toBe(1);
+      expect(result.data.summary.enhancementCores).toBe(1);
+      expect(result.data.summary.specialCores).toBe(1);
+      expect(result.data.summary.remainSlotUpgradePoint).toBe(3);
+      expect(mockApiClient.getCharacterVMatrix).toHaveBeenCalledWith('test-ocid-12345', undefined);
+    });
+
+    test('get_character_hexa_matrix should detect the active preset', async () => {
+      const hexaTool = tools.find(tool => tool.name === 'get_character_hexa_matrix');
+      expect(hexaTool).toBeDefined();
+
+      const result = await hexaTool!.execute(
+        { characterName: 'TestChar' },
+        {
+          nexonClient: mockApiClient as any,
+          logger: mockLogger,
+        }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data.activePreset).toBe(2);
+      expect(result.data.summary.totalCoreLevel).toBe(15);
+      expect(result.data.hexaStat.cores[0]).toHaveProperty('grade', 10);
+      expect(mockApiClient.getCharacterHexaMatrixStat).toHaveBeenCalled();
+    });
+  });
+
+  describe('Skill Tools', () => {
+    test('get_character_skills should skip grades that are not available', async () => {
+      const skillsTool = tools.find(tool => tool.name === 'get_character_skills');
+      expect(skillsTool).toBeDefined();
+
+      const result = await skillsTool!.execute(
+        { characterName: 'TestChar' },
+        {
+          nexonClient: mockApiClient as any,
+          logger: mockLogger,
+        }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data.gradeFilter).toBe('all');
+      expect(result.data.skillGroups).toHaveLength(1);
+      expect(result.data.skillGroups[0].grade).toBe('6');
+      expect(result.data.summary.totalSkills).toBe(1);
+    });
+
+    test('get_character_skills should fail when a grade lookup fails for other reasons', async () => {
+      const skillsTool = tools.find(tool => tool.name === 'get_character_skills');
+      const getCharacterSkill = mockApiClient.getCharacterSkill.getMockImplementation()!;
+      mockApiClient.getCharacterSkill.mockImplementation((...args: any[]) =>
+        args[2] === '5' ? Promise.reject(new RateLimitError()) : getCharacterSkill(...args)
+      );
+
+      const result = await skillsTool!.execute(
+        { characterName: 'TestChar' },
+        {
+          nexonClient: mockApiClient as any,
+          logger: mockLogger,
+        }
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('API rate limit exceeded');
+    });
+
+    test('get_character_skills should pass the grade filter to the API', async () => {
+      const skillsTool = tools.find(tool => tool.name === 'get_character_skills');
+
+      const result = await skillsTool!.execute(
+        { characterName: 'TestChar', grade: '6' },
+        {
+          nexonClient: mockApiClient as any,
+          logger: mockLogger,
+        }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data.skillGroups[0].label).toBe('6th Job (HEXA Skills)');
+      expect(mockApiClient.getCharacterSkill).toHaveBeenCalledTimes(1);
+      expect(mockApiClient.getCharacterSkill).toHaveBeenCalledWith('test-ocid-12345', undefined, '6');
+    });
+
+    test('get_character_link_skills should map link skills to granting classes', async () => {
+      const linkSkillTool = tools.find(tool => tool.name === 'get_character_link_skills');
+      expect(linkSkillTool).toBeDefined();
+
+      const result = await linkSkillTool!.execute(
+        { characterName: 'TestChar' },
+        {
+          nexonClient: mockApiClient as any,
+          logger: mockLogger,
+        }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data.equipped[0].grantedBy).toEqual(['Hero', 'Paladin', 'Dark Knight']);
+      expect(result.data.summary.equippedCount).toBe(2);
+      const missingNames = result.data.missing.map((skill: any) => skill.name);
+      expect(missingNames).toContain('Elven Blessing');
+      expect(missingNames).not.toContain('Phantom Instinct');
+      expect(missingNames).not.toContain('Empirical Knowledge');
+    });
+  });
+
+  describe('Symbol Tools', () => {
+    test('get_character_symbols should total force and project days to max', async () => {
+      const symbolTool = tools.find(tool => tool.name === 'get_character_symbols');
+      expect(symbolTool).toBeDefined();
+
+      const result = await symbolTool!.execute(
+        { characterName: 'TestChar', dailyArcaneSymbols: 20 },
+        {
+          nexonClient: mockApiClient as any,
+          logger: mockLogger,
+        }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data.arcane).toHaveLength(2);
+      expect(result.data.sacred).toHaveLength(1);
+      expect(result.data.summary.totalArcaneForce).toBe(430);
+      expect(result.data.summary.totalSacredForce).toBe(100);
+      expect(result.data.arcane[0].maxed).toBe(true);
+      expect(result.data.arcane[0].daysToMax).toBe(0);
+      expect(result.data.arcane[1].remainingGrowth).toBe(172);
+      expect(result.data.arcane[1].daysToMax).toBe(9);
+      expect(result.data.arcane[1].stats).toEqual({ INT: '1900' });
+      expect(result.data.sacred[0].region).toBe('Cernium');
+      expect(result.data.sacred[0].daysToMax).toBe(110);
+    });
+  });
+
+  describe('Traits and Ability Tools', () => {
+    test('get_character_traits_ability should return traits and ability presets', async () => {
+      const traitsTool = tools.find(tool => tool.name === 'get_character_traits_ability');
+      expect(traitsTool).toBeDefined();
+
+      const result = await traitsTool!.execute(
+        { characterName: 'TestChar' },
+        {
+          nexonClient: mockApiClient as any,
+          logger: mockLogger,
+        }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data.traits).toHaveLength(6);
+      expect(result.data.traits[0]).toMatchObject({ name: 'Ambition', level: 100, radar: 1 });
+      expect(result.data.traitSummary.totalLevel).toBe(435);
+      expect(result.data.traitSummary.maxedTraits).toEqual(['Ambition', 'Charm']);
+      expect(result.data.traitSummary.weakest).toBe('Diligence');
+      expect(result.data.traitSummary.nextFocus).toHaveLength(2);
+      expect(result.data.ability.activePreset).toBe(1);
+      expect(result.data.ability.presets[0]).toMatchObject({ active: true, focus: 'Bossing' });
+      expect(result.data.ability.presets[1]).toMatchObject({ active: false, focus: 'Farming' });
+      expect(result.data.ability.presets[2].lines).toEqual([]);
+    });
+
+    test('get_character_traits_ability should handle API errors', async () => {
+      const traitsTool = tools.find(tool => tool.name === 'get_character_traits_ability');
+      mockApiClient.getCharacterAbility.mockRejectedValue(new Error('API Error'));
+
+      const result = await traitsTool!.execute(
+        { characterName: 'TestChar' },
+        {
+          nexonClient: mockApiClient as any,
+          logger: mockLogger,
+        }
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Failed to get traits and ability');
+    });
+  });
+
+  describe('Hyper Stat Tools', () => {
+    test('get_character_hyper_stats should compare presets', async () => {
+      const hyperStatTool = tools.find(tool => tool.name === 'get_character_hyper_stats');
+      expect(hyperStatTool).toBeDefined();
+
+      const result = await hyperStatTool!.execute(
+        { characterName: 'TestChar' },
+        {
+          nexonClient: mockApiClient as any,
+          logger: mockLogger,
+        }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data.activePreset).toBe(1);
+      expect(result.data.presets[0].active).toBe(true);
+      expect(result.data.presets[0].allocations).toHaveLength(2);
+      expect(result.data.presets[0].totalPointsUsed).toBe(110);
+      expect(result.data.presets[1].remainingPoints).toBe(925);
+      expect(result.data.presets[2].allocations).toEqual([]);
+      expect(result.data.differences).toEqual([
+        { statType: 'Boss Damage', levels: [10, 5, 0] },
+        { statType: 'Ignore DEF', levels: [10, 10, 0] },
+        { statType: 'Bonus EXP', levels: [0, 10, 0] },
+      ]);
+      expect(result.data.summary.presetsInUse).toBe(2);
+    });
+  });
+
+  describe('Set Effect Tools', () => {
+    test('get_character_set_effects should return tiers from the set effect endpoint', async () => {
+      const setEffectTool = tools.find(tool => tool.name === 'get_character_set_effects');
+      expect(setEffectTool).toBeDefined();
+
+      const result = await setEffectTool!.execute(
+        { characterName: 'TestChar' },
+        {
+          nexonClient: mockApiClient as any,
+          logger: mockLogger,
+        }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data.source).toBe('api');
+      expect(result.data.sets).toHaveLength(1);
+      expect(result.data.sets[0]).toMatchObject({
+        setName: 'Arcane Umbra Set',
+        equippedCount: 4,
+        maxTierCount: 7,
+        activeTiers: 3,
+      });
+      expect(result.data.sets[0].tiers).toHaveLength(6);
+      expect(result.data.sets[0].tiers[2].stats.attack_power).toBe(40);
+      expect(result.data.sets[0].nextTier).toEqual({
+        requiredCount: 5,
+        remainingCount: 1,
+        option: 'Attack Power : +40, Magic Attack : +40, Ignore Enemy DEF : +10%',
+      });
+      expect(result.data.summary.oneItemFromNextTier).toEqual(['Arcane Umbra Set']);
+      expect(mockApiClient.getCharacterItemEquipment).not.toHaveBeenCalled();
+    });
+
+    test('get_character_set_effects should fall back to equipment when the endpoint fails', async () => {
+      const setEffectTool = tools.find(tool => tool.name === 'get_character_set_effects');
+      mockApiClient.getCharacterSetEffect.mockRejectedValue(new Error('API Error'));
+
+      const result = await setEffectTool!.execute(
+        { characterName: 'TestChar' },
+        {
+          nexonClient: mockApiClient as any,
+          logger: mockLogger,
+        }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data.source).toBe('heuristic');
+      expect(Array.isArray(result.data.sets)).toBe(true);
+      expect(mockApiClient.getCharacterItemEquipment).toHaveBeenCalled();
+    });
+  });
+
+  describe('Cosmetic Tools', () => {
+    test('get_character_cosmetics should return pets, android, outfit and beauty', async () => {
+      const cosmeticsTool = tools.find(tool => tool.name === 'get_character_cosmetics');
+      expect(cosmeticsTool).toBeDefined();
+
+      const result = await cosmeticsTool!.execute(
+        { characterName: 'TestChar' },
+        {
+          nexonClient: mockApiClient as any,
+          logger: mockLogger,
+        }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data.pets).toHaveLength(1);
+      expect(result.data.pets[0].autoBuffSkills).toEqual(['Magic Guard']);
+      expect(result.data.android.name).toBe('Maid Android');
+      expect(result.data.android.hair.name).toBe('Twin Tails');
+      expect(result.data.cashOutfit.activePreset).toBe(2);
+      expect(result.data.cashOutfit.presets[1].active).toBe(true);
+      expect(result.data.cashOutfit.presets[1].items).toHaveLength(2);
+      expect(result.data.beauty.hair.mixColor).toBe('Red');
+      expect(result.data.unavailableSections).toEqual([]);
+    });
+
+    test('get_character_cosmetics should only fetch requested sections', async () => {
+      const cosmeticsTool = tools.find(tool => tool.name === 'get_character_cosmetics');
+      mockApiClient.getCharacterPetEquipment.mockRejectedValue(new Error('No pets'));
+
+      const result = await cosmeticsTool!.execute(
+        { characterName: 'TestChar', sections: ['pets', 'beauty'] },
+        {
+          nexonClient: mockApiClient as any,
+          logger: mockLogger,
+        }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data.unavailableSections).toEqual(['pets']);
+      expect(result.data.beauty.face.name).toBe('Black Calm Eyes');
+      expect(mockApiClient.getCharacterAndroidEquipment).not.toHaveBeenCalled();
+      expect(mockApiClient.getCharacterCashItemEquipment).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Union Tools', () => {
     test('get_union_info should return union information', async () => {
       const unionTool = tools.find(tool => tool.name === 'get_union_info');
@@ -189,6 +617,48 @@ describe('MCP Tools Integration Tests', () => {
     });
   });
 
+  describe('Union Artifact Tool', () => {
+    test('get_union_artifact should report crystals, expiry and unspent AP', async () => {
+      const artifactTool = tools.find(tool => tool.name === 'get_union_artifact');
+      expect(artifactTool).toBeDefined();
+
+      const result = await artifactTool!.execute(
+        { characterName: 'TestChar' },
+        {
+          nexonClient: mockApiClient as any,
+          logger: mockLogger,
+        }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data.crystals).toHaveLength(3);
+      expect(result.data.crystals[0].options).toHaveLength(3);
+      expect(result.data.crystals[1].daysUntilExpiry).toBe(3);
+      expect(result.data.crystals[2].valid).toBe(false);
+      expect(result.data.effects[0].name).toBe('Boss Damage +15%');
+      expect(result.data.summary.totalEffectLevel).toBe(15);
+      expect(result.data.summary.expiringSoon).toBe(1);
+      expect(result.data.summary.expiredCrystals).toBe(1);
+      expect(result.data.warnings).toHaveLength(3);
+      expect(result.data.warnings[2]).toContain('4 artifact AP');
+    });
+
+    test('get_union_artifact should honour the expiry warning window', async () => {
+      const artifactTool = tools.find(tool => tool.name === 'get_union_artifact');
+
+      const result = await artifactTool!.execute(
+        { characterName: 'TestChar', expiryWarningDays: 60 },
+        {
+          nexonClient: mockApiClient as any,
+          logger: mockLogger,
+        }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data.summary.expiringSoon).toBe(2);
+    });
+  });
+
   describe('Guild Tools', () => {
     test('get_guild_info should return guild information', async () => {
       const guildTool = tools.find(tool => tool.name === 'get_guild_info');
@@ -261,6 +731,68 @@ describe('MCP Tools Integration Tests', () => {
       expect(result.data.rankings).toBeInstanceOf(Array);
       expect(mockApiClient.getOverallRanking).toHaveBeenCalled();
     });
+
+    test('get_dojang_ranking should pass difficulty and format time records', async () => {
+      const dojangRankingTool = tools.find(tool => tool.name === 'get_dojang_ranking');
+      expect(dojangRankingTool).toBeDefined();
+
+      const result = await dojangRankingTool!.execute(
+        { worldName: 'Aquila', className: 'Hero', difficulty: 'hard' },
+        {
+          nexonClient: mockApiClient as any,
+          logger: mockLogger,
+        }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data.difficulty).toBe('hard');
+      expect(result.data.rankings[0].timeRecord).toBe('12:34');
+      expect(result.data.summary.topFloor).toBe(90);
+      expect(result.data.summary.averageFloor).toBe(88);
+      expect(mockApiClient.getDojangRanking).toHaveBeenCalledWith(
+        'Aquila',
+        undefined,
+        1,
+        undefined,
+        'Hero',
+        1
+      );
+    });
+
+    test('get_theseed_ranking should filter the page by class', async () => {
+      const theSeedRankingTool = tools.find(tool => tool.name === 'get_theseed_ranking');
+      expect(theSeedRankingTool).toBeDefined();
+
+      const result = await theSeedRankingTool!.execute(
+        { className: 'Bishop' },
+        {
+          nexonClient: mockApiClient as any,
+          logger: mockLogger,
+        }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data.rankings).toHaveLength(1);
+      expect(result.data.rankings[0].characterName).toBe('SeedWalker');
+      expect(result.data.rankings[0].timeRecord).toBe('05:00');
+    });
+
+    test('get_achievement_ranking should return trophy rankings', async () => {
+      const achievementRankingTool = tools.find(tool => tool.name === 'get_achievement_ranking');
+      expect(achievementRankingTool).toBeDefined();
+
+      const result = await achievementRankingTool!.execute(
+        { worldName: 'Draco' },
+        {
+          nexonClient: mockApiClient as any,
+          logger: mockLogger,
+        }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data.rankings[0].trophyPoint).toBe('45,000');
+      expect(result.data.summary.gradeDistribution).toEqual({ Diamond: 1 });
+    });
   });
 
   describe('Health Check Tool', () => {
@@ -16,7 +16,7 @@ import {
   SEA_TIMEZONE,
   SEA_TIMEZONE_OFFSET
 } from '../../src/utils/server-utils';
-import { WORLDS, JOB_CLASSES } from '../../src/api/constants';
+import { WORLDS, JOB_CLASSES, LINK_SKILLS } from '../../src/api/constants';
 import { validateCharacterName, validateWorldName } from '../../src/utils/validation';
 
 describe('SEA Localization Completeness', () => {
@@ -172,6 +172,14 @@ describe('SEA Localization Completeness', () => {
         expect(JOB_CLASSES).toContain(job);
       });
     });
+
+    test('should only grant link skills from known job classes', () => {
+      Object.values(LINK_SKILLS).forEach(classes => {
+        classes.forEach(job => {
+          expect(JOB_CLASSES).toContain(job);
+        });
+      });
+    });
   });
 
   describe('Current Time Functions', () => {
@@ -0,0 +1,241 @@
+/**
+ * HTTP Transport Tests
+ * Validates Streamable HTTP sessions, CORS handling, DNS rebinding protection, idle sessions
+ * and shutdown of the HTTP transport
+ */
+
+import { jest } from '@jest/globals';
+import { request } from 'node:http';
+import { McpServer, McpServerConfig } from '../../src/server/mcp-server';
+import { NexonApiClient } from '../../src/api/nexon-client';
+import { createAllTools } from '../../src/tools/index';
+
+const MCP_HEADERS = {
+  'Content-Type': 'application/json',
+  Accept: 'application/json, text/event-stream',
+};
+
+/**
+ * Read the first JSON-RPC message from an SSE or JSON response body
+ */
+async function readJsonRpc(response: Response): Promise<any> {
+  const text = await response.text();
+  const dataLine = text.split('\n').find(line => line.startsWith('data: '));
+  return JSON.parse(dataLine ? dataLine.slice('data: '.length) : text);
+}
+
+const INITIALIZE_REQUEST = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' },
+  },
+};
+
+/**
+ * POST a JSON-RPC message with a custom Host header, which fetch does not allow setting
+ */
+function postWithHost(url: string, host: string, body: unknown): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const req = request(url, { method: 'POST', headers: { ...MCP_HEADERS, Host: host } }, res => {
+      res.resume();
+      resolve(res.statusCode!);
+    });
+    req.on('error', reject);
+    req.end(JSON.stringify(body));
+  });
+}
+
+describe('HTTP Transport', () => {
+  let server: McpServer;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    jest
+      .spyOn(NexonApiClient.prototype, 'healthCheck')
+      .mockResolvedValue({ status: 'healthy', timestamp: new Date().toISOString() });
+
+    server = new McpServer({
+      nexonApiKey: 'test-api-key',
+      transport: 'http',
+      port: 0,
+      corsOrigin: 'https://example.com',
+    });
+    createAllTools().forEach(tool => server.registerTool(tool));
+    await server.start();
+    baseUrl = `http://127.0.0.1:${server.getHttpPort()}`;
+  });
+
+  afterEach(async () => {
+    await server.shutdown();
+    jest.restoreAllMocks();
+  });
+
+  /**
+   * Replace the shared server with one using different HTTP settings
+   */
+  async function restartServer(config: Partial<McpServerConfig>): Promise<void> {
+    await server.shutdown();
+    server = new McpServer({ nexonApiKey: 'test-api-key', transport: 'http', port: 0, ...config });
+    await server.start();
+    baseUrl = `http://127.0.0.1:${server.getHttpPort()}`;
+  }
+
+  test('should open a Streamable HTTP session and list tools', async () => {
+    const initResponse = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: MCP_HEADERS,
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: {
+          protocolVersion: '2025-03-26',
+          capabilities: {},
+          clientInfo: { name: 'test-client', version: '1.0.0' },
+        },
+      }),
+    });
+
+    expect(initResponse.status).toBe(200);
+    const sessionId = initResponse.headers.get('mcp-session-id');
+    expect(sessionId).toBeTruthy();
+    const initResult = await readJsonRpc(initResponse);
+    expect(initResult.result.serverInfo.name).toBe('mcp-maple');
+
+    const listResponse = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: {
+        ...MCP_HEADERS,
+        'mcp-session-id': sessionId!,
+        'mcp-protocol-version': '2025-03-26',
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} }),
+    });
+
+    const listResult = await readJsonRpc(listResponse);
+    expect(listResult.result.tools.length).toBe(createAllTools().length);
+
+    const health = await server.healthCheck();
+    expect(health.transport).toBe('http');
+    expect(health.sessions).toEqual({ 'streamable-http': 1, sse: 0 });
+  });
+
+  test('should reject requests without a session', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: MCP_HEADERS,
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} }),
+    });
+
+    expect(response.status).toBe(400);
+    const body = await response.json();
+    expect(body.error.message).toContain('No valid session ID');
+  });
+
+  test('should reject unknown sessions and invalid JSON', async () => {
+    const unknownSession = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { ...MCP_HEADERS, 'mcp-session-id': 'does-not-exist' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} }),
+    });
+    expect(unknownSession.status).toBe(404);
+
+    const invalidJson = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: MCP_HEADERS,
+      body: '{not json',
+    });
+    expect(invalidJson.status).toBe(400);
+    expect((await invalidJson.json()).error.code).toBe(-32700);
+  });
+
+  test('should open a legacy SSE session', async () => {
+    const controller = new AbortController();
+    const response = await fetch(`${baseUrl}/sse`, { signal: controller.signal });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('text/event-stream');
+
+    // The first event tells the client where to POST its messages
+    const reader = response.body!.getReader();
+    const { value } = await reader.read();
+    const event = new TextDecoder().decode(value);
+    expect(event).toContain('event: endpoint');
+    expect(event).toMatch(/\/messages\?sessionId=[\w-]+/);
+
+    const health = await server.healthCheck();
+    expect(health.sessions).toEqual({ 'streamable-http': 0, sse: 1 });
+    controller.abort();
+  });
+
+  test('should answer CORS preflight requests', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, { method: 'OPTIONS' });
+
+    expect(response.status).toBe(204);
+    expect(response.headers.get('access-control-allow-origin')).toBe('https://example.com');
+    expect(response.headers.get('access-control-expose-headers')).toContain('Mcp-Session-Id');
+  });
+
+  test('should not send CORS headers unless an origin is configured', async () => {
+    await restartServer({});
+    const response = await fetch(`${baseUrl}/mcp`, { method: 'OPTIONS' });
+
+    expect(response.status).toBe(204);
+    expect(response.headers.get('access-control-allow-origin')).toBeNull();
+  });
+
+  test('should reject requests with a foreign Host header', async () => {
+    const port = server.getHttpPort();
+    const initialize = (host: string) => postWithHost(`${baseUrl}/mcp`, host, INITIALIZE_REQUEST);
+
+    expect(await initialize(`rebind.example.com:${port}`)).toBe(403);
+    expect(await initialize(`localhost:${port}`)).toBe(200);
+  });
+
+  test('should reject requests from origins that are not allowed', async () => {
+    await restartServer({ allowedOrigins: ['https://app.example.com'] });
+    const initialize = (origin: string) =>
+      fetch(`${baseUrl}/mcp`, {
+        method: 'POST',
+        headers: { ...MCP_HEADERS, Origin: origin },
+        body: JSON.stringify(INITIALIZE_REQUEST),
+      });
+
+    expect((await initialize('https://evil.example.com')).status).toBe(403);
+    expect((await initialize('https://app.example.com')).status).toBe(200);
+  });
+
+  test('should close sessions that stay idle', async () => {
+    await restartServer({ sessionIdleTimeoutMs: 50 });
+    const initResponse = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: MCP_HEADERS,
+      body: JSON.stringify(INITIALIZE_REQUEST),
+    });
+    const sessionId = initResponse.headers.get('mcp-session-id')!;
+    await initResponse.text();
+    expect((await server.healthCheck()).sessions).toEqual({ 'streamable-http': 1, sse: 0 });
+
+    await new Promise(resolve => setTimeout(resolve, 200));
+
+    expect((await server.healthCheck()).sessions).toEqual({ 'streamable-http': 0, sse: 0 });
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { ...MCP_HEADERS, 'mcp-session-id': sessionId },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} }),
+    });
+    expect(response.status).toBe(404);
+  });
+
+  test('stop should close the HTTP listener', async () => {
+    await server.stop();
+
+    expect(server.isServerRunning()).toBe(false);
+    expect(server.getHttpPort()).toBeNull();
+    await expect(fetch(`${baseUrl}/mcp`, { method: 'OPTIONS' })).rejects.toThrow();
+  });
+});
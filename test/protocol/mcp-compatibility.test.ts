@@ -4,7 +4,7 @@
  */
 
 import { jest } from '@jest/globals';
-import { createAllTools } from '../../src/tools/index';
+import { createAllTools, ToolCategory } from '../../src/tools/index';
 import { JSONSchema7 } from 'json-schema';
 
 describe('MCP Protocol Compatibility', () => {
@@ -428,5 +428,36 @@ describe('MCP Protocol Compatibility', () => {
         });
       });
     });
+
+    test('all tools should have titles and read-only annotations', () => {
+      const titles = new Set<string>();
+
+      tools.forEach(tool => {
+        expect(tool.title.length).toBeGreaterThan(3);
+        titles.add(tool.title);
+
+        const annotations = tool.getAnnotations();
+        expect(annotations.title).toBe(tool.title);
+        expect(annotations.readOnlyHint).toBe(true);
+        expect(annotations.destructiveHint).toBe(false);
+        expect(annotations.idempotentHint).toBe(true);
+      });
+
+      expect(titles.size).toBe(tools.length);
+      const jobClassTool = tools.find(tool => tool.name === 'get_job_class_info');
+      expect(jobClassTool!.getAnnotations().openWorldHint).toBe(false);
+    });
+
+    test('tools should be filterable by category', () => {
+      const rankingTools = createAllTools([ToolCategory.RANKING, ToolCategory.SYSTEM]);
+
+      expect(rankingTools.length).toBeGreaterThan(0);
+      expect(rankingTools.length).toBeLessThan(tools.length);
+      rankingTools.forEach(tool => {
+        expect([ToolCategory.RANKING, ToolCategory.SYSTEM]).toContain(tool.metadata.category);
+      });
+      expect(rankingTools.map(tool => tool.name)).toContain('get_overall_ranking');
+      expect(createAllTools([])).toHaveLength(tools.length);
+    });
   });
 });
\ No newline at end of file
@@ -0,0 +1,164 @@
+/**
+ * Progress and Cancellation Tests
+ * Validates progress notifications for ranking scans and cancellation through AbortSignal
+ */
+
+import { jest } from '@jest/globals';
+import axios from 'axios';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { McpServer } from '../../src/server/mcp-server';
+import { NexonApiClient } from '../../src/api/nexon-client';
+import { createAllTools } from '../../src/tools/index';
+import { RequestCancelledError } from '../../src/utils/errors';
+
+const RANKING_PAGE = {
+  ranking: [
+    {
+      date: '2024-01-15',
+      ranking: 1,
+      character_name: 'SomeoneElse',
+      world_name: 'Aquila',
+      class_name: 'Hero',
+      sub_class_name: '',
+      character_level: 285,
+      character_exp: 1000,
+      character_popularity: 10,
+      character_guildname: '',
+    },
+  ],
+};
+
+describe('Progress and Cancellation', () => {
+  describe('MCP tool calls', () => {
+    let server: McpServer;
+    let client: Client;
+
+    beforeEach(async () => {
+      jest
+        .spyOn(NexonApiClient.prototype, 'healthCheck')
+        .mockResolvedValue({ status: 'healthy', timestamp: new Date().toISOString() });
+
+      server = new McpServer({ nexonApiKey: 'test-api-key', transport: 'http', port: 0 });
+      createAllTools().forEach(tool => server.registerTool(tool));
+      await server.start();
+
+      client = new Client({ name: 'test-client', version: '1.0.0' });
+      await client.connect(
+        new StreamableHTTPClientTransport(new URL(`http://127.0.0.1:${server.getHttpPort()}/mcp`))
+      );
+    });
+
+    afterEach(async () => {
+      await client.close();
+      await server.shutdown();
+      jest.restoreAllMocks();
+    });
+
+    test('should send a progress notification per ranking page', async () => {
+      jest
+        .spyOn(NexonApiClient.prototype, 'getOverallRanking')
+        .mockResolvedValue(RANKING_PAGE as any);
+      const progress: Array<{ progress: number; total?: number }> = [];
+
+      const result = await client.callTool(
+        { name: 'find_character_ranking', arguments: { characterName: 'ProgressChar', maxPages: 3 } },
+        undefined,
+        { onprogress: notification => progress.push(notification) }
+      );
+
+      expect(result.isError).toBeUndefined();
+      expect((result.structuredContent as any).data.found).toBe(false);
+      expect(progress.map(notification => notification.progress)).toEqual([1, 2, 3]);
+      expect(progress.every(notification => notification.total === 3)).toBe(true);
+    });
+
+    test('should stop scanning when the client cancels', async () => {
+      let firstPageRequested!: () => void;
+      const pageRequested = new Promise<void>(resolve => {
+        firstPageRequested = resolve;
+      });
+      const getOverallRanking = jest
+        .spyOn(NexonApiClient.prototype, 'getOverallRanking')
+        .mockImplementation((...args: any[]) => {
+          const signal: AbortSignal = args[6].signal;
+          firstPageRequested();
+          return new Promise((_, reject) => {
+            signal.addEventListener('abort', () => reject(new RequestCancelledError()));
+          });
+        });
+
+      const controller = new AbortController();
+      const call = client.callTool(
+        { name: 'find_character_ranking', arguments: { characterName: 'CancelChar', maxPages: 5 } },
+        undefined,
+        { signal: controller.signal }
+      );
+
+      await pageRequested;
+      controller.abort('User gave up');
+      await expect(call).rejects.toBe('User gave up');
+
+      // Give the server time to observe the cancellation
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(getOverallRanking).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('NexonApiClient.request', () => {
+    let apiClient: NexonApiClient;
+
+    beforeEach(() => {
+      apiClient = new NexonApiClient({ apiKey: 'test-api-key' });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test('should pass the signal to the HTTP request and not retry once aborted', async () => {
+      let requestSent!: () => void;
+      const sent = new Promise<void>(resolve => {
+        requestSent = resolve;
+      });
+      const get = jest
+        .spyOn((apiClient as any).client, 'get')
+        .mockImplementation((...args: any[]) => {
+          const signal: AbortSignal = args[1].signal;
+          requestSent();
+          return new Promise((_, reject) => {
+            signal.addEventListener('abort', () => reject(new axios.CanceledError()));
+          });
+        });
+
+      const controller = new AbortController();
+      const request = apiClient.getOverallRanking(
+        'Aquila',
+        undefined,
+        undefined,
+        undefined,
+        7,
+        '2024-01-03',
+        { signal: controller.signal }
+      );
+      await sent;
+      controller.abort();
+
+      await expect(request).rejects.toBeInstanceOf(RequestCancelledError);
+      expect(get).toHaveBeenCalledTimes(1);
+    });
+
+    test('should not call the API when the signal is already aborted', async () => {
+      const get = jest.spyOn((apiClient as any).client, 'get');
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        apiClient.getOverallRanking('Aquila', undefined, undefined, undefined, 8, '2024-01-03', {
+          signal: controller.signal,
+        })
+      ).rejects.toBeInstanceOf(RequestCancelledError);
+      expect(get).not.toHaveBeenCalled();
+    });
+  });
+});
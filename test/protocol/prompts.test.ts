@@ -0,0 +1,94 @@
+/**
+ * MCP Prompt Tests
+ * Validates prompt listing, argument handling and the tool calls each prompt pre-wires
+ */
+
+import { jest } from '@jest/globals';
+import { PromptRegistry } from '../../src/server/prompt-registry';
+import { createAllTools } from '../../src/tools/index';
+
+const SAMPLE_ARGUMENTS: Record<string, Record<string, string>> = {
+  build_review: { character: 'TestChar' },
+  compare_characters: { a: 'TestChar', b: 'OtherChar' },
+  guild_health_report: { guild: 'TestGuild', world: 'Aquila' },
+  weekly_progress: { character: 'TestChar' },
+};
+
+function getPromptText(registry: PromptRegistry, name: string): string {
+  const result = registry.getPrompt(name, SAMPLE_ARGUMENTS[name]);
+  const content = result!.messages[0]!.content;
+  return content.type === 'text' ? content.text : '';
+}
+
+describe('MCP Prompts', () => {
+  let registry: PromptRegistry;
+
+  beforeEach(() => {
+    registry = new PromptRegistry();
+  });
+
+  test('should list the default prompts with their arguments', () => {
+    const prompts = registry.listPrompts();
+
+    expect(prompts.map(prompt => prompt.name)).toEqual(Object.keys(SAMPLE_ARGUMENTS));
+    prompts.forEach(prompt => {
+      expect(prompt.description).toMatch(/maplestory/i);
+      expect(prompt.arguments!.length).toBeGreaterThan(0);
+    });
+  });
+
+  test('should render prompts with the arguments filled in', () => {
+    const text = getPromptText(registry, 'compare_characters');
+
+    expect(text).toContain('"TestChar"');
+    expect(text).toContain('"OtherChar"');
+    expect(text).toContain('**Verdict**');
+  });
+
+  test('should only reference tools that exist', () => {
+    const toolNames = new Set(createAllTools().map(tool => tool.name));
+
+    Object.keys(SAMPLE_ARGUMENTS).forEach(name => {
+      const referenced = getPromptText(registry, name).match(/\b(get|find|search)_[a-z_]+/g) || [];
+      expect(referenced.length).toBeGreaterThan(0);
+      referenced.forEach(toolName => {
+        expect(toolNames.has(toolName)).toBe(true);
+      });
+    });
+  });
+
+  test('weekly progress should use API dates a week apart', () => {
+    const dates = getPromptText(registry, 'weekly_progress').match(/\d{4}-\d{2}-\d{2}/g) || [];
+    const [weekAgo, latest] = dates;
+
+    expect(weekAgo).toBeDefined();
+    expect(new Date(latest!).getTime() - new Date(weekAgo!).getTime()).toBe(7 * 24 * 60 * 60 * 1000);
+  });
+
+  test('weekly progress should end at the latest date with complete SEA data', () => {
+    jest.useFakeTimers();
+    try {
+      // 09:00 SGT on 15 January: the update for the 14th is still running
+      jest.setSystemTime(new Date('2024-01-15T01:00:00Z'));
+      expect(getPromptText(registry, 'weekly_progress')).toContain('from 2024-01-06 to 2024-01-13');
+
+      // 10:00 SGT: the 14th is published
+      jest.setSystemTime(new Date('2024-01-15T02:00:00Z'));
+      expect(getPromptText(registry, 'weekly_progress')).toContain('from 2024-01-07 to 2024-01-14');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test('should validate arguments', () => {
+    expect(() => registry.getPrompt('build_review', {})).toThrow("Missing required argument 'character'");
+    expect(() => registry.getPrompt('build_review', { character: 'Bad Name!' })).toThrow();
+    expect(() =>
+      registry.getPrompt('guild_health_report', { guild: 'TestGuild', world: 'Scania' })
+    ).toThrow();
+  });
+
+  test('should return null for unknown prompts', () => {
+    expect(registry.getPrompt('unknown_prompt')).toBeNull();
+  });
+});
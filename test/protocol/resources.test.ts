@@ -0,0 +1,89 @@
+/**
+ * MCP Resource Tests
+ * Validates maple:// resource templates, listing and reads
+ */
+
+import { ResourceRegistry } from '../../src/server/resource-registry';
+import { MockNexonApiClient } from '../helpers/mock-api-client';
+import { McpLogger } from '../../src/utils/logger';
+import { WORLDS } from '../../src/api/constants';
+
+describe('MCP Resources', () => {
+  let registry: ResourceRegistry;
+  let mockApiClient: MockNexonApiClient;
+  let context: { nexonClient: any; logger: McpLogger };
+
+  beforeEach(() => {
+    registry = new ResourceRegistry();
+    mockApiClient = new MockNexonApiClient();
+    context = { nexonClient: mockApiClient as any, logger: new McpLogger('test') };
+  });
+
+  test('should list templates for characters, guilds and rankings', () => {
+    const uriTemplates = registry.listTemplates().map(template => template.uriTemplate);
+
+    expect(uriTemplates).toEqual(
+      expect.arrayContaining([
+        'maple://character/{name}/basic',
+        'maple://guild/{world}/{name}',
+        'maple://ranking/overall/{world}/{date}',
+      ])
+    );
+    registry.listTemplates().forEach(template => {
+      expect(template.mimeType).toBe('application/json');
+      expect(template.description!.length).toBeGreaterThan(20);
+    });
+  });
+
+  test('should list the latest rankings for every SEA world', () => {
+    const uris = registry.listResources().map(resource => resource.uri);
+
+    WORLDS.forEach(world => {
+      expect(uris).toContain(`maple://ranking/overall/${world}/latest`);
+    });
+  });
+
+  test('should match URIs and decode variables', () => {
+    const match = registry.match('maple://guild/Aquila/Maple%20Heroes');
+
+    expect(match?.definition.name).toBe('guild');
+    expect(match?.variables).toEqual({ world: 'Aquila', name: 'Maple Heroes' });
+    expect(registry.match('maple://unknown/thing')).toBeNull();
+  });
+
+  test('should read character resources through the API client', async () => {
+    const result = await registry.read('maple://character/TestChar/basic', context);
+
+    expect(mockApiClient.getCharacterOcid).toHaveBeenCalledWith('TestChar');
+    expect(result!.contents[0]!.uri).toBe('maple://character/TestChar/basic');
+    expect(JSON.parse(result!.contents[0]!.text as string).character_name).toBe('TestChar');
+  });
+
+  test('should read rankings with "latest" as the most recent date', async () => {
+    await registry.read('maple://ranking/overall/Aquila/latest', context);
+    expect(mockApiClient.getOverallRanking).toHaveBeenCalledWith(
+      'Aquila',
+      undefined,
+      undefined,
+      undefined,
+      1,
+      undefined
+    );
+
+    await registry.read('maple://ranking/overall/Aquila/2024-01-15', context);
+    expect(mockApiClient.getOverallRanking).toHaveBeenLastCalledWith(
+      'Aquila',
+      undefined,
+      undefined,
+      undefined,
+      1,
+      '2024-01-15'
+    );
+  });
+
+  test('should reject invalid worlds and return null for unknown URIs', async () => {
+    await expect(registry.read('maple://ranking/overall/Scania/latest', context)).rejects.toThrow();
+    expect(await registry.read('maple://unknown/thing', context)).toBeNull();
+    expect(mockApiClient.getOverallRanking).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Structured Tool Output Tests
+ * Validates tools/list metadata, outputSchema declarations and structuredContent in
+ * tools/call results
+ */
+
+import { jest } from '@jest/globals';
+import Ajv from 'ajv';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { McpServer } from '../../src/server/mcp-server';
+import { NexonApiClient } from '../../src/api/nexon-client';
+import { createAllTools } from '../../src/tools/index';
+import { MockNexonApiClient } from '../helpers/mock-api-client';
+import { recordStaleData } from '../../src/utils/data-freshness';
+
+describe('Structured Tool Output', () => {
+  let server: McpServer;
+  let client: Client;
+  let mockApiClient: MockNexonApiClient;
+
+  beforeEach(async () => {
+    mockApiClient = new MockNexonApiClient();
+    jest
+      .spyOn(NexonApiClient.prototype, 'healthCheck')
+      .mockResolvedValue({ status: 'healthy', timestamp: new Date().toISOString() });
+    jest
+      .spyOn(NexonApiClient.prototype, 'getCharacterOcid')
+      .mockImplementation(name => mockApiClient.getCharacterOcid(name));
+    jest
+      .spyOn(NexonApiClient.prototype, 'getCharacterBasic')
+      .mockImplementation((ocid, date) => mockApiClient.getCharacterBasic(ocid, date));
+
+    server = new McpServer({ nexonApiKey: 'test-api-key', transport: 'http', port: 0 });
+    createAllTools().forEach(tool => server.registerTool(tool));
+    await server.start();
+
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(
+      new StreamableHTTPClientTransport(new URL(`http://127.0.0.1:${server.getHttpPort()}/mcp`))
+    );
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.shutdown();
+    jest.restoreAllMocks();
+  });
+
+  test('every tool should declare a valid output schema', async () => {
+    const ajv = new Ajv();
+    const { tools } = await client.listTools();
+
+    tools.forEach(tool => {
+      expect(tool.outputSchema?.type).toBe('object');
+      expect(() => ajv.compile(tool.outputSchema as any)).not.toThrow();
+    });
+  });
+
+  test('every tool should describe the shape of its result data', async () => {
+    const { tools } = await client.listTools();
+
+    tools.forEach(tool => {
+      const data = (tool.outputSchema?.properties as any)?.data;
+      expect({ tool: tool.name, type: data?.type }).toEqual({ tool: tool.name, type: 'object' });
+      expect(Object.keys(data.properties || {}).length).toBeGreaterThan(0);
+    });
+  });
+
+  test('tools/list should include titles, annotations and examples', async () => {
+    const { tools } = await client.listTools();
+    const basicInfo = tools.find(tool => tool.name === 'get_character_basic_info')!;
+
+    expect(basicInfo.title).toBe('Character Basic Info');
+    expect(basicInfo.annotations).toEqual({
+      title: 'Character Basic Info',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    });
+    expect(basicInfo._meta!.category).toBe('character');
+    expect((basicInfo._meta!.examples as any[]).length).toBeGreaterThan(0);
+  });
+
+  test('should return structured content with a text summary and the JSON result', async () => {
+    // The client validates structuredContent against the advertised outputSchema
+    await client.listTools();
+    const result = await client.callTool({
+      name: 'get_character_basic_info',
+      arguments: { characterName: 'TestChar' },
+    });
+
+    expect(result.isError).toBeUndefined();
+    expect((result.structuredContent as any).success).toBe(true);
+    expect((result.structuredContent as any).data.characterName).toBe('TestChar');
+
+    const [summary, json] = result.content as any[];
+    expect(summary.text).toContain('get_character_basic_info succeeded');
+    expect(summary.text).toContain('characterName: TestChar');
+    // Text-only clients still get the full result
+    expect(JSON.parse(json.text)).toEqual(result.structuredContent);
+  });
+
+  test('should flag results built from stale cached data', async () => {
+    const getCharacterBasic = mockApiClient.getCharacterBasic.getMockImplementation()!;
+    mockApiClient.getCharacterBasic.mockImplementation((...args: any[]) => {
+      recordStaleData({ cacheKey: 'sea_char_basic:test:latest', reason: 'api_error' });
+      return getCharacterBasic(...args);
+    });
+
+    const result = await client.callTool({
+      name: 'get_character_basic_info',
+      arguments: { characterName: 'TestChar' },
+    });
+
+    const metadata = (result.structuredContent as any).metadata;
+    expect(metadata.stale).toBe(true);
+    expect(metadata.staleData).toEqual([
+      { cacheKey: 'sea_char_basic:test:latest', reason: 'api_error' },
+    ]);
+  });
+
+  test('should set isError when the tool returns an error result', async () => {
+    mockApiClient.getCharacterOcid.mockRejectedValue(new Error('Character not found'));
+
+    const result = await client.callTool({
+      name: 'get_character_basic_info',
+      arguments: { characterName: 'Missing' },
+    });
+
+    expect(result.isError).toBe(true);
+    expect((result.structuredContent as any).success).toBe(false);
+    expect((result.content as any[])[0].text).toMatch(/^Error: .*Character not found/);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Resource Subscription Tests
+ * Validates change detection and notifications for subscribed maple:// resources
+ */
+
+import { jest } from '@jest/globals';
+import { ResourceRegistry } from '../../src/server/resource-registry';
+import { ResourceSubscriptionManager } from '../../src/server/subscription-manager';
+import { MockNexonApiClient } from '../helpers/mock-api-client';
+import { McpLogger } from '../../src/utils/logger';
+
+const BASIC_URI = 'maple://character/TestChar/basic';
+
+function createSubscriber() {
+  return { sendResourceUpdated: jest.fn(async () => undefined) } as any;
+}
+
+describe('Resource Subscriptions', () => {
+  let mockApiClient: MockNexonApiClient;
+  let manager: ResourceSubscriptionManager;
+
+  beforeEach(() => {
+    mockApiClient = new MockNexonApiClient();
+    manager = new ResourceSubscriptionManager(new ResourceRegistry(), {
+      nexonClient: mockApiClient as any,
+      logger: new McpLogger('test'),
+    });
+  });
+
+  afterEach(() => {
+    manager.stop();
+    jest.useRealTimers();
+  });
+
+  test('should notify subscribers when character data changes', async () => {
+    const subscriber = createSubscriber();
+    await manager.subscribe(BASIC_URI, subscriber);
+
+    expect(await manager.pollNow()).toEqual([]);
+    expect(subscriber.sendResourceUpdated).not.toHaveBeenCalled();
+
+    const basic = await mockApiClient.getCharacterBasic('test-ocid-12345');
+    mockApiClient.getCharacterBasic.mockResolvedValue({ ...basic, character_level: 251 });
+
+    expect(await manager.pollNow()).toEqual([BASIC_URI]);
+    expect(subscriber.sendResourceUpdated).toHaveBeenCalledWith({ uri: BASIC_URI });
+  });
+
+  test('should poll with fresh reads that bypass the cache', async () => {
+    await manager.subscribe(BASIC_URI, createSubscriber());
+    expect(mockApiClient.withFreshReads).not.toHaveBeenCalled();
+
+    await manager.pollNow();
+    expect(mockApiClient.withFreshReads).toHaveBeenCalledTimes(1);
+  });
+
+  test('should ignore changes to the snapshot date only', async () => {
+    const subscriber = createSubscriber();
+    await manager.subscribe(BASIC_URI, subscriber);
+
+    const basic = await mockApiClient.getCharacterBasic('test-ocid-12345');
+    mockApiClient.getCharacterBasic.mockResolvedValue({ ...basic, date: '2024-01-16' });
+
+    expect(await manager.pollNow()).toEqual([]);
+    expect(subscriber.sendResourceUpdated).not.toHaveBeenCalled();
+  });
+
+  test('should track subscribers per session and drop failed ones', async () => {
+    const subscriber = createSubscriber();
+    const closedSubscriber = createSubscriber();
+    closedSubscriber.sendResourceUpdated.mockRejectedValue(new Error('Not connected'));
+
+    await manager.subscribe(BASIC_URI, subscriber);
+    await manager.subscribe(BASIC_URI, closedSubscriber);
+    expect(manager.getStats()).toEqual({ resources: 1, subscribers: 2 });
+
+    const basic = await mockApiClient.getCharacterBasic('test-ocid-12345');
+    mockApiClient.getCharacterBasic.mockResolvedValue({ ...basic, character_exp: 1 });
+    await manager.pollNow();
+
+    expect(subscriber.sendResourceUpdated).toHaveBeenCalledTimes(1);
+    expect(manager.getStats()).toEqual({ resources: 1, subscribers: 1 });
+
+    manager.unsubscribe(BASIC_URI, subscriber);
+    expect(manager.getStats()).toEqual({ resources: 0, subscribers: 0 });
+  });
+
+  test('should reject unknown resources', async () => {
+    await expect(manager.subscribe('maple://unknown/thing', createSubscriber())).rejects.toThrow(
+      'Unknown resource'
+    );
+  });
+
+  test('should poll after the daily data update window', () => {
+    jest.useFakeTimers();
+
+    // 10:00 SGT: today's update is done, so the next poll follows tomorrow's window
+    jest.setSystemTime(new Date('2024-01-15T02:00:00Z'));
+    expect(manager.getNextPollDelay()).toBe((23 * 60 + 35) * 60 * 1000);
+
+    // 08:30 SGT: wait for the current window to close
+    jest.setSystemTime(new Date('2024-01-15T00:30:00Z'));
+    expect(manager.getNextPollDelay()).toBe(65 * 60 * 1000);
+
+    // 06:00 SGT: poll after today's window
+    jest.setSystemTime(new Date('2024-01-14T22:00:00Z'));
+    expect(manager.getNextPollDelay()).toBe((3 * 60 + 35) * 60 * 1000);
+  });
+});
@@ -0,0 +1,444 @@
+/**
+ * NexonApiClient Unit Tests
+ * Tests request handling in the API client with the HTTP layer mocked out
+ */
+
+import { jest } from '@jest/globals';
+import axios, { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { NexonApiClient } from '../../src/api/nexon-client';
+import { PAGINATION } from '../../src/api/constants';
+import { MemoryCache } from '../../src/utils/cache';
+import { CircuitBreaker } from '../../src/utils/circuit-breaker';
+import { RequestCancelledError, ServiceUnavailableError } from '../../src/utils/errors';
+import { trackStaleData } from '../../src/utils/data-freshness';
+import { RankingCacheKeys } from '../../src/utils/ranking-utils';
+
+const OCID = 'e0a4f439e53c369866b55297d2f5f4eb';
+
+/**
+ * Mock client.get with requests that stay pending until released
+ */
+function mockPendingGet(apiClient: NexonApiClient) {
+  const pending: Array<{ resolve: (data: unknown) => void; signal: AbortSignal }> = [];
+  const get = jest.spyOn((apiClient as any).client, 'get').mockImplementation((...args: any[]) => {
+    const signal: AbortSignal = args[1].signal;
+    return new Promise((resolve, reject) => {
+      pending.push({ resolve: (data) => resolve({ data }), signal });
+      signal.addEventListener('abort', () => reject(new axios.CanceledError()));
+    });
+  });
+
+  return { get, pending };
+}
+
+/**
+ * Answer requests at the axios adapter, so they still pass through the client's interceptors
+ */
+function mockAdapter(
+  apiClient: NexonApiClient,
+  respond: (config: InternalAxiosRequestConfig) => { status: number; data: unknown }
+) {
+  const adapter = jest.fn(async (config: InternalAxiosRequestConfig) => {
+    const { status, data } = respond(config);
+    const response = { status, data, statusText: '', headers: {}, config } as AxiosResponse;
+    if (status >= 400) {
+      throw new AxiosError(
+        `Request failed with status code ${status}`,
+        AxiosError.ERR_BAD_REQUEST,
+        config,
+        null,
+        response
+      );
+    }
+    return response;
+  });
+  (apiClient as any).client.defaults.adapter = adapter;
+
+  return adapter;
+}
+
+async function flushPromises(): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, 10));
+}
+
+describe('NexonApiClient', () => {
+  let apiClient: NexonApiClient;
+  let cache: MemoryCache;
+
+  beforeEach(() => {
+    cache = new MemoryCache();
+    apiClient = new NexonApiClient({ apiKey: 'test-api-key', cache });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Request Coalescing', () => {
+    test('should share one request between concurrent identical calls', async () => {
+      const { get, pending } = mockPendingGet(apiClient);
+
+      const calls = [1, 2, 3].map(() => apiClient.getCharacterOcid('TestChar'));
+      await flushPromises();
+      pending[0]!.resolve({ ocid: OCID });
+
+      const results = await Promise.all(calls);
+      expect(results.every((result) => result.ocid === OCID)).toBe(true);
+      expect(get).toHaveBeenCalledTimes(1);
+      expect(apiClient.getCoalescingStats()).toMatchObject({
+        inFlight: 0,
+        requests: 1,
+        coalesced: 2,
+        byEndpoint: { '/maplestorysea/v1/id': 2 },
+      });
+    });
+
+    test('should not coalesce calls with different params or after completion', async () => {
+      const { get, pending } = mockPendingGet(apiClient);
+      const request = (params: Record<string, any>) =>
+        (apiClient as any).request('/maplestorysea/v1/character/basic', params);
+
+      const first = request({ ocid: OCID, date: '2024-01-14' });
+      const second = request({ date: '2024-01-15', ocid: OCID });
+      await flushPromises();
+      expect(get).toHaveBeenCalledTimes(2);
+      pending.forEach(({ resolve }) => resolve({}));
+      await Promise.all([first, second]);
+
+      const third = request({ date: '2024-01-15', ocid: OCID });
+      await flushPromises();
+      pending[2]!.resolve({});
+      await third;
+
+      expect(get).toHaveBeenCalledTimes(3);
+      expect(apiClient.getCoalescingStats().coalesced).toBe(0);
+    });
+
+    test('should only abort the shared request once every caller cancels', async () => {
+      const { get, pending } = mockPendingGet(apiClient);
+      const first = new AbortController();
+      const second = new AbortController();
+      const params = { character_name: 'TestChar' };
+      const request = (signal: AbortSignal) =>
+        (apiClient as any).request('/maplestorysea/v1/id', params, { signal });
+
+      const firstCall = request(first.signal);
+      const secondCall = request(second.signal);
+      await flushPromises();
+
+      first.abort();
+      await expect(firstCall).rejects.toBeInstanceOf(RequestCancelledError);
+      expect(pending[0]!.signal.aborted).toBe(false);
+
+      second.abort();
+      await expect(secondCall).rejects.toBeInstanceOf(RequestCancelledError);
+      expect(pending[0]!.signal.aborted).toBe(true);
+      expect(get).toHaveBeenCalledTimes(1);
+      expect(apiClient.getCoalescingStats().inFlight).toBe(0);
+    });
+  });
+
+  describe('Rate Limiting', () => {
+    test('should count every upstream call against the daily quota', async () => {
+      jest.useFakeTimers();
+      try {
+        const adapter = mockAdapter(apiClient, (config) =>
+          config.params.date === '2024-01-01'
+            ? { status: 503, data: {} }
+            : { status: 429, data: { error: { message: 'Too many requests' } } }
+        );
+
+        await expect(apiClient.getCharacterStat(OCID, '2024-01-01')).rejects.toBeDefined();
+        expect(adapter).toHaveBeenCalledTimes(1);
+
+        // Rate limited requests are retried, each retry taking a token
+        const request = apiClient.getCharacterStat(OCID, '2024-01-02').catch((error) => error);
+        await jest.advanceTimersByTimeAsync(60000);
+        await request;
+
+        expect(adapter).toHaveBeenCalledTimes(5);
+        expect(apiClient.getApiKeyStats().dailyUsed).toBe(5);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('Circuit Breaker', () => {
+    let breaker: CircuitBreaker;
+
+    beforeEach(() => {
+      breaker = new CircuitBreaker('character', 2, 60000);
+      (apiClient as any).circuitBreakers.character = breaker;
+    });
+
+    test('should fail fast once repeated outages open the circuit', async () => {
+      const get = jest
+        .spyOn((apiClient as any).client, 'get')
+        .mockRejectedValue(new Error('socket hang up'));
+
+      await expect(apiClient.getCharacterStat(OCID, '2024-01-01')).rejects.toThrow('socket');
+      await expect(apiClient.getCharacterStat(OCID, '2024-01-02')).rejects.toThrow('socket');
+      await expect(apiClient.getCharacterStat(OCID, '2024-01-03')).rejects.toBeInstanceOf(
+        ServiceUnavailableError
+      );
+
+      expect(get).toHaveBeenCalledTimes(2);
+      const stats = apiClient.getCircuitBreakerStats();
+      expect(stats.character).toMatchObject({ state: 'open', trips: 1, rejected: 1 });
+      expect(stats.ranking.state).toBe('closed');
+      expect((await apiClient.getClientHealth()).status).toBe('degraded');
+    });
+
+    test('should not count errors for bad requests as outages', async () => {
+      jest.spyOn((apiClient as any).client, 'get').mockRejectedValue({
+        response: { status: 400, data: { message: 'Invalid date' } },
+        message: 'Request failed with status code 400',
+      });
+
+      for (let i = 0; i < 3; i++) {
+        await expect(apiClient.getCharacterStat(OCID, '2024-01-01')).rejects.toBeDefined();
+      }
+      expect(apiClient.getCircuitBreakerStats().character.state).toBe('closed');
+    });
+
+    test('should not open the circuit for API responses about unknown characters', async () => {
+      mockAdapter(apiClient, (config) =>
+        config.params.character_name === 'TestChar'
+          ? { status: 200, data: { ocid: OCID } }
+          : { status: 404, data: { error: { message: 'Character not found' } } }
+      );
+
+      for (const name of ['Missing1', 'Missing2', 'Missing3']) {
+        await expect(apiClient.getCharacterOcid(name)).rejects.toMatchObject({ statusCode: 404 });
+      }
+      expect(apiClient.getCircuitBreakerStats().character).toMatchObject({
+        state: 'closed',
+        failures: 0,
+      });
+      await expect(apiClient.getCharacterOcid('TestChar')).resolves.toEqual({ ocid: OCID });
+    });
+
+    test('should serve stale cache entries while the circuit is open', async () => {
+      const get = jest.spyOn((apiClient as any).client, 'get');
+      const basic = { character_name: 'TestChar', world_name: 'Aquila' };
+      // Expired as soon as it is stored
+      cache.set(MemoryCache.generateCharacterBasicCacheKey(OCID), basic, -1);
+      breaker.recordFailure();
+      breaker.recordFailure();
+
+      await expect(apiClient.getCharacterBasic(OCID)).resolves.toEqual(basic);
+      await expect(apiClient.getCharacterBasic(OCID, '2024-01-01')).rejects.toBeInstanceOf(
+        ServiceUnavailableError
+      );
+      expect(get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('API Key Rotation', () => {
+    beforeEach(() => {
+      apiClient = new NexonApiClient({ apiKey: 'first-key', apiKeys: ['second-key'], cache });
+    });
+
+    test('should retry with another key when the API rejects one', async () => {
+      const get = jest
+        .spyOn((apiClient as any).client, 'get')
+        .mockRejectedValueOnce({
+          response: { status: 403, data: { message: 'Forbidden' } },
+          message: 'Request failed with status code 403',
+        })
+        .mockResolvedValue({ data: { ocid: OCID } });
+
+      await expect(apiClient.getCharacterOcid('TestChar')).resolves.toEqual({ ocid: OCID });
+
+      const keys = get.mock.calls.map(([, config]: any[]) => config.headers['x-nxopen-api-key']);
+      expect(keys).toEqual(['first-key', 'second-key']);
+      const stats = apiClient.getApiKeyStats();
+      expect(stats.available).toBe(1);
+      expect(stats.keys.map((key) => [key.requests, key.rejected, key.benched])).toEqual([
+        [1, 1, true],
+        [1, 0, false],
+      ]);
+    });
+
+    test('should rotate to another key when the API rate limits one', async () => {
+      const adapter = mockAdapter(apiClient, (config) =>
+        config.headers['x-nxopen-api-key'] === 'first-key'
+          ? { status: 429, data: { error: { message: 'Too many requests' } } }
+          : { status: 200, data: { ocid: OCID } }
+      );
+
+      await expect(apiClient.getCharacterOcid('TestChar')).resolves.toEqual({ ocid: OCID });
+
+      expect(adapter).toHaveBeenCalledTimes(2);
+      expect(apiClient.getApiKeyStats().keys[0]).toMatchObject({
+        rateLimited: 1,
+        benched: true,
+        benchReason: 'rate_limited',
+      });
+    });
+  });
+
+  describe('Stale Data', () => {
+    const basicKey = MemoryCache.generateCharacterBasicCacheKey(OCID);
+    const staleBasic = { character_name: 'TestChar', world_name: 'Aquila', character_level: 250 };
+
+    beforeEach(() => {
+      // Expired as soon as it is stored
+      cache.set(basicKey, staleBasic, -1);
+    });
+
+    test('should serve expired data immediately and refresh it in the background', async () => {
+      const freshBasic = { ...staleBasic, character_level: 251 };
+      const get = jest
+        .spyOn((apiClient as any).client, 'get')
+        .mockResolvedValue({ data: freshBasic });
+
+      const { result, stale } = await trackStaleData(() => apiClient.getCharacterBasic(OCID));
+      expect(result).toEqual(staleBasic);
+      expect(stale).toEqual([{ cacheKey: basicKey, reason: 'revalidating' }]);
+
+      await flushPromises();
+      expect(get).toHaveBeenCalledTimes(1);
+      expect(cache.get(basicKey)).toEqual(freshBasic);
+    });
+
+    test('should fall back to expired data when the API fails', async () => {
+      jest.spyOn((apiClient as any).client, 'get').mockRejectedValue(new Error('socket hang up'));
+      // A refresh is already running, so this call fetches
+      (apiClient as any).revalidating.add(basicKey);
+
+      const { result, stale } = await trackStaleData(() => apiClient.getCharacterBasic(OCID));
+      expect(result).toEqual(staleBasic);
+      expect(stale).toEqual([{ cacheKey: basicKey, reason: 'api_error', error: 'socket hang up' }]);
+    });
+
+    test('should not serve stale data for bad requests answered by the API', async () => {
+      mockAdapter(apiClient, () => ({ status: 400, data: { error: { message: 'Bad date' } } }));
+      (apiClient as any).revalidating.add(basicKey);
+
+      const { stale } = await trackStaleData(() =>
+        apiClient.getCharacterBasic(OCID).catch((error) => error)
+      );
+      expect(stale).toEqual([]);
+    });
+
+    test('should not hide errors caused by the request itself', async () => {
+      jest.spyOn((apiClient as any).client, 'get').mockRejectedValue({
+        response: { status: 400, data: { message: 'Invalid date' } },
+        message: 'Request failed with status code 400',
+      });
+      (apiClient as any).revalidating.add(basicKey);
+
+      await expect(apiClient.getCharacterBasic(OCID)).rejects.toBeDefined();
+    });
+
+    test('should skip cached and stale entries inside withFreshReads', async () => {
+      const freshBasic = { ...staleBasic, character_level: 251 };
+      const get = jest
+        .spyOn((apiClient as any).client, 'get')
+        .mockResolvedValue({ data: freshBasic });
+      // One character with an expired entry, one with an entry that is still valid
+      const cachedOcid = 'c3c8f0b5d2a14e7a9b6f1e2d3c4b5a69';
+      const cachedKey = MemoryCache.generateCharacterBasicCacheKey(cachedOcid);
+      cache.set(cachedKey, staleBasic);
+
+      const { result, stale } = await trackStaleData(() =>
+        apiClient.withFreshReads(() =>
+          Promise.all([apiClient.getCharacterBasic(OCID), apiClient.getCharacterBasic(cachedOcid)])
+        )
+      );
+      expect(result).toEqual([freshBasic, freshBasic]);
+      expect(stale).toEqual([]);
+      expect(get).toHaveBeenCalledTimes(2);
+      expect(cache.get(cachedKey)).toEqual(freshBasic);
+    });
+  });
+
+  describe('Ranking Caching', () => {
+    test.each([
+      [
+        'The Seed',
+        RankingCacheKeys.theSeed('Aquila', undefined, 1),
+        (client: NexonApiClient) => client.getTheSeedRanking('Aquila'),
+      ],
+      [
+        'Achievement',
+        RankingCacheKeys.achievement('Aquila', undefined, 1),
+        (client: NexonApiClient) => client.getAchievementRanking('Aquila'),
+      ],
+    ])(
+      'should cache %s rankings and serve them when the API fails',
+      async (_, cacheKey, getRanking) => {
+        const ranking = { ranking: [{ ranking: 1, character_name: 'TestChar' }] };
+        const get = jest
+          .spyOn((apiClient as any).client, 'get')
+          .mockResolvedValue({ data: ranking });
+
+        expect(await getRanking(apiClient)).toEqual(ranking);
+        expect(await getRanking(apiClient)).toEqual(ranking);
+        expect(get).toHaveBeenCalledTimes(1);
+
+        // Expire the entry; a refresh is already running, so the next call fetches and fails
+        cache.set(cacheKey, ranking, -1);
+        (apiClient as any).revalidating.add(cacheKey);
+        get.mockRejectedValue(new Error('socket hang up'));
+
+        const { result, stale } = await trackStaleData(() => getRanking(apiClient));
+        expect(result).toEqual(ranking);
+        expect(stale).toEqual([{ cacheKey, reason: 'api_error', error: 'socket hang up' }]);
+      }
+    );
+  });
+
+  describe('Dojang Ranking Size', () => {
+    const DATE = '2024-01-14';
+
+    /**
+     * Mock getDojangRanking with leaderboards of the given sizes and 10 entries per page
+     */
+    function mockLeaderboards(sizes: Record<string, number>) {
+      return jest
+        .spyOn(apiClient, 'getDojangRanking')
+        .mockImplementation(async (_world, _name, page = 1, _date, className) => {
+          const size = sizes[className ?? 'world'] ?? 0;
+          const length = Math.max(0, Math.min(10, size - (page - 1) * 10));
+          return { ranking: Array.from({ length }, () => ({})) } as any;
+        });
+    }
+
+    test('should stop probing once the page budget is spent', async () => {
+      const getDojangRanking = mockLeaderboards({ world: 1500 });
+
+      const size = await apiClient.estimateDojangRankingSize('Aquila', undefined, 0, DATE);
+
+      expect(getDojangRanking).toHaveBeenCalledTimes(PAGINATION.MAX_SIZE_PROBES);
+      expect(size.searchedPages).toBe(PAGINATION.MAX_SIZE_PROBES);
+      expect(size.capped).toBe(true);
+      expect(size.totalEntries).toBeLessThanOrEqual(1500);
+    });
+
+    test('should share the world estimate between class filters', async () => {
+      const getDojangRanking = mockLeaderboards({ world: 245, Hero: 173, Bishop: 7 });
+
+      const hero = await apiClient.estimateDojangRankingSize('Aquila', 'Hero', 0, DATE);
+      const bishop = await apiClient.estimateDojangRankingSize('Aquila', 'Bishop', 0, DATE);
+      const world = await apiClient.estimateDojangRankingSize('Aquila', undefined, 0, DATE);
+
+      expect(hero).toMatchObject({ totalEntries: 173, lastPage: 18, capped: false });
+      expect(bishop).toMatchObject({ totalEntries: 7, lastPage: 1, searchedPages: 1 });
+      expect(world).toMatchObject({ totalEntries: 245, lastPage: 25, capped: false });
+      const worldProbes = getDojangRanking.mock.calls.filter((call) => call[4] === undefined);
+      expect(worldProbes).toHaveLength(world.searchedPages);
+      // The first class estimate fetched the world's pages too; the later ones came from cache
+      expect(hero.fetchedPages).toBe(hero.searchedPages + world.searchedPages);
+      expect(bishop.fetchedPages).toBe(1);
+      expect(world.fetchedPages).toBe(0);
+      // Bounded by the world's 25 pages, the class search skips the exponential phase
+      const heroPages = getDojangRanking.mock.calls
+        .filter((call) => call[4] === 'Hero')
+        .map((call) => call[2]!);
+      expect(Math.max(...heroPages)).toBeLessThanOrEqual(26);
+    });
+  });
+});
@@ -12,8 +12,13 @@ import {
   isRetryableError,
   getRetryDelay,
   sanitizeErrorForLogging,
+  RateLimitError,
+  SeaQuotaExceededError,
 } from '../../src/utils/errors';
-import { MemoryCache } from '../../src/utils/cache';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MemoryCache, FileCache, createCache } from '../../src/utils/cache';
 import {
   validateCharacterName,
   validateWorldName,
@@ -21,6 +26,13 @@ import {
   sanitizeCharacterName,
   sanitizeGuildName,
 } from '../../src/utils/validation';
+import { formatRecordTime } from '../../src/utils/ranking-utils';
+import { getDataCacheTtl, getLatestDataDate } from '../../src/utils/server-utils';
+import { CACHE_TTL } from '../../src/api/constants';
+import { RateLimiter, TokenBucket, getEndpointClass } from '../../src/utils/rate-limiter';
+import { CircuitBreaker } from '../../src/utils/circuit-breaker';
+import { ApiKeyPool } from '../../src/utils/api-key-pool';
+import { parseSetEffects, parseSetOptionStats } from '../../src/utils/equipment-analyzer';
 
 describe('Error Utilities', () => {
   describe('createNexonApiError', () => {
@@ -211,6 +223,75 @@ describe('Cache Utilities', () => {
     expect(cache.get('key2')).toBeNull();
   });
 
+  test('should evict the least recently used entry when full', () => {
+    const lru = new MemoryCache(2);
+    lru.set('sea_ocid:a', 'a');
+    lru.set('sea_ocid:b', 'b');
+    lru.get('sea_ocid:a');
+    lru.set('sea_ocid:c', 'c');
+
+    expect(lru.size()).toBe(2);
+    expect(lru.has('sea_ocid:a')).toBe(true);
+    expect(lru.has('sea_ocid:b')).toBe(false);
+    expect(lru.getStats().evictions).toBe(1);
+  });
+
+  test('should stay within its byte budget', () => {
+    const small = new MemoryCache(100, 200);
+    small.set('sea_ocid:a', 'x'.repeat(80));
+    small.set('sea_ocid:b', 'x'.repeat(80));
+    small.set('sea_ocid:c', 'x'.repeat(80));
+    small.set('sea_ocid:huge', 'x'.repeat(500));
+
+    const stats = small.getStats();
+    expect(stats.bytes).toBeLessThanOrEqual(200);
+    expect(small.has('sea_ocid:a')).toBe(false);
+    expect(small.has('sea_ocid:c')).toBe(true);
+    expect(small.has('sea_ocid:huge')).toBe(false);
+  });
+
+  test('should track hits and misses per namespace', () => {
+    cache.set(MemoryCache.generateOcidCacheKey('TestChar'), { ocid: 'abc' });
+    cache.set(MemoryCache.generateApiCacheKey('/maplestorysea/v1/character/stat', { ocid: 'abc' }), {});
+    cache.get(MemoryCache.generateOcidCacheKey('TestChar'));
+    cache.get(MemoryCache.generateOcidCacheKey('Missing'));
+
+    const stats = cache.getStats();
+    expect(stats.namespaces.sea_ocid).toMatchObject({ entries: 1, hits: 1, misses: 1, hitRate: 0.5 });
+    expect(stats.namespaces['sea_api:character/stat']).toMatchObject({ entries: 1, hits: 0 });
+    expect(stats.hitRate).toBe(0.5);
+    expect(stats.bytes).toBeGreaterThan(0);
+  });
+
+  test('should keep expired entries for the stale grace period', () => {
+    jest.useFakeTimers();
+    try {
+      const graceful = new MemoryCache(100, 1000, 60000);
+      graceful.set('sea_ocid:a', 'a', 1000);
+
+      jest.advanceTimersByTime(30000);
+      expect(graceful.get('sea_ocid:a')).toBeNull();
+      expect(graceful.getStale('sea_ocid:a')).toBe('a');
+
+      jest.advanceTimersByTime(31001);
+      expect(graceful.getStale('sea_ocid:a')).toBeNull();
+      graceful.cleanup();
+      expect(graceful.size()).toBe(0);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test('should evict expired entries before fresh ones', () => {
+    const lru = new MemoryCache(2);
+    lru.set('sea_ocid:a', 'a');
+    lru.set('sea_ocid:b', 'b', -1);
+    lru.set('sea_ocid:c', 'c');
+
+    expect(lru.has('sea_ocid:a')).toBe(true);
+    expect(lru.getStale('sea_ocid:b')).toBeNull();
+  });
+
   test('should generate consistent cache keys', () => {
     const key1 = MemoryCache.generateOcidCacheKey('TestChar');
     const key2 = MemoryCache.generateOcidCacheKey('testchar'); // Different case
@@ -222,6 +303,359 @@ describe('Cache Utilities', () => {
   });
 });
 
+describe('File Cache', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-maple-cache-'));
+    filePath = path.join(dir, 'cache.jsonl');
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should survive a restart', () => {
+    const cache = new FileCache(filePath);
+    cache.set('sea_ocid:testchar', { ocid: 'abc' }, 60000);
+    cache.set('sea_ocid:gone', { ocid: 'def' }, 60000);
+    cache.delete('sea_ocid:gone');
+
+    const restarted = new FileCache(filePath);
+    expect(restarted.get('sea_ocid:testchar')).toEqual({ ocid: 'abc' });
+    expect(restarted.get('sea_ocid:gone')).toBeNull();
+    expect(restarted.getStats()).toMatchObject({ backend: 'file', size: 1, filePath });
+  });
+
+  test('should expire entries by their original TTL across restarts', () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-01-15T00:00:00Z'));
+    const cache = new FileCache(filePath);
+    cache.set('short', 'value', 1000);
+    cache.set('long', 'value', 60000);
+
+    jest.setSystemTime(new Date('2024-01-15T00:00:05Z'));
+    const restarted = new FileCache(filePath);
+    expect(restarted.get('short')).toBeNull();
+    expect(restarted.get('long')).toBe('value');
+  });
+
+  test('should skip unreadable lines and compact the file on load', () => {
+    const cache = new FileCache(filePath);
+    cache.set('key', 'first');
+    cache.set('key', 'second');
+    fs.appendFileSync(filePath, '{"op":"set","key":"torn"');
+
+    const restarted = new FileCache(filePath);
+    expect(restarted.get('key')).toBe('second');
+    expect(fs.readFileSync(filePath, 'utf8').trim().split('\n')).toHaveLength(1);
+  });
+
+  test('should evict without rewriting the file and compact it on close', () => {
+    const cache = new FileCache(filePath, 2);
+    // compact() writes a temporary file and renames it over the cache file
+    const renameSync = jest.spyOn(fs, 'renameSync');
+
+    for (let i = 0; i < 10; i++) {
+      cache.set(`key${i}`, 'value');
+    }
+    expect(cache.size()).toBe(2);
+    expect(renameSync).not.toHaveBeenCalled();
+
+    cache.close();
+    expect(renameSync).toHaveBeenCalledTimes(1);
+    expect(fs.readFileSync(filePath, 'utf8').trim().split('\n')).toHaveLength(2);
+    renameSync.mockRestore();
+  });
+
+  test('should create the backend selected by config', () => {
+    expect(createCache().getStats().backend).toBe('memory');
+    expect(createCache({ backend: 'file', filePath }).getStats().backend).toBe('file');
+  });
+});
+
+describe('Date-aware Cache TTL', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should report the latest date with complete data', () => {
+    jest.useFakeTimers();
+
+    // 10:00 SGT: yesterday's data has been published
+    jest.setSystemTime(new Date('2024-01-15T02:00:00Z'));
+    expect(getLatestDataDate()).toBe('2024-01-14');
+
+    // 08:30 SGT: yesterday's data is still being published
+    jest.setSystemTime(new Date('2024-01-15T00:30:00Z'));
+    expect(getLatestDataDate()).toBe('2024-01-13');
+  });
+
+  test('should cache past dates indefinitely', () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-01-15T02:00:00Z'));
+
+    expect(getDataCacheTtl(CACHE_TTL.CHARACTER_BASIC, '2024-01-14')).toBe(CACHE_TTL.HISTORICAL);
+    expect(getDataCacheTtl(CACHE_TTL.CHARACTER_BASIC, '2023-06-01')).toBe(CACHE_TTL.HISTORICAL);
+  });
+
+  test('should expire latest data at the next data update', () => {
+    jest.useFakeTimers();
+
+    // 10:00 SGT: expire at 08:00 SGT tomorrow
+    jest.setSystemTime(new Date('2024-01-15T02:00:00Z'));
+    expect(getDataCacheTtl(CACHE_TTL.CHARACTER_BASIC)).toBe(22 * 60 * 60 * 1000);
+    expect(getDataCacheTtl(CACHE_TTL.CHARACTER_BASIC, '2024-01-15')).toBe(22 * 60 * 60 * 1000);
+
+    // 06:00 SGT: expire at 08:00 SGT today
+    jest.setSystemTime(new Date('2024-01-14T22:00:00Z'));
+    expect(getDataCacheTtl(CACHE_TTL.CHARACTER_BASIC)).toBe(2 * 60 * 60 * 1000);
+  });
+
+  test('should fall back to the default TTL during the data update', () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-01-15T00:30:00Z'));
+
+    expect(getDataCacheTtl(CACHE_TTL.CHARACTER_BASIC)).toBe(CACHE_TTL.CHARACTER_BASIC);
+    expect(getDataCacheTtl(CACHE_TTL.CHARACTER_BASIC, '2024-01-14')).toBe(
+      CACHE_TTL.CHARACTER_BASIC
+    );
+  });
+
+  test('should keep historical entries in the file cache across restarts', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-maple-cache-'));
+    const filePath = path.join(dir, 'cache.jsonl');
+    try {
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date('2024-01-15T02:00:00Z'));
+      new FileCache(filePath).set('old', 'value', getDataCacheTtl(60000, '2024-01-10'));
+
+      jest.setSystemTime(new Date('2025-01-15T02:00:00Z'));
+      expect(new FileCache(filePath).get('old')).toBe('value');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('Rate Limiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-01-15T02:00:00Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should classify endpoints', () => {
+    expect(getEndpointClass('/maplestorysea/v1/id')).toBe('character');
+    expect(getEndpointClass('/maplestorysea/v1/character/stat')).toBe('character');
+    expect(getEndpointClass('/maplestorysea/v1/user/union-raider')).toBe('union');
+    expect(getEndpointClass('/maplestorysea/v1/guild/basic')).toBe('guild');
+    expect(getEndpointClass('/maplestorysea/v1/ranking/overall')).toBe('ranking');
+  });
+
+  test('should refill token buckets over time', () => {
+    const bucket = new TokenBucket(2, 4);
+    bucket.take();
+    bucket.take();
+    expect(bucket.getWaitTime()).toBe(250);
+
+    jest.advanceTimersByTime(250);
+    expect(bucket.getWaitTime()).toBe(0);
+    expect(bucket.getTokens()).toBe(1);
+  });
+
+  test('should apply the ranking budget to ranking endpoints only', async () => {
+    const limiter = new RateLimiter();
+    for (let i = 0; i < 5; i++) {
+      await limiter.acquire('/maplestorysea/v1/ranking/overall');
+    }
+    await limiter.acquire('/maplestorysea/v1/character/basic');
+
+    let acquired = false;
+    const waiting = limiter.acquire('/maplestorysea/v1/ranking/overall').then(() => {
+      acquired = true;
+    });
+    await jest.advanceTimersByTimeAsync(100);
+    expect(acquired).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(100);
+    await waiting;
+    expect(acquired).toBe(true);
+    expect(limiter.getStats()).toMatchObject({
+      throttled: 1,
+      classes: { ranking: { requests: 6 }, character: { requests: 1 } },
+    });
+  });
+
+  test('should reject requests that would wait longer than the queue timeout', async () => {
+    const limiter = new RateLimiter({ queueTimeout: 100 });
+    for (let i = 0; i < 5; i++) {
+      await limiter.acquire('/maplestorysea/v1/ranking/guild');
+    }
+
+    await expect(limiter.acquire('/maplestorysea/v1/ranking/guild')).rejects.toBeInstanceOf(
+      RateLimitError
+    );
+    expect(limiter.getStats().queueTimeouts).toBe(1);
+  });
+
+  test('should refuse requests before the daily quota is exhausted', async () => {
+    const limiter = new RateLimiter({ dailyQuota: 10 });
+    for (let i = 0; i < 9; i++) {
+      await limiter.acquire('/maplestorysea/v1/character/basic');
+    }
+
+    const refused = limiter.acquire('/maplestorysea/v1/character/basic');
+    await expect(refused).rejects.toBeInstanceOf(SeaQuotaExceededError);
+    await expect(refused).rejects.toMatchObject({
+      context: { quotaType: 'daily', resetTime: '2024-01-15T16:00:00.000Z' },
+    });
+    expect(limiter.getStats().daily).toMatchObject({ used: 9, limit: 10, remaining: 0 });
+
+    // The quota resets at midnight SGT
+    jest.setSystemTime(new Date('2024-01-15T16:00:00Z'));
+    await limiter.acquire('/maplestorysea/v1/character/basic');
+    expect(limiter.getStats().daily.used).toBe(1);
+  });
+
+  test('should keep daily usage across restarts through the usage store', async () => {
+    const usageStore = new MemoryCache();
+    const config = { dailyQuota: 10, usageStore, usageId: 'test-key' };
+    const limiter = new RateLimiter(config);
+    for (let i = 0; i < 3; i++) {
+      await limiter.acquire('/maplestorysea/v1/character/basic');
+    }
+
+    expect(new RateLimiter(config).getStats().daily.used).toBe(3);
+    expect(new RateLimiter({ ...config, usageId: 'other-key' }).getStats().daily.used).toBe(0);
+
+    jest.setSystemTime(new Date('2024-01-15T16:00:00Z'));
+    expect(new RateLimiter(config).getStats().daily.used).toBe(0);
+  });
+});
+
+describe('API Key Pool', () => {
+  const endpoint = '/maplestorysea/v1/character/basic';
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-01-15T02:00:00Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should spread requests across keys and skip keys out of daily quota', async () => {
+    const pool = new ApiKeyPool(['first-key', 'second-key', 'first-key'], { dailyQuota: 3 });
+    expect(pool.size).toBe(2);
+
+    const used: string[] = [];
+    for (let i = 0; i < 4; i++) {
+      used.push(await pool.acquire(endpoint));
+    }
+    expect(used.sort()).toEqual(['first-key', 'first-key', 'second-key', 'second-key']);
+
+    await expect(pool.acquire(endpoint)).rejects.toBeInstanceOf(SeaQuotaExceededError);
+    expect(pool.getStats()).toMatchObject({ dailyUsed: 4, dailyRemaining: 0 });
+  });
+
+  test('should bench rate-limited keys until they have rested', async () => {
+    const pool = new ApiKeyPool(['first-key', 'second-key']);
+
+    expect(pool.bench('first-key', new RateLimitError())).toBe(true);
+    expect(pool.bench('first-key', createNexonApiError(404, 'Not found'))).toBe(false);
+    expect(await pool.acquire(endpoint)).toBe('second-key');
+    expect(pool.getStats().keys[0]).toMatchObject({
+      id: 'key-1',
+      suffix: '-key',
+      rateLimited: 1,
+      benched: true,
+      benchReason: 'rate_limited',
+      benchedUntil: '2024-01-15T02:01:00.000Z',
+    });
+
+    pool.bench('second-key', createNexonApiError(403, 'Forbidden'));
+    expect(pool.hasAvailableKey()).toBe(false);
+    await expect(pool.acquire(endpoint)).rejects.toMatchObject({ context: { retryAfter: 60 } });
+
+    jest.advanceTimersByTime(60000);
+    expect(await pool.acquire(endpoint)).toBe('first-key');
+    expect(pool.getStats().available).toBe(1);
+  });
+
+  test('should never bench the only key', () => {
+    const pool = new ApiKeyPool(['only-key']);
+
+    expect(pool.bench('only-key', new RateLimitError())).toBe(false);
+    expect(pool.getStats()).toMatchObject({ available: 1, keys: [{ rateLimited: 1 }] });
+  });
+});
+
+describe('Circuit Breaker', () => {
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-01-15T02:00:00Z'));
+    breaker = new CircuitBreaker('test', 3, 60000);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should open after consecutive failures only', () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('closed');
+
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.allowRequest()).toBe(false);
+    expect(breaker.getStats()).toMatchObject({
+      trips: 1,
+      rejected: 1,
+      retryAt: '2024-01-15T02:01:00.000Z',
+    });
+  });
+
+  test('should let a single probe through once the timeout passes', () => {
+    for (let i = 0; i < 3; i++) {
+      breaker.recordFailure();
+    }
+    jest.advanceTimersByTime(60000);
+
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.allowRequest()).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.allowRequest()).toBe(true);
+  });
+
+  test('should reopen when the probe fails', () => {
+    for (let i = 0; i < 3; i++) {
+      breaker.recordFailure();
+    }
+    jest.advanceTimersByTime(60000);
+    expect(breaker.allowRequest()).toBe(true);
+
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.getStats().trips).toBe(1);
+  });
+});
+
 describe('Validation Utilities', () => {
   describe('validateCharacterName', () => {
     test('should accept valid English character names', () => {
@@ -299,4 +733,66 @@ describe('Validation Utilities', () => {
       expect(sanitizeGuildName('TEST123')).toBe('test123');
     });
   });
-});
\ No newline at end of file
+});
+
+describe('Ranking Utilities', () => {
+  describe('formatRecordTime', () => {
+    test('should format seconds as mm:ss', () => {
+      expect(formatRecordTime(0)).toBe('00:00');
+      expect(formatRecordTime(65)).toBe('01:05');
+      expect(formatRecordTime(900)).toBe('15:00');
+    });
+
+    test('should handle invalid values', () => {
+      expect(formatRecordTime(-1)).toBe('00:00');
+      expect(formatRecordTime(NaN)).toBe('00:00');
+    });
+  });
+});
+
+describe('Equipment Analyzer Utilities', () => {
+  describe('parseSetOptionStats', () => {
+    test('should parse set option text into stat values', () => {
+      expect(parseSetOptionStats('STR : +20, Attack Power : +15, Boss Monster Damage : +30%')).toEqual({
+        str: 20,
+        attack_power: 15,
+        boss_monster_damage: 30,
+      });
+      expect(parseSetOptionStats('Max HP : +2,000')).toEqual({ max_hp: 2000 });
+      expect(parseSetOptionStats('')).toEqual({});
+    });
+  });
+
+  describe('parseSetEffects', () => {
+    test('should report active tiers and the next tier', () => {
+      const [set] = parseSetEffects({
+        date: '2024-01-15',
+        set_effect: [
+          {
+            set_name: 'Boss Accessory Set',
+            total_set_count: 3,
+            set_effect_info: [{ set_count: 3, set_option: 'All Stats : +10' }],
+            set_option_full: [
+              { set_count: 3, set_option: 'All Stats : +10' },
+              { set_count: 5, set_option: 'Attack Power : +5' },
+            ],
+          },
+        ],
+      });
+
+      expect(set).toMatchObject({ setName: 'Boss Accessory Set', activeCount: 3, totalCount: 5 });
+      expect(set!.effects).toHaveLength(1);
+      expect(set!.tiers!.map((tier) => tier.active)).toEqual([true, false]);
+      expect(set!.tiers![1]!.stats).toEqual({ attack_power: 5 });
+      expect(set!.nextTier).toEqual({
+        requiredCount: 5,
+        remainingCount: 2,
+        description: 'Attack Power : +5',
+      });
+    });
+
+    test('should handle missing data', () => {
+      expect(parseSetEffects(null)).toEqual([]);
+    });
+  });
+});